@@ -1,4 +1,15 @@
-import { CameraDevice, CaptureResult } from '@shared/types'
+import {
+    CameraDevice,
+    CaptureResult,
+    CameraSettings,
+    CameraSettingKey,
+    CameraSettingOptions
+} from '@shared/types'
+
+/**
+ * Callback receiving a single JPEG-encoded live view frame
+ */
+export type LiveViewFrameCallback = (frame: Buffer) => void
 
 /**
  * Abstract Camera Handler Interface
@@ -8,6 +19,12 @@ import { CameraDevice, CaptureResult } from '@shared/types'
 export abstract class CameraHandler {
     protected connected: boolean = false
     protected currentCamera: CameraDevice | null = null
+    protected liveViewActive: boolean = false
+
+    /**
+     * Driver-specific property names for each typed camera setting
+     */
+    protected abstract readonly settingProperties: Record<CameraSettingKey, string>
 
     /**
      * List all available cameras connected via USB
@@ -30,6 +47,87 @@ export abstract class CameraHandler {
      */
     abstract capture(outputPath: string): Promise<CaptureResult>
 
+    /**
+     * Capture a rapid sequence of photos, one per output path, starting each
+     * shot intervalMs after the previous one started. Drivers with a native
+     * burst/continuous mode can override this.
+     */
+    async captureBurst(outputPaths: string[], intervalMs: number): Promise<CaptureResult[]> {
+        const results: CaptureResult[] = []
+        for (const outputPath of outputPaths) {
+            const startedAt = Date.now()
+            results.push(await this.capture(outputPath))
+
+            const wait = intervalMs - (Date.now() - startedAt)
+            if (wait > 0 && results.length < outputPaths.length) {
+                await new Promise(resolve => setTimeout(resolve, wait))
+            }
+        }
+        return results
+    }
+
+    /**
+     * Start streaming live view (MJPEG) frames from the camera
+     * Each frame is passed to the callback as a complete JPEG buffer
+     */
+    abstract startLiveView(onFrame: LiveViewFrameCallback): Promise<void>
+
+    /**
+     * Stop the live view stream, if running
+     */
+    abstract stopLiveView(): Promise<void>
+
+    /**
+     * Set a raw driver property (ISO, aperture, shutter speed, etc.)
+     */
+    abstract setProperty(property: string, value: string): Promise<boolean>
+
+    /**
+     * Get a raw driver property value
+     */
+    abstract getProperty(property: string): Promise<string | null>
+
+    /**
+     * List the values the connected camera accepts for each setting
+     */
+    abstract listSettingOptions(): Promise<CameraSettingOptions>
+
+    /**
+     * Read the current exposure/colour settings from the camera
+     */
+    async getSettings(): Promise<CameraSettings> {
+        const settings: CameraSettings = {}
+        for (const key of Object.keys(this.settingProperties) as CameraSettingKey[]) {
+            const value = await this.getProperty(this.settingProperties[key])
+            if (value !== null && value !== '') {
+                settings[key] = value
+            }
+        }
+        return settings
+    }
+
+    /**
+     * Apply settings to the camera, returning the keys that could not be set
+     */
+    async setSettings(settings: CameraSettings): Promise<CameraSettingKey[]> {
+        const failed: CameraSettingKey[] = []
+        for (const key of Object.keys(settings) as CameraSettingKey[]) {
+            const value = settings[key]
+            if (!value || !this.settingProperties[key]) continue
+            if (!(await this.setProperty(this.settingProperties[key], value))) {
+                failed.push(key)
+            }
+        }
+        return failed
+    }
+
+    /**
+     * Whether live view frames are currently being streamed
+     */
+    isLiveViewActive(): boolean {
+        return this.liveViewActive
+    }
+
     /**
      * Get the current connection status
      */
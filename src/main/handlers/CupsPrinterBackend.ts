@@ -0,0 +1,104 @@
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+import { PrinterBackend, PrintOptions } from './PrinterBackend'
+import { PrinterDevice, PrintResult, PrinterQueueEntry } from '@shared/types'
+
+const execFileAsync = promisify(execFile)
+
+/**
+ * CupsPrinterBackend - Silent printing on Linux/macOS via the CUPS lp/lpstat tools
+ */
+export class CupsPrinterBackend extends PrinterBackend {
+    private lpPath: string
+    private lpstatPath: string
+
+    constructor(lpPath?: string, lpstatPath?: string) {
+        super()
+        // Resolved through PATH by default so stub scripts can stand in for testing
+        this.lpPath = lpPath || process.env.LP_PATH || 'lp'
+        this.lpstatPath = lpstatPath || process.env.LPSTAT_PATH || 'lpstat'
+    }
+
+    private async run(command: string, args: string[]): Promise<string> {
+        try {
+            const { stdout } = await execFileAsync(command, args, {
+                timeout: 30000,
+                // Keep output parseable regardless of the booth's locale
+                env: { ...process.env, LC_ALL: 'C', LANG: 'C' }
+            })
+            return stdout.trim()
+        } catch (error) {
+            const err = error as Error & { stderr?: string }
+            throw new Error(`CUPS error: ${err.stderr?.trim() || err.message}`)
+        }
+    }
+
+    async listPrinters(): Promise<PrinterDevice[]> {
+        // lpstat exits non-zero when no destinations are configured
+        let output: string
+        try {
+            output = await this.run(this.lpstatPath, ['-p', '-d'])
+        } catch (error) {
+            console.error('Failed to list printers:', error)
+            return []
+        }
+
+        // printer DNP_DS620 is idle.  enabled since ...
+        // system default destination: DNP_DS620
+        const defaultMatch = output.match(/^system default destination:\s*(\S+)/m)
+        const defaultName = defaultMatch ? defaultMatch[1] : null
+
+        return output
+            .split('\n')
+            .map(line => line.match(/^printer\s+(\S+)/))
+            .filter((match): match is RegExpMatchArray => match !== null)
+            .map(match => ({
+                name: match[1],
+                isDefault: match[1] === defaultName
+            }))
+    }
+
+    async print(filePath: string, options: PrintOptions): Promise<PrintResult> {
+        const args: string[] = []
+        if (options.printer) {
+            args.push('-d', options.printer)
+        }
+        args.push('-n', String(Math.max(1, options.copies || 1)))
+        if (options.media) {
+            args.push('-o', `media=${options.media}`)
+        }
+        if (options.scale === 'noscale') {
+            args.push('-o', 'print-scaling=none')
+        } else {
+            args.push('-o', 'fit-to-page')
+        }
+        args.push('--', filePath)
+
+        // request id is DNP_DS620-42 (1 file(s))
+        const output = await this.run(this.lpPath, args)
+        const match = output.match(/request id is (\S+)/)
+
+        return {
+            success: true,
+            jobId: match ? match[1] : undefined
+        }
+    }
+
+    async listJobs(printerName?: string): Promise<PrinterQueueEntry[]> {
+        const output = await this.run(this.lpstatPath, printerName ? ['-o', printerName] : ['-o'])
+
+        // DNP_DS620-42   booth   1048576   Mon 19 Oct 2026 10:00:00 AM UTC
+        return output
+            .split('\n')
+            .map(line => line.trim().match(/^(\S+)\s+(\S+)\s+(\d+)\s+(.*)$/))
+            .filter((match): match is RegExpMatchArray => match !== null)
+            .map(match => ({
+                jobId: match[1],
+                // Job ids are "<printer>-<number>"
+                printer: match[1].replace(/-\d+$/, ''),
+                user: match[2],
+                size: parseInt(match[3]),
+                submittedAt: match[4]
+            }))
+    }
+}
@@ -1,11 +1,20 @@
-import { exec } from 'child_process'
+import { execFile } from 'child_process'
 import { promisify } from 'util'
 import { existsSync, mkdirSync } from 'fs'
 import { dirname, join } from 'path'
-import { CameraHandler } from './CameraHandler'
-import { CameraDevice, CaptureResult } from '@shared/types'
-
-const execAsync = promisify(exec)
+import { CameraHandler, LiveViewFrameCallback } from './CameraHandler'
+import { CameraDevice, CaptureResult, CameraSettingKey, CameraSettingOptions } from '@shared/types'
+
+const execFileAsync = promisify(execFile)
+
+// CameraControlCmd can't enumerate accepted values, so offer the common full-stop scales
+const DIGICAM_SETTING_OPTIONS: CameraSettingOptions = {
+    iso: ['Auto', '100', '200', '400', '800', '1600', '3200', '6400'],
+    aperture: ['1.8', '2.8', '4', '5.6', '8', '11', '16'],
+    shutterSpeed: ['1/30', '1/60', '1/125', '1/200', '1/250', '1/500', '1/1000'],
+    whiteBalance: ['Auto', 'Daylight', 'Cloudy', 'Shade', 'Tungsten', 'Fluorescent', 'Flash'],
+    exposureCompensation: ['-2', '-1.7', '-1.3', '-1', '-0.7', '-0.3', '0', '+0.3', '+0.7', '+1', '+1.3', '+1.7', '+2']
+}
 
 /**
  * DigiCamControl Camera Handler
@@ -14,17 +23,30 @@ const execAsync = promisify(exec)
  */
 export class DigiCamControlCamera extends CameraHandler {
     private digiCamPath: string
+    private webServerUrl: string
+    private liveViewTimer: ReturnType<typeof setTimeout> | null = null
+
+    protected readonly settingProperties: Record<CameraSettingKey, string> = {
+        iso: 'iso',
+        aperture: 'aperture',
+        shutterSpeed: 'shutterspeed',
+        whiteBalance: 'whitebalance',
+        exposureCompensation: 'exposurecompensation'
+    }
 
     constructor(digiCamPath?: string) {
         super()
         this.digiCamPath = digiCamPath ||
             process.env.DIGICAM_PATH ||
             'C:\\Program Files (x86)\\digiCamControl\\CameraControlCmd.exe'
+        // Live view is served by digiCamControl's built-in web server (Settings > Webserver)
+        this.webServerUrl = process.env.DIGICAM_WEBSERVER_URL || 'http://localhost:5513'
     }
 
-    private async runCommand(args: string): Promise<string> {
+    // Arguments go straight to the executable, no shell, so setting values can't inject commands
+    private async runCommand(args: string[]): Promise<string> {
         try {
-            const { stdout, stderr } = await execAsync(`"${this.digiCamPath}" ${args}`)
+            const { stdout, stderr } = await execFileAsync(this.digiCamPath, args)
             if (stderr && !stdout) {
                 throw new Error(stderr)
             }
@@ -38,7 +60,7 @@ export class DigiCamControlCamera extends CameraHandler {
     async listCameras(): Promise<CameraDevice[]> {
         try {
             // Check if digiCamControl is available
-            const result = await this.runCommand('/c list cameras')
+            const result = await this.runCommand(['/c', 'list', 'cameras'])
             const lines = result.split('\n').filter(line => line.trim())
 
             const cameras: CameraDevice[] = lines.map((line, index) => ({
@@ -75,6 +97,7 @@ export class DigiCamControlCamera extends CameraHandler {
     }
 
     async disconnect(): Promise<void> {
+        await this.stopLiveView()
         this.connected = false
         this.currentCamera = null
     }
@@ -96,7 +119,7 @@ export class DigiCamControlCamera extends CameraHandler {
             }
 
             // Trigger capture and save to path
-            await this.runCommand(`/c capture /filename "${outputPath}"`)
+            await this.runCommand(['/c', 'capture', '/filename', outputPath])
 
             // Verify the file was created
             if (existsSync(outputPath)) {
@@ -122,12 +145,60 @@ export class DigiCamControlCamera extends CameraHandler {
         }
     }
 
+    /**
+     * Open digiCamControl's live view and poll the web server's liveview.jpg
+     */
+    async startLiveView(onFrame: LiveViewFrameCallback): Promise<void> {
+        if (!this.connected) {
+            throw new Error('Camera not connected')
+        }
+        await this.stopLiveView()
+
+        await this.runCommand(['/c', 'do', 'LiveViewWnd_Show'])
+        this.liveViewActive = true
+
+        const poll = async (): Promise<void> => {
+            if (!this.liveViewActive) return
+            try {
+                const response = await fetch(`${this.webServerUrl}/liveview.jpg?t=${Date.now()}`, {
+                    signal: AbortSignal.timeout(2000)
+                })
+                if (response.ok) {
+                    const frame = Buffer.from(await response.arrayBuffer())
+                    if (this.liveViewActive && frame.length > 0) onFrame(frame)
+                }
+            } catch (error) {
+                // Frames are dropped while the live view window is still starting up
+            }
+            if (this.liveViewActive) {
+                this.liveViewTimer = setTimeout(poll, 50)
+            }
+        }
+
+        poll()
+    }
+
+    async stopLiveView(): Promise<void> {
+        if (this.liveViewTimer) {
+            clearTimeout(this.liveViewTimer)
+            this.liveViewTimer = null
+        }
+        if (!this.liveViewActive) return
+
+        this.liveViewActive = false
+        try {
+            await this.runCommand(['/c', 'do', 'LiveViewWnd_Hide'])
+        } catch (error) {
+            console.error('Failed to close live view:', error)
+        }
+    }
+
     /**
      * Set camera property (ISO, aperture, shutter speed, etc.)
      */
     async setProperty(property: string, value: string): Promise<boolean> {
         try {
-            await this.runCommand(`/c set ${property} ${value}`)
+            await this.runCommand(['/c', 'set', property, value])
             return true
         } catch (error) {
             console.error(`Failed to set ${property}:`, error)
@@ -140,11 +211,15 @@ export class DigiCamControlCamera extends CameraHandler {
      */
     async getProperty(property: string): Promise<string | null> {
         try {
-            const result = await this.runCommand(`/c get ${property}`)
+            const result = await this.runCommand(['/c', 'get', property])
             return result
         } catch (error) {
             console.error(`Failed to get ${property}:`, error)
             return null
         }
     }
+
+    async listSettingOptions(): Promise<CameraSettingOptions> {
+        return DIGICAM_SETTING_OPTIONS
+    }
 }
@@ -0,0 +1,284 @@
+import { execFile, spawn, ChildProcess } from 'child_process'
+import { promisify } from 'util'
+import { existsSync, mkdirSync } from 'fs'
+import { dirname } from 'path'
+import { CameraHandler, LiveViewFrameCallback } from './CameraHandler'
+import { CameraDevice, CaptureResult, CameraSettingKey, CameraSettingOptions } from '@shared/types'
+
+const execFileAsync = promisify(execFile)
+
+// JPEG start/end of image markers, used to split the MJPEG stream into frames
+const JPEG_SOI = Buffer.from([0xff, 0xd8])
+const JPEG_EOI = Buffer.from([0xff, 0xd9])
+
+/**
+ * gPhoto2 Camera Handler
+ * Uses the gphoto2 CLI for PTP communication on Linux/macOS
+ * Install: apt install gphoto2 (Debian/Ubuntu) or brew install gphoto2 (macOS)
+ */
+export class GPhoto2Camera extends CameraHandler {
+    private gphoto2Path: string
+    private liveViewProcess: ChildProcess | null = null
+
+    protected readonly settingProperties: Record<CameraSettingKey, string> = {
+        iso: 'iso',
+        aperture: 'aperture',
+        shutterSpeed: 'shutterspeed',
+        whiteBalance: 'whitebalance',
+        exposureCompensation: 'exposurecompensation'
+    }
+
+    constructor(gphoto2Path?: string) {
+        super()
+        // Resolved through PATH by default so a stub script can stand in for testing
+        this.gphoto2Path = gphoto2Path ||
+            process.env.GPHOTO2_PATH ||
+            'gphoto2'
+    }
+
+    private async runCommand(args: string[], timeout: number = 30000): Promise<string> {
+        try {
+            const { stdout, stderr } = await execFileAsync(this.gphoto2Path, args, { timeout })
+            if (stderr && !stdout) {
+                throw new Error(stderr)
+            }
+            return stdout.trim()
+        } catch (error) {
+            const err = error as Error
+            throw new Error(`gPhoto2 error: ${err.message}`)
+        }
+    }
+
+    /**
+     * Arguments selecting the connected camera's port, so multiple bodies can coexist
+     */
+    private portArgs(): string[] {
+        return this.currentCamera ? ['--port', this.currentCamera.port] : []
+    }
+
+    async listCameras(): Promise<CameraDevice[]> {
+        try {
+            const result = await this.runCommand(['--auto-detect'])
+
+            // Output format:
+            // Model                          Port
+            // ----------------------------------------------------------
+            // Canon EOS 600D                 usb:001,007
+            const lines = result.split('\n')
+            const separatorIndex = lines.findIndex(line => /^-{5,}/.test(line.trim()))
+
+            return lines
+                .slice(separatorIndex + 1)
+                .map(line => line.trim())
+                .filter(line => line)
+                .map(line => {
+                    const match = line.match(/^(.*?)\s{2,}(\S+)$/)
+                    const name = match ? match[1].trim() : line
+                    const port = match ? match[2] : 'usb:'
+                    return {
+                        id: port,
+                        name,
+                        port,
+                        connected: false
+                    }
+                })
+        } catch (error) {
+            console.error('Failed to list cameras:', error)
+            // Return empty array if gphoto2 is not installed or no cameras
+            return []
+        }
+    }
+
+    async connect(cameraId: string): Promise<boolean> {
+        try {
+            const cameras = await this.listCameras()
+            const camera = cameras.find(c => c.id === cameraId)
+
+            if (camera) {
+                this.currentCamera = { ...camera, connected: true }
+                this.connected = true
+                return true
+            }
+            return false
+        } catch (error) {
+            console.error('Failed to connect to camera:', error)
+            return false
+        }
+    }
+
+    async disconnect(): Promise<void> {
+        await this.stopLiveView()
+        this.connected = false
+        this.currentCamera = null
+    }
+
+    async capture(outputPath: string): Promise<CaptureResult> {
+        if (!this.connected) {
+            return {
+                success: false,
+                error: 'Camera not connected',
+                timestamp: Date.now()
+            }
+        }
+
+        try {
+            // Ensure output directory exists
+            const dir = dirname(outputPath)
+            if (!existsSync(dir)) {
+                mkdirSync(dir, { recursive: true })
+            }
+
+            // Trigger capture and download straight to the output path
+            await this.runCommand([
+                ...this.portArgs(),
+                '--capture-image-and-download',
+                '--filename', outputPath,
+                '--force-overwrite'
+            ], 60000)
+
+            // Verify the file was created
+            if (existsSync(outputPath)) {
+                return {
+                    success: true,
+                    imagePath: outputPath,
+                    timestamp: Date.now()
+                }
+            } else {
+                return {
+                    success: false,
+                    error: 'Capture completed but file not found',
+                    timestamp: Date.now()
+                }
+            }
+        } catch (error) {
+            const err = error as Error
+            return {
+                success: false,
+                error: err.message,
+                timestamp: Date.now()
+            }
+        }
+    }
+
+    /**
+     * Stream the camera's movie/preview output as MJPEG over stdout
+     */
+    async startLiveView(onFrame: LiveViewFrameCallback): Promise<void> {
+        if (!this.connected) {
+            throw new Error('Camera not connected')
+        }
+        await this.stopLiveView()
+
+        const child = spawn(this.gphoto2Path, [...this.portArgs(), '--capture-movie', '--stdout'], {
+            stdio: ['ignore', 'pipe', 'pipe']
+        })
+        this.liveViewProcess = child
+        this.liveViewActive = true
+
+        let pending: Buffer = Buffer.alloc(0)
+        child.stdout?.on('data', (chunk: Buffer) => {
+            pending = pending.length ? Buffer.concat([pending, chunk]) : chunk
+
+            // Emit every complete JPEG in the buffer, keep the partial tail
+            for (;;) {
+                const start = pending.indexOf(JPEG_SOI)
+                if (start === -1) {
+                    pending = Buffer.alloc(0)
+                    break
+                }
+                const end = pending.indexOf(JPEG_EOI, start + 2)
+                if (end === -1) {
+                    pending = pending.subarray(start)
+                    break
+                }
+                onFrame(Buffer.from(pending.subarray(start, end + 2)))
+                pending = pending.subarray(end + 2)
+            }
+        })
+
+        child.stderr?.on('data', (data: Buffer) => {
+            console.error('[gPhoto2] live view:', data.toString().trim())
+        })
+
+        child.on('error', (error) => {
+            console.error('Failed to start live view:', error)
+        })
+
+        child.on('exit', () => {
+            if (this.liveViewProcess === child) {
+                this.liveViewProcess = null
+                this.liveViewActive = false
+            }
+        })
+    }
+
+    async stopLiveView(): Promise<void> {
+        const child = this.liveViewProcess
+        this.liveViewProcess = null
+        this.liveViewActive = false
+        if (!child || child.exitCode !== null || child.signalCode !== null) return
+
+        // SIGINT lets gphoto2 end movie mode cleanly and release the USB device
+        await new Promise<void>(resolve => {
+            const forceKill = setTimeout(() => child.kill('SIGKILL'), 3000)
+            child.once('exit', () => {
+                clearTimeout(forceKill)
+                resolve()
+            })
+            child.kill('SIGINT')
+        })
+    }
+
+    /**
+     * Set camera config value (e.g. iso, aperture, shutterspeed, whitebalance)
+     */
+    async setProperty(property: string, value: string): Promise<boolean> {
+        try {
+            await this.runCommand([...this.portArgs(), '--set-config', `${property}=${value}`])
+            return true
+        } catch (error) {
+            console.error(`Failed to set ${property}:`, error)
+            return false
+        }
+    }
+
+    /**
+     * Get camera config value, parsed from the "Current:" line of --get-config
+     */
+    async getProperty(property: string): Promise<string | null> {
+        try {
+            const result = await this.runCommand([...this.portArgs(), '--get-config', property])
+            const current = result.split('\n').find(line => line.startsWith('Current:'))
+            return current ? current.slice('Current:'.length).trim() : null
+        } catch (error) {
+            console.error(`Failed to get ${property}:`, error)
+            return null
+        }
+    }
+
+    /**
+     * Read accepted values from the "Choice:" lines of --get-config
+     */
+    async listSettingOptions(): Promise<CameraSettingOptions> {
+        const options: CameraSettingOptions = {}
+
+        for (const key of Object.keys(this.settingProperties) as CameraSettingKey[]) {
+            try {
+                const result = await this.runCommand([...this.portArgs(), '--get-config', this.settingProperties[key]])
+                // Choice: 3 400
+                const choices = result
+                    .split('\n')
+                    .map(line => line.match(/^Choice:\s+\d+\s+(.+)$/))
+                    .filter((match): match is RegExpMatchArray => match !== null)
+                    .map(match => match[1].trim())
+                if (choices.length > 0) {
+                    options[key] = choices
+                }
+            } catch (error) {
+                // Not every body exposes every setting
+            }
+        }
+
+        return options
+    }
+}
@@ -0,0 +1,152 @@
+import { createHash, timingSafeEqual } from 'crypto'
+import { PaymentProvider } from './PaymentProvider'
+import { MidtransEnvironment, PaymentCharge, PaymentChargeRequest, PaymentStatus } from '@shared/types'
+
+const API_URLS: Record<MidtransEnvironment, string> = {
+    sandbox: 'https://api.sandbox.midtrans.com',
+    production: 'https://api.midtrans.com'
+}
+
+// Midtrans transaction_status values, as booth payment states
+const STATUS_MAP: Record<string, PaymentStatus> = {
+    pending: 'pending',
+    authorize: 'pending',
+    capture: 'settled',
+    settlement: 'settled',
+    expire: 'expired',
+    cancel: 'cancelled',
+    deny: 'failed',
+    failure: 'failed',
+    refund: 'refunded',
+    partial_refund: 'refunded'
+}
+
+interface MidtransResponse {
+    status_code: string
+    status_message?: string
+    transaction_id?: string
+    order_id?: string
+    gross_amount?: string
+    transaction_status?: string
+    qr_string?: string
+    actions?: { name: string; url: string }[]
+}
+
+// HTTP notification body, see the Midtrans docs on "HTTP(S) Notification / Webhooks"
+export interface MidtransNotification extends MidtransResponse {
+    signature_key?: string
+}
+
+/**
+ * Midtrans Core API provider (QRIS)
+ * Sandbox and production only differ by host and keys.
+ */
+export class MidtransProvider extends PaymentProvider {
+    readonly id = 'midtrans' as const
+
+    constructor(private serverKey: string, private environment: MidtransEnvironment = 'sandbox') {
+        super()
+    }
+
+    async createCharge(request: PaymentChargeRequest): Promise<PaymentCharge> {
+        const orderId = request.orderId || this.createOrderId()
+        const data = await this.request('POST', '/v2/charge', {
+            payment_type: 'qris',
+            transaction_details: {
+                order_id: orderId,
+                gross_amount: request.amount
+            },
+            qris: {
+                acquirer: 'gopay'
+            }
+        })
+
+        const qrAction = data.actions?.find(action => action.name === 'generate-qr-code') || data.actions?.[0]
+        if (!data.qr_string && !qrAction) {
+            throw new Error(data.status_message || 'Midtrans did not return a QR code')
+        }
+
+        return {
+            ...this.toCharge(data, orderId, request.amount),
+            qrString: data.qr_string,
+            qrImageUrl: qrAction?.url
+        }
+    }
+
+    async getStatus(orderId: string): Promise<PaymentCharge> {
+        return this.toCharge(await this.request('GET', `/v2/${encodeURIComponent(orderId)}/status`), orderId)
+    }
+
+    async cancel(orderId: string): Promise<PaymentCharge> {
+        return this.toCharge(await this.request('POST', `/v2/${encodeURIComponent(orderId)}/cancel`), orderId)
+    }
+
+    async refund(orderId: string, amount?: number, reason?: string): Promise<PaymentCharge> {
+        // QRIS is refunded through the direct refund endpoint
+        await this.request('POST', `/v2/${encodeURIComponent(orderId)}/refund/online/direct`, {
+            refund_key: `${orderId}-refund-${Date.now()}`,
+            ...(amount !== undefined && { amount }),
+            reason: reason || 'Refunded by booth operator'
+        })
+        return this.getStatus(orderId)
+    }
+
+    /**
+     * Check a webhook notification's signature and read the charge state from it.
+     * Returns null when the signature doesn't match this booth's server key.
+     */
+    verifyNotification(notification: MidtransNotification): PaymentCharge | null {
+        if (!this.serverKey) {
+            throw new Error('Midtrans server key is not configured')
+        }
+        const { order_id, status_code, gross_amount, signature_key } = notification
+        if (!order_id || !status_code || !gross_amount || !signature_key) {
+            throw new Error('Notification is missing order_id, status_code, gross_amount or signature_key')
+        }
+
+        // SHA512(order_id + status_code + gross_amount + server_key)
+        const expected = createHash('sha512')
+            .update(`${order_id}${status_code}${gross_amount}${this.serverKey}`)
+            .digest()
+        const received = Buffer.from(signature_key, 'hex')
+        if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+            return null
+        }
+
+        return this.toCharge(notification, order_id)
+    }
+
+    private async request(method: 'GET' | 'POST', path: string, body?: unknown): Promise<MidtransResponse> {
+        if (!this.serverKey) {
+            throw new Error('Midtrans server key is not configured')
+        }
+
+        const response = await fetch(`${API_URLS[this.environment]}${path}`, {
+            method,
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Basic ${Buffer.from(`${this.serverKey}:`).toString('base64')}`,
+                'Accept': 'application/json'
+            },
+            body: body ? JSON.stringify(body) : undefined
+        })
+        const data = await response.json() as MidtransResponse
+
+        // Midtrans reports errors in status_code even on HTTP 200
+        if (!response.ok || !/^2\d\d$/.test(data.status_code)) {
+            throw new Error(data.status_message || `Midtrans request failed (${data.status_code || response.status})`)
+        }
+        return data
+    }
+
+    private toCharge(data: MidtransResponse, orderId: string, amount?: number): PaymentCharge {
+        return {
+            provider: this.id,
+            orderId: data.order_id || orderId,
+            transactionId: data.transaction_id,
+            amount: amount ?? Number(data.gross_amount || 0),
+            status: STATUS_MAP[data.transaction_status || 'pending'] || 'pending',
+            updatedAt: Date.now()
+        }
+    }
+}
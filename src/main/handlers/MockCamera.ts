@@ -1,7 +1,8 @@
 import { join } from 'path'
 import { existsSync, mkdirSync, copyFileSync } from 'fs'
-import { CameraHandler } from './CameraHandler'
-import { CameraDevice, CaptureResult } from '@shared/types'
+import sharp from 'sharp'
+import { CameraHandler, LiveViewFrameCallback } from './CameraHandler'
+import { CameraDevice, CaptureResult, CameraSettingKey, CameraSettingOptions } from '@shared/types'
 
 /**
  * Mock Camera Handler for Development/Testing
@@ -10,6 +11,23 @@ import { CameraDevice, CaptureResult } from '@shared/types'
 export class MockCamera extends CameraHandler {
     private mockImagePath: string | null = null
     private captureCount: number = 0
+    private liveViewTimer: ReturnType<typeof setInterval> | null = null
+    private liveViewFrameCount: number = 0
+    private properties: Map<string, string> = new Map([
+        ['iso', '400'],
+        ['aperture', '5.6'],
+        ['shutterspeed', '1/125'],
+        ['whitebalance', 'Auto'],
+        ['exposurecompensation', '0']
+    ])
+
+    protected readonly settingProperties: Record<CameraSettingKey, string> = {
+        iso: 'iso',
+        aperture: 'aperture',
+        shutterSpeed: 'shutterspeed',
+        whiteBalance: 'whitebalance',
+        exposureCompensation: 'exposurecompensation'
+    }
 
     constructor(mockImagePath?: string) {
         super()
@@ -48,6 +66,7 @@ export class MockCamera extends CameraHandler {
     }
 
     async disconnect(): Promise<void> {
+        await this.stopLiveView()
         console.log('[MockCamera] Disconnected')
         this.connected = false
         this.currentCamera = null
@@ -99,6 +118,92 @@ export class MockCamera extends CameraHandler {
         }
     }
 
+    /**
+     * Stream a synthetic moving test pattern at ~15fps
+     */
+    async startLiveView(onFrame: LiveViewFrameCallback): Promise<void> {
+        if (!this.connected) {
+            throw new Error('Camera not connected')
+        }
+        await this.stopLiveView()
+
+        this.liveViewActive = true
+        let rendering = false
+
+        this.liveViewTimer = setInterval(async () => {
+            // Skip a tick rather than queueing frames if rendering falls behind
+            if (rendering) return
+            rendering = true
+            try {
+                const frame = await this.renderTestPattern(this.liveViewFrameCount++)
+                if (this.liveViewActive) onFrame(frame)
+            } catch (error) {
+                console.error('[MockCamera] Failed to render live view frame:', error)
+            } finally {
+                rendering = false
+            }
+        }, 1000 / 15)
+    }
+
+    async stopLiveView(): Promise<void> {
+        if (this.liveViewTimer) {
+            clearInterval(this.liveViewTimer)
+            this.liveViewTimer = null
+        }
+        this.liveViewActive = false
+    }
+
+    /**
+     * Render one frame of the test pattern: a ball bouncing over a shifting gradient
+     */
+    private async renderTestPattern(frameIndex: number): Promise<Buffer> {
+        const width = 960
+        const height = 640
+        const t = frameIndex / 15
+        const hue = (frameIndex * 2) % 360
+        const x = width / 2 + Math.sin(t * 1.3) * (width / 2 - 80)
+        const y = height / 2 + Math.cos(t * 0.9) * (height / 2 - 80)
+        const label = `${this.currentCamera?.name || 'Mock Camera'} - LIVE ${frameIndex}`
+
+        const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+            <defs>
+                <linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">
+                    <stop offset="0" stop-color="hsl(${hue}, 60%, 35%)"/>
+                    <stop offset="1" stop-color="hsl(${(hue + 120) % 360}, 60%, 20%)"/>
+                </linearGradient>
+            </defs>
+            <rect width="100%" height="100%" fill="url(#bg)"/>
+            <line x1="${width / 3}" y1="0" x2="${width / 3}" y2="${height}" stroke="white" stroke-opacity="0.2"/>
+            <line x1="${(width * 2) / 3}" y1="0" x2="${(width * 2) / 3}" y2="${height}" stroke="white" stroke-opacity="0.2"/>
+            <line x1="0" y1="${height / 3}" x2="${width}" y2="${height / 3}" stroke="white" stroke-opacity="0.2"/>
+            <line x1="0" y1="${(height * 2) / 3}" x2="${width}" y2="${(height * 2) / 3}" stroke="white" stroke-opacity="0.2"/>
+            <circle cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="60" fill="white" fill-opacity="0.85"/>
+            <text x="24" y="${height - 24}" font-family="sans-serif" font-size="28" fill="white">${label}</text>
+        </svg>`
+
+        return sharp(Buffer.from(svg)).jpeg({ quality: 70 }).toBuffer()
+    }
+
+    async setProperty(property: string, value: string): Promise<boolean> {
+        console.log(`[MockCamera] Set ${property} = ${value}`)
+        this.properties.set(property, value)
+        return true
+    }
+
+    async getProperty(property: string): Promise<string | null> {
+        return this.properties.get(property) ?? null
+    }
+
+    async listSettingOptions(): Promise<CameraSettingOptions> {
+        return {
+            iso: ['Auto', '100', '200', '400', '800', '1600', '3200'],
+            aperture: ['2.8', '4', '5.6', '8', '11'],
+            shutterSpeed: ['1/60', '1/125', '1/250', '1/500'],
+            whiteBalance: ['Auto', 'Daylight', 'Cloudy', 'Tungsten', 'Flash'],
+            exposureCompensation: ['-1', '-0.7', '-0.3', '0', '+0.3', '+0.7', '+1']
+        }
+    }
+
     /**
      * Set a mock image to use for captures
      */
@@ -0,0 +1,80 @@
+import { PaymentProvider } from './PaymentProvider'
+import { MockPaymentOutcome, PaymentCharge, PaymentChargeRequest } from '@shared/types'
+
+// How long a mock charge stays pending before it settles or expires
+const MOCK_PENDING_MS = 8000
+
+/**
+ * Mock Payment Provider for Development/Testing
+ * Charges stay pending for a few seconds and then settle or expire, so the
+ * whole payment flow can be exercised offline without a merchant account.
+ */
+export class MockPaymentProvider extends PaymentProvider {
+    readonly id = 'mock' as const
+    private charges = new Map<string, PaymentCharge>()
+
+    constructor(private outcome: MockPaymentOutcome = 'settlement', private pendingMs: number = MOCK_PENDING_MS) {
+        super()
+    }
+
+    async createCharge(request: PaymentChargeRequest): Promise<PaymentCharge> {
+        const orderId = request.orderId || this.createOrderId()
+        const now = Date.now()
+        const charge: PaymentCharge = {
+            provider: this.id,
+            orderId,
+            transactionId: `mock-${now}`,
+            amount: request.amount,
+            status: 'pending',
+            qrString: `MOCK-QRIS|${orderId}|${request.amount}`,
+            expiresAt: now + this.pendingMs,
+            updatedAt: now
+        }
+
+        this.charges.set(orderId, charge)
+        console.log(`[MockPayment] Created ${orderId} for Rp ${request.amount}, will ${this.outcome === 'settlement' ? 'settle' : 'expire'}`)
+        return { ...charge }
+    }
+
+    async getStatus(orderId: string): Promise<PaymentCharge> {
+        const charge = this.findCharge(orderId)
+
+        // Pending charges reach the configured outcome once their time is up
+        if (charge.status === 'pending' && Date.now() >= (charge.expiresAt ?? 0)) {
+            charge.status = this.outcome === 'settlement' ? 'settled' : 'expired'
+            charge.updatedAt = Date.now()
+        }
+        return { ...charge }
+    }
+
+    async cancel(orderId: string): Promise<PaymentCharge> {
+        const charge = await this.getStatus(orderId)
+        if (charge.status !== 'pending') {
+            throw new Error(`Cannot cancel a ${charge.status} payment`)
+        }
+        return this.setStatus(orderId, 'cancelled')
+    }
+
+    async refund(orderId: string): Promise<PaymentCharge> {
+        const charge = await this.getStatus(orderId)
+        if (charge.status !== 'settled') {
+            throw new Error(`Cannot refund a ${charge.status} payment`)
+        }
+        return this.setStatus(orderId, 'refunded')
+    }
+
+    private setStatus(orderId: string, status: PaymentCharge['status']): PaymentCharge {
+        const charge = this.findCharge(orderId)
+        charge.status = status
+        charge.updatedAt = Date.now()
+        return { ...charge }
+    }
+
+    private findCharge(orderId: string): PaymentCharge {
+        const charge = this.charges.get(orderId)
+        if (!charge) {
+            throw new Error(`Payment not found: ${orderId}`)
+        }
+        return charge
+    }
+}
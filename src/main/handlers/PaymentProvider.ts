@@ -0,0 +1,37 @@
+import { PaymentCharge, PaymentChargeRequest, PaymentProviderId } from '@shared/types'
+
+/**
+ * Abstract Payment Provider Interface
+ * Implement this for each payment gateway; the renderer only ever talks to
+ * the main process, so API keys never leave it.
+ */
+export abstract class PaymentProvider {
+    abstract readonly id: PaymentProviderId
+
+    /**
+     * Create a QRIS charge for the amount
+     */
+    abstract createCharge(request: PaymentChargeRequest): Promise<PaymentCharge>
+
+    /**
+     * Fetch the current state of a charge
+     */
+    abstract getStatus(orderId: string): Promise<PaymentCharge>
+
+    /**
+     * Cancel a charge that hasn't been paid
+     */
+    abstract cancel(orderId: string): Promise<PaymentCharge>
+
+    /**
+     * Refund a settled charge, in full when no amount is given
+     */
+    abstract refund(orderId: string, amount?: number, reason?: string): Promise<PaymentCharge>
+
+    /**
+     * New booth order id, unique across booths sharing a merchant account
+     */
+    protected createOrderId(): string {
+        return `SEBOOTH-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`
+    }
+}
@@ -0,0 +1,69 @@
+import { PrinterBackend, PrintOptions } from './PrinterBackend'
+import { PrinterDevice, PrintResult, PrinterQueueEntry } from '@shared/types'
+import { PAPER_PROFILES } from '@shared/paperProfiles'
+
+// Conditional import for pdf-to-printer (Windows)
+let pdfToPrinter: typeof import('pdf-to-printer') | null = null
+
+/**
+ * PdfToPrinterBackend - Silent printing on Windows via pdf-to-printer
+ */
+export class PdfToPrinterBackend extends PrinterBackend {
+
+    private async load(): Promise<typeof import('pdf-to-printer') | null> {
+        if (!pdfToPrinter) {
+            try {
+                pdfToPrinter = await import('pdf-to-printer')
+            } catch (error) {
+                console.error('Failed to initialize printer module:', error)
+            }
+        }
+        return pdfToPrinter
+    }
+
+    async listPrinters(): Promise<PrinterDevice[]> {
+        const module = await this.load()
+        if (!module) return []
+
+        const [printers, defaultPrinter] = await Promise.all([
+            module.getPrinters(),
+            module.getDefaultPrinter()
+        ])
+        return printers.map(printer => ({
+            name: printer.name,
+            isDefault: printer.name === defaultPrinter?.name
+        }))
+    }
+
+    async print(filePath: string, options: PrintOptions): Promise<PrintResult> {
+        const module = await this.load()
+        if (!module) {
+            return {
+                success: false,
+                error: 'Printer module not available'
+            }
+        }
+
+        const copies = Math.max(1, options.copies || 1)
+        for (let i = 0; i < copies; i++) {
+            await module.print(filePath, {
+                printer: options.printer,
+                scale: options.scale,
+                paperSize: windowsPaperSize(options.media)
+            })
+        }
+
+        return { success: true }
+    }
+
+    async listJobs(): Promise<PrinterQueueEntry[]> {
+        // pdf-to-printer has no access to the Windows spooler queue
+        return []
+    }
+}
+
+// Jobs carry the CUPS media name; Windows drivers need their own paper name, or none at all
+function windowsPaperSize(media: string | undefined): string | undefined {
+    if (!media) return undefined
+    return PAPER_PROFILES.find(profile => profile.media === media)?.windowsPaperSize
+}
@@ -0,0 +1,29 @@
+import { PrinterDevice, PrintResult, PrinterQueueEntry } from '@shared/types'
+
+export interface PrintOptions {
+    printer?: string
+    copies?: number
+    scale?: 'fit' | 'noscale'
+    media?: string // Paper size name understood by the driver, e.g. '4x6'
+}
+
+/**
+ * Abstract Printer Backend Interface
+ * Implement this for each platform's print system (pdf-to-printer on Windows, CUPS elsewhere)
+ */
+export abstract class PrinterBackend {
+    /**
+     * List printers installed on this machine
+     */
+    abstract listPrinters(): Promise<PrinterDevice[]>
+
+    /**
+     * Send a file to the printer without showing a dialog
+     */
+    abstract print(filePath: string, options: PrintOptions): Promise<PrintResult>
+
+    /**
+     * List jobs still waiting in the OS print queue
+     */
+    abstract listJobs(printerName?: string): Promise<PrinterQueueEntry[]>
+}
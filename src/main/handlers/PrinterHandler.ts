@@ -1,28 +1,26 @@
-import { PrinterDevice, PrintResult } from '@shared/types'
-
-// Conditional import for pdf-to-printer (Windows)
-let pdfToPrinter: typeof import('pdf-to-printer') | null = null
+import { PrinterBackend, PrintOptions } from './PrinterBackend'
+import { PdfToPrinterBackend } from './PdfToPrinterBackend'
+import { CupsPrinterBackend } from './CupsPrinterBackend'
+import { PrinterDevice, PrintResult, PrinterStatus } from '@shared/types'
 
 /**
  * PrinterHandler - Manages silent printing operations
- * Uses pdf-to-printer on Windows for dialog-free printing
+ * Delegates to a platform backend: pdf-to-printer on Windows, CUPS on Linux/macOS
  */
 export class PrinterHandler {
-    private initialized: boolean = false
+    private backend: PrinterBackend
 
-    constructor() {
-        this.initialize()
+    constructor(backend?: PrinterBackend) {
+        this.backend = backend || (process.platform === 'win32'
+            ? new PdfToPrinterBackend()
+            : new CupsPrinterBackend())
     }
 
-    private async initialize(): Promise<void> {
-        try {
-            if (process.platform === 'win32') {
-                pdfToPrinter = await import('pdf-to-printer')
-            }
-            this.initialized = true
-        } catch (error) {
-            console.error('Failed to initialize printer module:', error)
-        }
+    /**
+     * Switch printer backend implementation
+     */
+    setBackend(backend: PrinterBackend): void {
+        this.backend = backend
     }
 
     /**
@@ -30,19 +28,7 @@ export class PrinterHandler {
      */
     async listPrinters(): Promise<PrinterDevice[]> {
         try {
-            if (!pdfToPrinter) {
-                await this.initialize()
-            }
-
-            if (pdfToPrinter) {
-                const printers = await pdfToPrinter.getPrinters()
-                return printers.map(printer => ({
-                    name: printer.name,
-                    isDefault: printer.isDefault || false
-                }))
-            }
-
-            return []
+            return await this.backend.listPrinters()
         } catch (error) {
             console.error('Failed to list printers:', error)
             return []
@@ -61,74 +47,15 @@ export class PrinterHandler {
      * Print an image file silently (no dialog)
      */
     async print(filePath: string, printerName?: string): Promise<PrintResult> {
-        try {
-            if (!pdfToPrinter) {
-                await this.initialize()
-            }
-
-            if (!pdfToPrinter) {
-                return {
-                    success: false,
-                    error: 'Printer module not available'
-                }
-            }
-
-            const options: { printer?: string } = {}
-            if (printerName) {
-                options.printer = printerName
-            }
-
-            await pdfToPrinter.print(filePath, options)
-
-            return { success: true }
-        } catch (error) {
-            const err = error as Error
-            return {
-                success: false,
-                error: err.message
-            }
-        }
+        return this.printWithOptions(filePath, { printer: printerName })
     }
 
     /**
      * Print with specific options
      */
-    async printWithOptions(
-        filePath: string,
-        options: {
-            printer?: string
-            copies?: number
-            scale?: 'fit' | 'noscale'
-        }
-    ): Promise<PrintResult> {
+    async printWithOptions(filePath: string, options: PrintOptions): Promise<PrintResult> {
         try {
-            if (!pdfToPrinter) {
-                await this.initialize()
-            }
-
-            if (!pdfToPrinter) {
-                return {
-                    success: false,
-                    error: 'Printer module not available'
-                }
-            }
-
-            await pdfToPrinter.print(filePath, {
-                printer: options.printer,
-                scale: options.scale
-            })
-
-            // Handle multiple copies
-            if (options.copies && options.copies > 1) {
-                for (let i = 1; i < options.copies; i++) {
-                    await pdfToPrinter.print(filePath, {
-                        printer: options.printer,
-                        scale: options.scale
-                    })
-                }
-            }
-
-            return { success: true }
+            return await this.backend.print(filePath, options)
         } catch (error) {
             const err = error as Error
             return {
@@ -137,6 +64,19 @@ export class PrinterHandler {
             }
         }
     }
+
+    /**
+     * Get a printer and the jobs still waiting in its spooler queue
+     */
+    async getStatus(printerName?: string): Promise<PrinterStatus> {
+        const printers = await this.listPrinters()
+        const printer = printerName
+            ? printers.find(p => p.name === printerName) || null
+            : printers.find(p => p.isDefault) || printers[0] || null
+
+        const jobs = await this.backend.listJobs(printer?.name)
+        return { printer, jobs }
+    }
 }
 
 // Singleton instance
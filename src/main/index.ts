@@ -7,6 +7,11 @@ import { registerSystemHandlers } from './ipc/system.ipc'
 import { registerImageHandlers } from './ipc/image.ipc'
 import { registerEmailHandlers } from './ipc/email.ipc'
 import { registerDriveHandlers } from './ipc/drive.ipc'
+import { registerSettingsHandlers } from './ipc/settings.ipc'
+import { registerSessionHandlers } from './ipc/sessions.ipc'
+import { registerSyncHandlers } from './ipc/sync.ipc'
+import { registerPaymentHandlers } from './ipc/payment.ipc'
+import { registerVoucherHandlers } from './ipc/vouchers.ipc'
 
 let mainWindow: BrowserWindow | null = null
 
@@ -56,13 +61,18 @@ app.whenReady().then(() => {
         optimizer.watchWindowShortcuts(window)
     })
 
-    // Register all IPC handlers
+    // Register all IPC handlers (settings first, other handlers may read them)
+    registerSettingsHandlers(ipcMain)
     registerCameraHandlers(ipcMain)
     registerPrinterHandlers(ipcMain)
     registerSystemHandlers(ipcMain)
     registerImageHandlers(ipcMain)
     registerEmailHandlers(ipcMain)
     registerDriveHandlers(ipcMain)
+    registerSessionHandlers(ipcMain)
+    registerSyncHandlers(ipcMain)
+    registerPaymentHandlers(ipcMain)
+    registerVoucherHandlers(ipcMain)
 
     // Launch background sharing web server (port 5050)
     import('./server').then(({ startLocalServer }) => {
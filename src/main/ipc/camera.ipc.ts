@@ -1,22 +1,60 @@
-import { IpcMain, app } from 'electron'
+import { IpcMain, BrowserWindow, app } from 'electron'
 import { join } from 'path'
 import { v4 as uuidv4 } from 'uuid'
-import { CameraHandler } from '../handlers/CameraHandler'
+import { CameraHandler, LiveViewFrameCallback } from '../handlers/CameraHandler'
 import { DigiCamControlCamera } from '../handlers/DigiCamControlCamera'
+import { GPhoto2Camera } from '../handlers/GPhoto2Camera'
 import { MockCamera } from '../handlers/MockCamera'
-import { CameraDevice, CaptureResult, APIResponse } from '@shared/types'
+import { CameraWatchdog } from '../services/CameraWatchdog'
+import {
+    CameraDevice,
+    CaptureResult,
+    CameraSettings,
+    CameraSettingOptions,
+    CameraStatusEvent,
+    CameraWatchdogOptions,
+    APIResponse
+} from '@shared/types'
 
-// Use DigiCamControl in production, Mock in development
+// Use the platform's real driver in production, Mock in development
 const isDev = process.env.NODE_ENV === 'development' || !app.isPackaged
 
+/**
+ * Create the real camera driver for this platform
+ * digiCamControl on Windows, gPhoto2 on Linux/macOS
+ */
+function createRealCamera(): CameraHandler {
+    return process.platform === 'win32'
+        ? new DigiCamControlCamera()
+        : new GPhoto2Camera()
+}
+
 let cameraHandler: CameraHandler = isDev
     ? new MockCamera()
-    : new DigiCamControlCamera()
+    : createRealCamera()
+
+// Frame forwarder for the renderer currently watching live view
+let liveViewCallback: LiveViewFrameCallback | null = null
+
+// Reconnects dropped cameras and pushes status changes to every window
+const watchdog = new CameraWatchdog(
+    () => cameraHandler,
+    (event: CameraStatusEvent) => {
+        BrowserWindow.getAllWindows().forEach(window => {
+            if (!window.isDestroyed()) {
+                window.webContents.send('camera:status-changed', event)
+            }
+        })
+    }
+)
 
 /**
  * Switch camera handler implementation
  */
 export function setCameraHandler(handler: CameraHandler): void {
+    cameraHandler.stopLiveView().catch(err => console.error('Failed to stop live view:', err))
+    liveViewCallback = null
+    watchdog.track(null)
     cameraHandler = handler
 }
 
@@ -27,10 +65,32 @@ function getTempPath(): string {
     return join(app.getPath('userData'), 'temp')
 }
 
+/**
+ * Most bodies can't shoot while streaming, so pause live view around a capture
+ * and resume it for the same viewer afterwards
+ */
+async function withLiveViewPaused<T>(capture: () => Promise<T>): Promise<T> {
+    const resumeLiveView = cameraHandler.isLiveViewActive() ? liveViewCallback : null
+    if (resumeLiveView) {
+        await cameraHandler.stopLiveView()
+    }
+
+    try {
+        return await capture()
+    } finally {
+        if (resumeLiveView && liveViewCallback === resumeLiveView) {
+            await cameraHandler.startLiveView(resumeLiveView).catch(err =>
+                console.error('Failed to resume live view:', err)
+            )
+        }
+    }
+}
+
 /**
  * Register all camera-related IPC handlers
  */
 export function registerCameraHandlers(ipcMain: IpcMain): void {
+    watchdog.start()
 
     // List available cameras
     ipcMain.handle('camera:list', async (): Promise<APIResponse<CameraDevice[]>> => {
@@ -43,10 +103,20 @@ export function registerCameraHandlers(ipcMain: IpcMain): void {
         }
     })
 
-    // Connect to a camera
-    ipcMain.handle('camera:connect', async (_, cameraId: string): Promise<APIResponse<boolean>> => {
+    // Connect to a camera, optionally applying a settings preset
+    ipcMain.handle('camera:connect', async (_, cameraId: string, settings?: CameraSettings): Promise<APIResponse<boolean>> => {
         try {
             const result = await cameraHandler.connect(cameraId)
+            if (result && settings) {
+                const failed = await cameraHandler.setSettings(settings)
+                if (failed.length > 0) {
+                    // Stay connected - the camera still works with its current settings
+                    console.warn(`Camera connected but could not apply: ${failed.join(', ')}`)
+                }
+            }
+            if (result) {
+                watchdog.track(cameraHandler.getCurrentCamera(), settings)
+            }
             return { success: true, data: result }
         } catch (error) {
             const err = error as Error
@@ -57,6 +127,7 @@ export function registerCameraHandlers(ipcMain: IpcMain): void {
     // Disconnect from current camera
     ipcMain.handle('camera:disconnect', async (): Promise<APIResponse<void>> => {
         try {
+            watchdog.track(null)
             await cameraHandler.disconnect()
             return { success: true }
         } catch (error) {
@@ -71,7 +142,7 @@ export function registerCameraHandlers(ipcMain: IpcMain): void {
             const filename = `capture_${slotId || uuidv4()}_${Date.now()}.jpg`
             const outputPath = join(getTempPath(), filename)
 
-            const result = await cameraHandler.capture(outputPath)
+            const result = await withLiveViewPaused(() => watchdog.capture(outputPath))
             return { success: result.success, data: result, error: result.error }
         } catch (error) {
             const err = error as Error
@@ -79,6 +150,128 @@ export function registerCameraHandlers(ipcMain: IpcMain): void {
         }
     })
 
+    // Capture a rapid burst of photos from a single trigger
+    ipcMain.handle('camera:capture-burst', async (_, count: number, intervalMs: number): Promise<APIResponse<CaptureResult[]>> => {
+        try {
+            if (!Number.isInteger(count) || count < 1) {
+                return { success: false, error: 'Burst count must be a positive integer' }
+            }
+
+            const burstId = uuidv4()
+            const outputPaths = Array.from({ length: count }, (_, index) =>
+                join(getTempPath(), `burst_${burstId}_${index}.jpg`)
+            )
+
+            // Live view stays paused for the whole burst rather than toggling between frames
+            const results = await withLiveViewPaused(() =>
+                watchdog.captureBurst(outputPaths, Math.max(0, intervalMs || 0))
+            )
+            const captured = results.filter(result => result.success)
+            if (captured.length === 0) {
+                return { success: false, error: results[0]?.error || 'Burst capture failed' }
+            }
+            return { success: true, data: captured }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Update camera health monitoring options
+    ipcMain.handle('camera:configure-watchdog', async (_, options: Partial<CameraWatchdogOptions>): Promise<APIResponse<CameraStatusEvent>> => {
+        try {
+            watchdog.configure(options)
+            return { success: true, data: watchdog.getStatus() }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Read current exposure/colour settings
+    ipcMain.handle('camera:get-settings', async (): Promise<APIResponse<CameraSettings>> => {
+        try {
+            if (!cameraHandler.isConnected()) {
+                return { success: false, error: 'Camera not connected' }
+            }
+            const settings = await cameraHandler.getSettings()
+            return { success: true, data: settings }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Apply exposure/colour settings
+    ipcMain.handle('camera:set-settings', async (_, settings: CameraSettings): Promise<APIResponse<void>> => {
+        try {
+            if (!cameraHandler.isConnected()) {
+                return { success: false, error: 'Camera not connected' }
+            }
+            const failed = await cameraHandler.setSettings(settings)
+            if (failed.length > 0) {
+                return { success: false, error: `Failed to set ${failed.join(', ')}` }
+            }
+            return { success: true }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // List values the camera accepts for each setting
+    ipcMain.handle('camera:list-setting-options', async (): Promise<APIResponse<CameraSettingOptions>> => {
+        try {
+            if (!cameraHandler.isConnected()) {
+                return { success: false, error: 'Camera not connected' }
+            }
+            const options = await cameraHandler.listSettingOptions()
+            return { success: true, data: options }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Start streaming live view frames to the requesting window
+    ipcMain.handle('camera:start-live-view', async (event): Promise<APIResponse<void>> => {
+        try {
+            const sender = event.sender
+            const callback: LiveViewFrameCallback = (frame) => {
+                if (!sender.isDestroyed()) {
+                    sender.send('camera:live-view-frame', frame)
+                }
+            }
+
+            liveViewCallback = callback
+            sender.once('destroyed', () => {
+                if (liveViewCallback === callback) {
+                    liveViewCallback = null
+                    cameraHandler.stopLiveView().catch(err => console.error('Failed to stop live view:', err))
+                }
+            })
+
+            await cameraHandler.startLiveView(callback)
+            return { success: true }
+        } catch (error) {
+            liveViewCallback = null
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Stop streaming live view frames
+    ipcMain.handle('camera:stop-live-view', async (): Promise<APIResponse<void>> => {
+        try {
+            liveViewCallback = null
+            await cameraHandler.stopLiveView()
+            return { success: true }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
     // Get camera connection status
     ipcMain.handle('camera:status', async (): Promise<APIResponse<{ connected: boolean; camera: CameraDevice | null }>> => {
         return {
@@ -92,13 +285,13 @@ export function registerCameraHandlers(ipcMain: IpcMain): void {
 
     // Switch to mock camera (for development/testing)
     ipcMain.handle('camera:use-mock', async (): Promise<APIResponse<void>> => {
-        cameraHandler = new MockCamera()
+        setCameraHandler(new MockCamera())
         return { success: true }
     })
 
     // Switch to real camera
     ipcMain.handle('camera:use-real', async (): Promise<APIResponse<void>> => {
-        cameraHandler = new DigiCamControlCamera()
+        setCameraHandler(createRealCamera())
         return { success: true }
     })
 }
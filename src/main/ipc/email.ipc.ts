@@ -3,12 +3,25 @@ import nodemailer from 'nodemailer'
 import { join } from 'path'
 import { existsSync, readdirSync } from 'fs'
 import { config } from 'dotenv'
+import { settingsStore } from '../services/SettingsStore'
+import { secretStore, GMAIL_APP_PASSWORD } from '../services/SecretStore'
+import { APIResponse, EmailCredentialsStatus } from '@shared/types'
 
-// Load environment variables
+// .env still works for booths set up before the Admin Panel had these settings
 config()
 
-const GMAIL_USER = process.env.GMAIL_USER || ''
-const GMAIL_APP_PASSWORD = process.env.GMAIL_APP_PASSWORD || ''
+const ENV_PLACEHOLDER_PASSWORD = 'YOUR_GMAIL_APP_PASSWORD_HERE'
+
+/**
+ * Gmail account from the Admin Panel, falling back to .env
+ */
+function gmailCredentials(): { user: string; password: string } {
+    const envPassword = process.env.GMAIL_APP_PASSWORD === ENV_PLACEHOLDER_PASSWORD ? '' : process.env.GMAIL_APP_PASSWORD
+    return {
+        user: settingsStore.getAppConfig().gmailUser || process.env.GMAIL_USER || '',
+        password: secretStore.get(GMAIL_APP_PASSWORD) || envPassword || ''
+    }
+}
 
 interface SendEmailParams {
     to: string
@@ -20,10 +33,11 @@ interface SendEmailParams {
 
 export function registerEmailHandlers(ipcMain: IpcMain): void {
     ipcMain.handle('email:send', async (_event, params: SendEmailParams) => {
-        if (!GMAIL_USER || !GMAIL_APP_PASSWORD || GMAIL_APP_PASSWORD === 'YOUR_GMAIL_APP_PASSWORD_HERE') {
+        const gmail = gmailCredentials()
+        if (!gmail.user || !gmail.password) {
             return {
                 success: false,
-                error: 'Gmail not configured. Please set GMAIL_USER and GMAIL_APP_PASSWORD in .env'
+                error: 'Gmail not configured. Set the Gmail address and app password in the Admin Panel'
             }
         }
 
@@ -32,8 +46,8 @@ export function registerEmailHandlers(ipcMain: IpcMain): void {
             const transporter = nodemailer.createTransport({
                 service: 'gmail',
                 auth: {
-                    user: GMAIL_USER,
-                    pass: GMAIL_APP_PASSWORD
+                    user: gmail.user,
+                    pass: gmail.password
                 }
             })
 
@@ -129,7 +143,7 @@ export function registerEmailHandlers(ipcMain: IpcMain): void {
 
             // Send email
             const info = await transporter.sendMail({
-                from: `"Sebooth Photos" <${GMAIL_USER}>`,
+                from: `"Sebooth Photos" <${gmail.user}>`,
                 to: params.to,
                 subject: '📸 Your Sebooth Photos Are Ready!',
                 html: htmlContent,
@@ -147,6 +161,27 @@ export function registerEmailHandlers(ipcMain: IpcMain): void {
 
     // Check if email is configured
     ipcMain.handle('email:is-configured', () => {
-        return Boolean(GMAIL_USER && GMAIL_APP_PASSWORD && GMAIL_APP_PASSWORD !== 'YOUR_GMAIL_APP_PASSWORD_HERE')
+        const gmail = gmailCredentials()
+        return Boolean(gmail.user && gmail.password)
+    })
+
+    // Save the Gmail app password (empty clears it); like other secrets it's never sent back
+    ipcMain.handle('email:set-app-password', async (_, password: string): Promise<APIResponse<EmailCredentialsStatus>> => {
+        try {
+            secretStore.set(GMAIL_APP_PASSWORD, password.trim() || null)
+            return { success: true, data: { gmailAppPassword: secretStore.has(GMAIL_APP_PASSWORD) } }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    ipcMain.handle('email:credentials', async (): Promise<APIResponse<EmailCredentialsStatus>> => {
+        try {
+            return { success: true, data: { gmailAppPassword: secretStore.has(GMAIL_APP_PASSWORD) } }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
     })
 }
@@ -1,8 +1,27 @@
-import { IpcMain } from 'electron'
+import { IpcMain, app } from 'electron'
+import { join } from 'path'
+import { createHash } from 'crypto'
 import { ImageProcessor } from '../services/ImageProcessor'
-import { PhotoSlot, APIResponse } from '@shared/types'
+import { PrintLayout } from '../services/PrintLayout'
+import { VideoProcessor } from '../services/VideoProcessor'
+import { resolveMediaInput, toFilePath } from '../utils/media'
+import { getPaperProfile } from '@shared/paperProfiles'
+import {
+    PhotoSlot,
+    PhotoCrop,
+    APIResponse,
+    GifOptions,
+    PrintLayoutOptions,
+    PrintLayoutResult,
+    BoomerangOptions,
+    BoomerangResult,
+    RenderSessionOptions,
+    SessionRenderResult
+} from '@shared/types'
 
 const imageProcessor = new ImageProcessor()
+const printLayout = new PrintLayout()
+const videoProcessor = new VideoProcessor(imageProcessor)
 
 /**
  * Register all image processing IPC handlers
@@ -11,7 +30,7 @@ export function registerImageHandlers(ipcMain: IpcMain): void {
 
     // Composite photos with frame overlay
     ipcMain.handle('image:composite', async (_, options: {
-        photos: { path: string; slot: PhotoSlot }[]
+        photos: { path: string; slot: PhotoSlot; crop?: PhotoCrop }[]
         framePath: string
         outputPath: string
         canvasWidth: number
@@ -32,6 +51,27 @@ export function registerImageHandlers(ipcMain: IpcMain): void {
         }
     })
 
+    // Render a session's strip, slot crops and thumbnails at full resolution
+    ipcMain.handle('image:render-session', async (_, options: RenderSessionOptions): Promise<APIResponse<SessionRenderResult>> => {
+        try {
+            const { session, frame } = options
+            const result = await imageProcessor.renderSession(
+                session.photos.map(photo => ({
+                    slotId: photo.slotId,
+                    input: resolveMediaInput(photo.imagePath),
+                    crop: photo.crop
+                })),
+                frame,
+                options.outputDir || join(app.getPath('userData'), 'temp', `session_${session.id}`),
+                { filter: options.filter, thumbnailWidth: options.thumbnailWidth, textValues: options.textValues }
+            )
+            return { success: true, data: result }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
     // Resize image
     ipcMain.handle('image:resize', async (_, options: {
         inputPath: string
@@ -80,21 +120,88 @@ export function registerImageHandlers(ipcMain: IpcMain): void {
         }
     })
 
-    // Generate GIF from multiple images
-    ipcMain.handle('image:generate-gif', async (_, options: {
+    // Apply a .cube LUT to a photo (data URL, file URL or path)
+    ipcMain.handle('image:apply-lut', async (_, options: {
+        inputPath: string
+        cubePath: string
+        outputPath?: string
+        interpolation?: 'trilinear' | 'tetrahedral'
+    }): Promise<APIResponse<string>> => {
+        try {
+            // One graded copy per photo and LUT, so re-applying overwrites it instead of piling up temp files
+            const outputPath = options.outputPath ||
+                join(app.getPath('userData'), 'temp', `lut_${createHash('sha1').update(`${options.inputPath}|${options.cubePath}`).digest('hex').slice(0, 16)}.jpg`)
+
+            const result = await imageProcessor.applyLut(
+                resolveMediaInput(options.inputPath),
+                outputPath,
+                options.cubePath,
+                options.interpolation
+            )
+            return { success: true, data: result }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Lay a finished strip/photo out on its paper profile's sheet for printing
+    ipcMain.handle('image:render-print-layout', async (_, options: PrintLayoutOptions): Promise<APIResponse<PrintLayoutResult>> => {
+        try {
+            const profile = getPaperProfile(options.paperProfileId)
+            if (!profile) {
+                throw new Error(`Unknown paper profile: ${options.paperProfileId}`)
+            }
+
+            const extension = options.format === 'pdf' ? 'pdf' : 'jpg'
+            const outputPath = options.outputPath ||
+                join(app.getPath('userData'), 'temp', `print_${Date.now()}.${extension}`)
+
+            const result = await printLayout.render(
+                resolveMediaInput(options.inputPath),
+                outputPath,
+                profile,
+                {
+                    format: options.format,
+                    rotation: options.rotation,
+                    cropMarks: options.cropMarks
+                }
+            )
+            return { success: true, data: result }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Generate an animated GIF from multiple images (data URLs, file URLs or paths)
+    ipcMain.handle('image:generate-gif', async (_, options: GifOptions & {
         imagePaths: string[]
-        outputPath: string
-        delay?: number
-        width?: number
-        height?: number
+        outputPath?: string
     }): Promise<APIResponse<string>> => {
         try {
+            const { imagePaths, outputPath, ...gifOptions } = options
             const result = await imageProcessor.generateGif(
-                options.imagePaths,
-                options.outputPath,
-                options.delay,
-                options.width,
-                options.height
+                imagePaths.map(resolveMediaInput),
+                outputPath || join(app.getPath('userData'), 'temp', `gif_${Date.now()}.gif`),
+                gifOptions
+            )
+            return { success: true, data: result }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Build a forward-then-reverse boomerang (MP4 + GIF) from a clip or a burst of stills
+    ipcMain.handle('image:generate-boomerang', async (_, options: BoomerangOptions): Promise<APIResponse<BoomerangResult>> => {
+        try {
+            const { videoPath, imagePaths, outputDir, ...boomerangOptions } = options
+            const source = videoPath ? toFilePath(videoPath) : (imagePaths || []).map(resolveMediaInput)
+            const result = await videoProcessor.generateBoomerang(
+                source,
+                outputDir || join(app.getPath('userData'), 'temp'),
+                boomerangOptions
             )
             return { success: true, data: result }
         } catch (error) {
@@ -0,0 +1,258 @@
+import { IpcMain, BrowserWindow, app } from 'electron'
+import { PaymentProvider } from '../handlers/PaymentProvider'
+import { MidtransProvider } from '../handlers/MidtransProvider'
+import { MockPaymentProvider } from '../handlers/MockPaymentProvider'
+import { settingsStore } from '../services/SettingsStore'
+import { orderStore } from '../services/OrderStore'
+import { secretStore, MIDTRANS_SERVER_KEY, ADMIN_OVERRIDE_PIN } from '../services/SecretStore'
+import { cashRegister } from '../services/CashRegister'
+import { voucherStore } from '../services/VoucherStore'
+import { hashPin, verifyPin, PinAttemptLimiter } from '../utils/pin'
+import { priceSelection } from '@shared/pricing'
+import {
+    APIResponse, PaymentCharge, PaymentCredentialsStatus, PaymentOrder, PaymentOrderRequest, PaymentStatus, VoucherRedemption
+} from '@shared/types'
+
+let provider: PaymentProvider | null = null
+let providerSignature = ''
+
+// Charges keep talking to the provider that created them, even if the admin switches provider mid-payment
+const chargeProviders = new Map<string, PaymentProvider>()
+
+/**
+ * Provider for the current admin config, recreated when the payment settings change
+ */
+function getProvider(): PaymentProvider {
+    const config = settingsStore.getAppConfig()
+    const providerId = config.paymentProvider || 'midtrans'
+    const serverKey = secretStore.get(MIDTRANS_SERVER_KEY) || ''
+    const environment = config.midtransEnvironment || 'sandbox'
+    const outcome = config.mockPaymentOutcome || 'settlement'
+
+    const signature = JSON.stringify([providerId, serverKey, environment, outcome])
+    if (!provider || signature !== providerSignature) {
+        provider = providerId === 'mock'
+            ? new MockPaymentProvider(outcome)
+            : new MidtransProvider(serverKey, environment)
+        providerSignature = signature
+        console.log(`Payment provider: ${providerId}${providerId === 'midtrans' ? ` (${environment})` : ''}`)
+    }
+    return provider
+}
+
+function providerFor(orderId: string): PaymentProvider {
+    return chargeProviders.get(orderId) || getProvider()
+}
+
+function isCashOrder(orderId: string): boolean {
+    return orderStore.get(orderId)?.provider === 'cash'
+}
+
+// Guesses at the extra-print PIN, which is only entered at the booth
+const overridePinAttempts = new PinAttemptLimiter()
+
+// Which payment secrets are set, never the secrets themselves
+function credentialsStatus(): PaymentCredentialsStatus {
+    return {
+        midtransServerKey: secretStore.has(MIDTRANS_SERVER_KEY),
+        cashOperatorPins: cashRegister.operatorIdsWithPin(),
+        adminOverridePin: secretStore.has(ADMIN_OVERRIDE_PIN)
+    }
+}
+
+// Orders that end in these never get paid, so their voucher use goes back
+const UNPAID_STATUSES: PaymentStatus[] = ['cancelled', 'expired', 'failed']
+
+/**
+ * Price a payment-screen order and take its voucher use up front, so the
+ * code can't be spent twice while the guest pays. The use is handed back if
+ * the order can't be created, or later when it ends unpaid.
+ */
+async function openOrder(
+    request: PaymentOrderRequest,
+    create: (amount: number, voucher?: VoucherRedemption) => Promise<PaymentOrder>
+): Promise<PaymentOrder> {
+    const { subtotal } = priceSelection(settingsStore.getPricing(), request)
+    const voucher = request.voucherCode ? voucherStore.redeem(request.voucherCode, subtotal) : undefined
+
+    try {
+        const amount = subtotal - (voucher?.discount ?? 0)
+        if (amount <= 0) {
+            throw new Error('Nothing to pay for this order')
+        }
+        return await create(amount, voucher)
+    } catch (error) {
+        if (voucher) voucherStore.release(voucher.code)
+        throw error
+    }
+}
+
+/**
+ * Register payment IPC handlers
+ */
+export function registerPaymentHandlers(ipcMain: IpcMain): void {
+    orderStore.load(app.getPath('userData'))
+    app.on('will-quit', () => orderStore.flush())
+
+    // Push every status change (webhook, polling or booth action) to all windows
+    orderStore.subscribe(order => {
+        BrowserWindow.getAllWindows().forEach(window => {
+            if (!window.isDestroyed()) {
+                window.webContents.send('payment:updated', order)
+            }
+        })
+    })
+
+    orderStore.subscribe(order => {
+        if (order.voucher && UNPAID_STATUSES.includes(order.status)) {
+            voucherStore.release(order.voucher.code)
+        }
+    })
+
+    // Create a QRIS charge for the session price
+    ipcMain.handle('payment:create-charge', async (_, request: PaymentOrderRequest): Promise<APIResponse<PaymentOrder>> => {
+        try {
+            const current = getProvider()
+            if (current.id === 'midtrans' && !secretStore.has(MIDTRANS_SERVER_KEY)) {
+                throw new Error('Midtrans Server Key belum dikonfigurasi di Admin Panel')
+            }
+            const order = await openOrder(request, async (amount, voucher) => {
+                const charge = await current.createCharge({ amount })
+                chargeProviders.set(charge.orderId, current)
+                return orderStore.record(charge, voucher)
+            })
+            return { success: true, data: order }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Save the Midtrans server key (empty clears it); it's never sent back to a renderer
+    ipcMain.handle('payment:set-server-key', async (_, serverKey: string): Promise<APIResponse<PaymentCredentialsStatus>> => {
+        try {
+            secretStore.set(MIDTRANS_SERVER_KEY, serverKey.trim() || null)
+            return { success: true, data: credentialsStatus() }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Set or clear an operator's cash PIN; like the server key, it's never sent back
+    ipcMain.handle('payment:set-operator-pin', async (_, operatorId: string, pin: string): Promise<APIResponse<PaymentCredentialsStatus>> => {
+        try {
+            cashRegister.setPin(operatorId, pin)
+            return { success: true, data: credentialsStatus() }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Set or clear (empty PIN) the staff PIN for prints beyond the paid allowance
+    ipcMain.handle('payment:set-override-pin', async (_, pin: string): Promise<APIResponse<PaymentCredentialsStatus>> => {
+        try {
+            secretStore.set(ADMIN_OVERRIDE_PIN, pin.trim() ? hashPin(pin.trim()) : null)
+            return { success: true, data: credentialsStatus() }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Check the extra-print PIN; the hash never leaves main
+    ipcMain.handle('payment:verify-override-pin', async (_, pin: string): Promise<APIResponse<boolean>> => {
+        try {
+            overridePinAttempts.check('booth')
+            const hash = secretStore.get(ADMIN_OVERRIDE_PIN)
+            const valid = !!hash && verifyPin(pin.trim(), hash)
+            if (valid) {
+                overridePinAttempts.succeed('booth')
+            } else {
+                overridePinAttempts.fail('booth')
+            }
+            return { success: true, data: valid }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Which payment secrets are set, for the admin panel
+    ipcMain.handle('payment:credentials', async (): Promise<APIResponse<PaymentCredentialsStatus>> => {
+        try {
+            return { success: true, data: credentialsStatus() }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Start a cash order for the operator to confirm
+    ipcMain.handle('payment:create-cash', async (_, request: PaymentOrderRequest): Promise<APIResponse<PaymentOrder>> => {
+        try {
+            const order = await openOrder(request, async (amount, voucher) => cashRegister.open({ amount }, voucher))
+            return { success: true, data: order }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Operator confirms they took the cash (the same check runs for the phone page on the local server)
+    ipcMain.handle('payment:confirm-cash', async (_, orderId: string, pin: string): Promise<APIResponse<PaymentCharge>> => {
+        try {
+            return { success: true, data: cashRegister.confirm(orderId, pin, 'booth') }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Current state of a charge; a fallback for when the webhook can't reach the booth
+    ipcMain.handle('payment:status', async (_, orderId: string): Promise<APIResponse<PaymentCharge>> => {
+        try {
+            // Finished orders (e.g. settled by the webhook) don't need another provider call,
+            // and cash orders only change when an operator confirms them
+            const known = orderStore.get(orderId)
+            if (known && (known.status !== 'pending' || known.provider === 'cash')) {
+                return { success: true, data: known }
+            }
+
+            const charge = await providerFor(orderId).getStatus(orderId)
+            return { success: true, data: orderStore.update(charge, 'poll') || charge }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Cancel an unpaid charge when the guest leaves the payment screen
+    ipcMain.handle('payment:cancel', async (_, orderId: string): Promise<APIResponse<PaymentCharge>> => {
+        try {
+            if (isCashOrder(orderId)) {
+                return { success: true, data: cashRegister.cancel(orderId) }
+            }
+            const charge = await providerFor(orderId).cancel(orderId)
+            return { success: true, data: orderStore.update(charge, 'booth') || charge }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Refund a settled charge, in full when no amount is given
+    ipcMain.handle('payment:refund', async (_, orderId: string, amount?: number, reason?: string): Promise<APIResponse<PaymentCharge>> => {
+        try {
+            if (isCashOrder(orderId)) {
+                return { success: true, data: cashRegister.refund(orderId) }
+            }
+            const charge = await providerFor(orderId).refund(orderId, amount, reason)
+            return { success: true, data: orderStore.update(charge, 'booth') || charge }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+}
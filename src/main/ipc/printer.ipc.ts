@@ -1,11 +1,28 @@
-import { IpcMain } from 'electron'
+import { IpcMain, BrowserWindow, app } from 'electron'
 import { printerHandler } from '../handlers/PrinterHandler'
-import { PrinterDevice, PrintResult, APIResponse } from '@shared/types'
+import { PrintQueue } from '../services/PrintQueue'
+import { PrintOptions } from '../handlers/PrinterBackend'
+import {
+    PrinterDevice,
+    PrintResult,
+    PrinterStatus,
+    PrintJob,
+    PrintJobRequest,
+    APIResponse
+} from '@shared/types'
 
 /**
  * Register all printer-related IPC handlers
  */
 export function registerPrinterHandlers(ipcMain: IpcMain): void {
+    // Persistent queue, pushes every job change to all windows
+    const printQueue = new PrintQueue(app.getPath('userData'), printerHandler, (job) => {
+        BrowserWindow.getAllWindows().forEach(window => {
+            if (!window.isDestroyed()) {
+                window.webContents.send('printer:job-updated', job)
+            }
+        })
+    })
 
     // List available printers
     ipcMain.handle('printer:list', async (): Promise<APIResponse<PrinterDevice[]>> => {
@@ -44,7 +61,7 @@ export function registerPrinterHandlers(ipcMain: IpcMain): void {
     ipcMain.handle('printer:print-with-options', async (
         _,
         filePath: string,
-        options: { printer?: string; copies?: number; scale?: 'fit' | 'noscale' }
+        options: PrintOptions
     ): Promise<APIResponse<PrintResult>> => {
         try {
             const result = await printerHandler.printWithOptions(filePath, options)
@@ -54,4 +71,58 @@ export function registerPrinterHandlers(ipcMain: IpcMain): void {
             return { success: false, error: err.message }
         }
     })
+
+    // Get a printer (default if unnamed) and its pending spooler jobs
+    ipcMain.handle('printer:status', async (_, printerName?: string): Promise<APIResponse<PrinterStatus>> => {
+        try {
+            const status = await printerHandler.getStatus(printerName)
+            return { success: true, data: status }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Add a job to the print queue
+    ipcMain.handle('printer:enqueue', async (_, request: PrintJobRequest): Promise<APIResponse<PrintJob>> => {
+        try {
+            const job = printQueue.enqueue(request)
+            return { success: true, data: job }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // List print jobs, newest first
+    ipcMain.handle('printer:jobs', async (_, sessionId?: string): Promise<APIResponse<PrintJob[]>> => {
+        try {
+            return { success: true, data: printQueue.list(sessionId) }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Requeue a failed or cancelled job
+    ipcMain.handle('printer:retry', async (_, jobId: string): Promise<APIResponse<PrintJob>> => {
+        try {
+            const job = printQueue.retry(jobId)
+            return { success: true, data: job }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Cancel a job that hasn't started printing
+    ipcMain.handle('printer:cancel', async (_, jobId: string): Promise<APIResponse<PrintJob>> => {
+        try {
+            const job = printQueue.cancel(jobId)
+            return { success: true, data: job }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
 }
@@ -0,0 +1,32 @@
+import { IpcMain, app } from 'electron'
+import { join } from 'path'
+import { sessionIndex } from '../services/SessionIndex'
+import { APIResponse, SessionRecord, SessionRecordUpdate, SessionSearchQuery, SessionSearchResult } from '@shared/types'
+
+/**
+ * Register session history IPC handlers (local session index)
+ */
+export function registerSessionHandlers(ipcMain: IpcMain): void {
+    sessionIndex.load(app.getPath('userData'), join(app.getPath('documents'), 'Sebooth', 'Sessions'))
+    app.on('will-quit', () => sessionIndex.flush())
+
+    // Paginated search over every session saved on this booth
+    ipcMain.handle('sessions:search', async (_, query?: SessionSearchQuery): Promise<APIResponse<SessionSearchResult>> => {
+        try {
+            return { success: true, data: sessionIndex.search(query) }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Record details that arrive after the files are saved (email, prints, gallery link)
+    ipcMain.handle('sessions:update', async (_, sessionId: string, details: SessionRecordUpdate): Promise<APIResponse<SessionRecord>> => {
+        try {
+            return { success: true, data: sessionIndex.update(sessionId, details) }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+}
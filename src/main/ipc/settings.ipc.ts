@@ -0,0 +1,123 @@
+import { IpcMain, BrowserWindow, WebContents, app, dialog } from 'electron'
+import { join } from 'path'
+import { settingsStore } from '../services/SettingsStore'
+import { secretStore } from '../services/SecretStore'
+import { BoothBackup, BACKUP_EXTENSION } from '../services/BoothBackup'
+import { APIResponse, BoothBackupPreview, SettingsChangeEvent } from '@shared/types'
+
+/**
+ * Register settings IPC handlers (persisted renderer stores live in the main process)
+ */
+export function registerSettingsHandlers(ipcMain: IpcMain): void {
+    // Secrets first: settings migrations move credentials into it
+    secretStore.load(app.getPath('userData'))
+    settingsStore.load(app.getPath('userData'))
+    app.on('will-quit', () => settingsStore.flush())
+
+    const boothBackup = new BoothBackup(join(app.getPath('userData'), 'booth-assets'), settingsStore)
+
+    // The window whose write is being applied, so it doesn't get its own change back
+    let writer: WebContents | null = null
+
+    // Push every change to the other windows so their stores can rehydrate
+    settingsStore.subscribe((key, value) => {
+        const event: SettingsChangeEvent = { key, value }
+        BrowserWindow.getAllWindows().forEach(window => {
+            if (!window.isDestroyed() && window.webContents !== writer) {
+                window.webContents.send('settings:changed', event)
+            }
+        })
+    })
+
+    // Read a persisted store (null when it has never been saved)
+    ipcMain.handle('settings:get', async (_, key: string): Promise<APIResponse<unknown>> => {
+        try {
+            return { success: true, data: settingsStore.get(key) }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Save a persisted store; fromVersion is set when importing old localStorage data
+    ipcMain.handle('settings:set', async (event, key: string, value: unknown, fromVersion?: number): Promise<APIResponse<unknown>> => {
+        try {
+            writer = event.sender
+            return { success: true, data: settingsStore.set(key, value, fromVersion) }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        } finally {
+            writer = null
+        }
+    })
+
+    ipcMain.handle('settings:remove', async (event, key: string): Promise<APIResponse<void>> => {
+        try {
+            writer = event.sender
+            settingsStore.remove(key)
+            return { success: true }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        } finally {
+            writer = null
+        }
+    })
+
+    // Export settings, frames and filters (with their files) to one backup archive
+    ipcMain.handle('settings:export-backup', async (): Promise<APIResponse<string | null>> => {
+        try {
+            const stamp = new Date().toISOString().slice(0, 10)
+            const result = await dialog.showSaveDialog({
+                title: 'Export Booth Configuration',
+                defaultPath: join(app.getPath('documents'), `sebooth-booth-${stamp}.${BACKUP_EXTENSION}`),
+                filters: [{ name: 'Sebooth Booth Backup', extensions: [BACKUP_EXTENSION] }]
+            })
+
+            if (result.canceled || !result.filePath) {
+                return { success: true, data: null }
+            }
+
+            boothBackup.exportBackup(result.filePath, app.getVersion())
+            return { success: true, data: result.filePath }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Pick and validate a backup, describing what importing it would overwrite
+    ipcMain.handle('settings:preview-backup', async (_, backupPath?: string): Promise<APIResponse<BoothBackupPreview | null>> => {
+        try {
+            if (!backupPath) {
+                const result = await dialog.showOpenDialog({
+                    title: 'Import Booth Configuration',
+                    filters: [{ name: 'Sebooth Booth Backup', extensions: [BACKUP_EXTENSION] }],
+                    properties: ['openFile']
+                })
+
+                if (result.canceled || result.filePaths.length === 0) {
+                    return { success: true, data: null }
+                }
+                backupPath = result.filePaths[0]
+            }
+
+            return { success: true, data: boothBackup.previewBackup(backupPath) }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Replace this booth's configuration; every window reloads it via settings:changed
+    ipcMain.handle('settings:import-backup', async (_, backupPath: string): Promise<APIResponse<void>> => {
+        try {
+            boothBackup.importBackup(backupPath)
+            return { success: true }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+}
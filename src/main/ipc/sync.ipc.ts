@@ -0,0 +1,67 @@
+import { IpcMain, BrowserWindow, app, net } from 'electron'
+import { config } from 'dotenv'
+import { SyncOutbox } from '../services/SyncOutbox'
+import { SupabaseUploader } from '../services/SupabaseUploader'
+import { sessionIndex } from '../services/SessionIndex'
+import { createDriveUploader } from './drive.ipc'
+import { APIResponse, SyncJob, SyncRequest, SyncStatus } from '@shared/types'
+
+// Load environment variables (same Supabase project as the renderer)
+config()
+
+const SUPABASE_URL = process.env.VITE_SUPABASE_URL || ''
+const SUPABASE_ANON_KEY = process.env.VITE_SUPABASE_ANON_KEY || ''
+
+/**
+ * Register cloud sync IPC handlers (background upload outbox)
+ */
+export function registerSyncHandlers(ipcMain: IpcMain): void {
+    // Persistent outbox, pushes every job change to all windows
+    const syncOutbox = new SyncOutbox(
+        app.getPath('userData'),
+        createDriveUploader(),
+        new SupabaseUploader(SUPABASE_URL, SUPABASE_ANON_KEY),
+        () => net.isOnline(),
+        (job) => {
+            // Finished uploads replace the local gallery link in the session history
+            if (job.status === 'completed' && job.galleryUrl) {
+                sessionIndex.update(job.sessionId, { galleryUrl: job.galleryUrl })
+            }
+            BrowserWindow.getAllWindows().forEach(window => {
+                if (!window.isDestroyed()) {
+                    window.webContents.send('sync:job-updated', job)
+                }
+            })
+        }
+    )
+
+    // Connectivity and every upload in the outbox
+    ipcMain.handle('sync:status', async (): Promise<APIResponse<SyncStatus>> => {
+        try {
+            return { success: true, data: syncOutbox.status() }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Retry one upload now, or all pending and failed uploads when no id is given
+    ipcMain.handle('sync:retry', async (_, jobId?: string): Promise<APIResponse<SyncJob[]>> => {
+        try {
+            return { success: true, data: syncOutbox.retry(jobId) }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Queue a saved session and wait for its first upload attempt
+    ipcMain.handle('sync:upload-session', async (_, request: SyncRequest): Promise<APIResponse<SyncJob>> => {
+        try {
+            return { success: true, data: await syncOutbox.upload(request) }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+}
@@ -1,17 +1,37 @@
 import { IpcMain, dialog, app } from 'electron'
 import { join } from 'path'
-import { existsSync, mkdirSync, copyFileSync, readFileSync, writeFileSync, rmSync } from 'fs'
-import { APIResponse } from '@shared/types'
+import { existsSync, mkdirSync, copyFileSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { APIResponse, BoomerangResult, PhotoCrop, FrameConfig, FrameLayer, FrameTextValues, SessionRecordUpdate } from '@shared/types'
+import { DEFAULT_CROP, normalizeCrop } from '@shared/crop'
 import ffmpeg from 'fluent-ffmpeg'
 import ffmpegPath from '@ffmpeg-installer/ffmpeg'
 import { getLocalIpAddress } from '../server'
+import { CubeLut } from '../services/CubeLut'
+import { ImageProcessor } from '../services/ImageProcessor'
+import { FramePackager, PACKAGE_EXTENSION } from '../services/FramePackager'
+import { sessionIndex } from '../services/SessionIndex'
+import { toFilePath } from '../utils/media'
 
 ffmpeg.setFfmpegPath(ffmpegPath.path)
 
+const imageProcessor = new ImageProcessor()
+
+/**
+ * Escape a file path for use as a quoted option value inside an ffmpeg filtergraph
+ * (e.g. C:\LUTs\film.cube -> C\:/LUTs/film.cube)
+ */
+function escapeFilterPath(filePath: string): string {
+    return filePath
+        .replace(/\\/g, '/')
+        .replace(/:/g, '\\:')
+        .replace(/'/g, "'\\''")
+}
+
 /**
  * Register all system-related IPC handlers
  */
 export function registerSystemHandlers(ipcMain: IpcMain): void {
+    const framePackager = new FramePackager(join(app.getPath('userData'), 'frames'))
 
     // Open file dialog
     ipcMain.handle('system:open-file-dialog', async (_, options: {
@@ -123,73 +143,6 @@ export function registerSystemHandlers(ipcMain: IpcMain): void {
         }
     })
 
-    // Generate High-Quality GIF using FFmpeg
-    ipcMain.handle('system:generate-hq-gif', async (_, framesBase64: string[], delayMs: number): Promise<APIResponse<string>> => {
-        try {
-            const tempPath = join(app.getPath('userData'), 'temp', `hq_gif_${Date.now()}`)
-            if (!existsSync(tempPath)) {
-                mkdirSync(tempPath, { recursive: true })
-            }
-
-            // Save all frames
-            const framePaths: string[] = []
-            for (let i = 0; i < framesBase64.length; i++) {
-                const matches = framesBase64[i].match(/^data:([a-zA-Z0-9]+\/[a-zA-Z0-9-.+]+);base64,(.+)$/)
-                if (matches) {
-                    const buffer = Buffer.from(matches[2], 'base64')
-                    const framePath = join(tempPath, `frame_${i}.jpg`)
-                    writeFileSync(framePath, buffer)
-                    framePaths.push(framePath)
-                }
-            }
-
-            if (framePaths.length === 0) {
-                return { success: false, error: 'No valid frames provided' }
-            }
-
-            const outputPath = join(tempPath, 'output.gif')
-            const fps = 1000 / delayMs
-
-            await new Promise<void>((resolve, reject) => {
-                const filterComplex = [
-                    '[0:v]split[v1][v2]',
-                    '[v1]palettegen=stats_mode=diff[pal]',
-                    '[v2][pal]paletteuse=dither=bayer:bayer_scale=5[outv]'
-                ].join(';')
-
-                ffmpeg()
-                    .input(join(tempPath, 'frame_%d.jpg'))
-                    .inputOptions([`-framerate ${fps}`])
-                    .complexFilter(filterComplex)
-                    .outputOptions([
-                        '-map [outv]',
-                        '-loop 0'
-                    ])
-                    .save(outputPath)
-                    .on('end', () => resolve())
-                    .on('error', (err: Error) => reject(err))
-            })
-
-            // Read output gif as base64
-            const resultBuffer = readFileSync(outputPath)
-            const resultBase64 = `data:image/gif;base64,${resultBuffer.toString('base64')}`
-
-            // Cleanup temp folder (background)
-            setTimeout(() => {
-                try {
-                    rmSync(tempPath, { recursive: true, force: true })
-                } catch (e) {
-                    console.error('Failed to cleanup temp gif folder', e)
-                }
-            }, 5000)
-
-            return { success: true, data: resultBase64 }
-        } catch (error) {
-            const err = error as Error
-            return { success: false, error: err.message }
-        }
-    })
-
     // Save data URL as file
     ipcMain.handle('system:save-data-url', async (_, dataUrl: string, filename: string): Promise<APIResponse<string>> => {
         try {
@@ -222,16 +175,21 @@ export function registerSystemHandlers(ipcMain: IpcMain): void {
     // Save entire session locally for backup
     ipcMain.handle('system:save-session-locally', async (_, params: {
         sessionId: string
-        stripDataUrl?: string
-        gifDataUrl?: string
+        stripPath?: string
+        gifPath?: string
+        boomerang?: BoomerangResult
         photos: { path: string; filename: string }[]
-        videos: { path: string; filename: string }[]
+        videos: { path: string; filename: string; crop?: PhotoCrop }[]
         overlay?: { path: string; filename: string }
+        lutPath?: string
         frameConfig?: {
             width: number
             height: number
             slots: { width: number; height: number; x: number; y: number; rotation?: number }[]
+            layers?: FrameLayer[]
         }
+        textValues?: FrameTextValues
+        session?: SessionRecordUpdate // Details stored with the session in the local index
     }): Promise<APIResponse<{ path: string; filename: string; mimeType: string }[]>> => {
         try {
             const baseDir = join(app.getPath('documents'), 'Sebooth', 'Sessions', `Session_${params.sessionId}`)
@@ -242,27 +200,33 @@ export function registerSystemHandlers(ipcMain: IpcMain): void {
 
             const savedFiles: { path: string; filename: string; mimeType: string }[] = []
 
-            // Save strip from base64
-            if (params.stripDataUrl) {
-                const matches = params.stripDataUrl.match(/^data:([a-zA-Z0-9]+\/[a-zA-Z0-9-.+]+);base64,(.+)$/)
-                if (matches) {
-                    const buffer = Buffer.from(matches[2], 'base64')
-                    const filename = `strip_${params.sessionId}.jpg`
-                    const destPath = join(baseDir, filename)
-                    writeFileSync(destPath, buffer)
-                    savedFiles.push({ path: destPath, filename, mimeType: 'image/jpeg' })
-                }
+            // Copy the strip rendered by image:render-session
+            if (params.stripPath && existsSync(params.stripPath)) {
+                const filename = `strip_${params.sessionId}.jpg`
+                const destPath = join(baseDir, filename)
+                copyFileSync(params.stripPath, destPath)
+                savedFiles.push({ path: destPath, filename, mimeType: 'image/jpeg' })
             }
 
-            // Save GIF from base64
-            if (params.gifDataUrl) {
-                const matches = params.gifDataUrl.match(/^data:([a-zA-Z0-9]+\/[a-zA-Z0-9-.+]+);base64,(.+)$/)
-                if (matches) {
-                    const buffer = Buffer.from(matches[2], 'base64')
-                    const filename = `gif_${params.sessionId}.gif`
-                    const destPath = join(baseDir, filename)
-                    writeFileSync(destPath, buffer)
-                    savedFiles.push({ path: destPath, filename, mimeType: 'image/gif' })
+            // Copy the GIF rendered by image:generate-gif
+            if (params.gifPath && existsSync(params.gifPath)) {
+                const filename = `gif_${params.sessionId}.gif`
+                const destPath = join(baseDir, filename)
+                copyFileSync(params.gifPath, destPath)
+                savedFiles.push({ path: destPath, filename, mimeType: 'image/gif' })
+            }
+
+            // Copy the boomerang rendered by image:generate-boomerang
+            if (params.boomerang) {
+                const outputs = [
+                    { path: params.boomerang.mp4Path, filename: `boomerang_${params.sessionId}.mp4`, mimeType: 'video/mp4' },
+                    { path: params.boomerang.gifPath, filename: `boomerang_${params.sessionId}.gif`, mimeType: 'image/gif' }
+                ]
+                for (const output of outputs) {
+                    if (!existsSync(output.path)) continue
+                    const destPath = join(baseDir, output.filename)
+                    copyFileSync(output.path, destPath)
+                    savedFiles.push({ path: destPath, filename: output.filename, mimeType: output.mimeType })
                 }
             }
 
@@ -290,38 +254,63 @@ export function registerSystemHandlers(ipcMain: IpcMain): void {
             }
 
             // Copy videos (and compose WebM to MP4 strip)
-            if (params.videos.length > 0 && params.frameConfig && params.overlay) {
+            if (params.videos.length > 0 && params.frameConfig && (params.overlay || params.frameConfig.layers?.length)) {
                 try {
-                    const overlayUrl = params.overlay.path.startsWith('file:///') ? decodeURIComponent(new URL(params.overlay.path).pathname.substring(process.platform === 'win32' ? 1 : 0)) : decodeURIComponent(params.overlay.path)
+                    const overlayUrl = params.overlay ? toFilePath(params.overlay.path) : ''
                     const stripFilename = `live_video_${params.sessionId}.mp4`
                     const destPath = join(baseDir, stripFilename)
 
-                    const validInputs: { path: string; slot: { width: number; height: number; x: number; y: number; rotation?: number }; index: number }[] = []
+                    const validInputs: { path: string; slot: { width: number; height: number; x: number; y: number; rotation?: number }; crop: PhotoCrop; index: number }[] = []
                     params.videos.forEach((v, i) => {
                         if (!v.path || !params.frameConfig!.slots[i]) return;
                         const cleanUrl = v.path.startsWith('file:///') ? decodeURIComponent(new URL(v.path).pathname.substring(process.platform === 'win32' ? 1 : 0)) : decodeURIComponent(v.path)
                         if (existsSync(cleanUrl)) {
-                            validInputs.push({ path: cleanUrl, slot: params.frameConfig!.slots[i], index: validInputs.length })
+                            validInputs.push({ path: cleanUrl, slot: params.frameConfig!.slots[i], crop: normalizeCrop(v.crop || DEFAULT_CROP), index: validInputs.length })
                         }
                     })
 
                     console.log('DEBUG validInputs length:', validInputs.length, 'slots configured:', params.frameConfig?.slots?.length)
 
-                    if (validInputs.length > 0 && existsSync(overlayUrl)) {
+                    // Color grade the clips with the same LUT used for the photos
+                    let lutFilter = ''
+                    if (params.lutPath && existsSync(params.lutPath)) {
+                        const lutType = CubeLut.load(params.lutPath).is3D() ? 'lut3d' : 'lut1d'
+                        lutFilter = `${lutType}=file='${escapeFilterPath(params.lutPath)}',`
+                    }
+
+                    // Template layers flattened to the artwork under and over the clips
+                    const plates = await imageProcessor.renderLayerPlates({
+                        overlayPath: overlayUrl,
+                        layers: params.frameConfig.layers,
+                        canvasWidth: params.frameConfig.width,
+                        canvasHeight: params.frameConfig.height
+                    }, params.textValues)
+                    const underPath = join(baseDir, `.layers_under_${params.sessionId}.png`)
+                    const overPath = join(baseDir, `.layers_over_${params.sessionId}.png`)
+                    if (plates.under) writeFileSync(underPath, plates.under)
+                    if (plates.over) writeFileSync(overPath, plates.over)
+
+                    if (validInputs.length > 0) {
                         await new Promise<void>((resolve, reject) => {
                             let command = ffmpeg()
 
-                            // Input 0: Create dynamic blank background
-                            command = command.input(`color=c=black@0.0:s=${params.frameConfig!.width}x${params.frameConfig!.height}`)
-                                .inputFormat('lavfi')
+                            // Input 0: the background layers (looped so the clips set the length), or a blank canvas
+                            if (plates.under) {
+                                command = command.input(underPath).inputOption('-loop 1')
+                            } else {
+                                command = command.input(`color=c=black@0.0:s=${params.frameConfig!.width}x${params.frameConfig!.height}`)
+                                    .inputFormat('lavfi')
+                            }
 
                             // Inputs 1..N: the videos
                             validInputs.forEach(input => {
                                 command = command.input(input.path).inputOption('-stream_loop -1') // loop videos infinitely until shortest ends
                             })
 
-                            // Input N+1: the overlay
-                            command = command.input(overlayUrl)
+                            // Input N+1: the layers over the clips
+                            if (plates.over) {
+                                command = command.input(overPath)
+                            }
 
                             // Construct complex filter graph
                             let filterGraph = ''
@@ -333,11 +322,13 @@ export function registerSystemHandlers(ipcMain: IpcMain): void {
                                 const rot = input.slot.rotation || 0
                                 const rotRad = `(${rot}*PI/180)`
 
-                                // 1. Scale video so it fills W x H straight (object-fit: cover)
-                                // 2. Rotate the perfectly covered WxH box around its center, expanding its bounding box
+                                // 1. Scale video so it fills W x H straight (object-fit: cover), enlarged by the guest's zoom
+                                // 2. Crop W x H at the guest's pan offsets (centred by default)
+                                // 3. Rotate the perfectly covered WxH box around its center, expanding its bounding box
+                                const { offsetX, offsetY, scale } = input.crop
                                 const rotFilter = rot ? `rotate=${rotRad}:ow='iw*abs(cos(${rotRad}))+ih*abs(sin(${rotRad}))':oh='iw*abs(sin(${rotRad}))+ih*abs(cos(${rotRad}))':c=black@0.0` : ''
 
-                                filterGraph += `[${i + 1}:v]format=yuva420p,scale=${w}:${h}:force_original_aspect_ratio=increase,crop=${w}:${h}`
+                                filterGraph += `[${i + 1}:v]${lutFilter}format=yuva420p,scale=${Math.round(w * scale)}:${Math.round(h * scale)}:force_original_aspect_ratio=increase,crop=${w}:${h}:(iw-ow)*${offsetX}:(ih-oh)*${offsetY}`
                                 if (rotFilter) filterGraph += `,${rotFilter}`
                                 filterGraph += `[v${i}];`
                             })
@@ -369,7 +360,9 @@ export function registerSystemHandlers(ipcMain: IpcMain): void {
 
                             // 3. Overlay the final frame image template
                             const finalNode = 'out'
-                            filterGraph += `${lastOverlayNode}[${validInputs.length + 1}:v]overlay=0:0[${finalNode}]`
+                            filterGraph += plates.over
+                                ? `${lastOverlayNode}[${validInputs.length + 1}:v]overlay=0:0[${finalNode}]`
+                                : `${lastOverlayNode}null[${finalNode}]`
 
                             command
                                 .complexFilter(filterGraph, finalNode)
@@ -381,9 +374,13 @@ export function registerSystemHandlers(ipcMain: IpcMain): void {
                                 .output(destPath)
                                 .on('end', () => {
                                     savedFiles.push({ path: destPath, filename: stripFilename, mimeType: 'video/mp4' })
+                                    rmSync(underPath, { force: true })
+                                    rmSync(overPath, { force: true })
                                     resolve()
                                 })
                                 .on('error', (err: Error) => {
+                                    rmSync(underPath, { force: true })
+                                    rmSync(overPath, { force: true })
                                     console.error('FFmpeg strip conversion error:', err)
                                     // On error, let the frontend know (but we still resolve so photo copying succeeds)
                                     resolve()
@@ -443,6 +440,8 @@ export function registerSystemHandlers(ipcMain: IpcMain): void {
 
             // Overlay (frame template) is no longer exported as a standalone empty file
 
+            sessionIndex.record(params.sessionId, baseDir, savedFiles, params.session)
+
             return { success: true, data: savedFiles }
         } catch (error) {
             const err = error as Error
@@ -450,6 +449,54 @@ export function registerSystemHandlers(ipcMain: IpcMain): void {
         }
     })
 
+    // Export frames (with their overlay and layer images) to a package file
+    ipcMain.handle('system:export-frames', async (_, frames: FrameConfig[]): Promise<APIResponse<string | null>> => {
+        try {
+            if (frames.length === 0) {
+                throw new Error('No frames to export')
+            }
+
+            const result = await dialog.showSaveDialog({
+                title: 'Export Frames',
+                defaultPath: join(app.getPath('documents'), FramePackager.packageName(frames)),
+                filters: [{ name: 'Sebooth Frame Package', extensions: [PACKAGE_EXTENSION] }]
+            })
+
+            if (result.canceled || !result.filePath) {
+                return { success: true, data: null }
+            }
+
+            framePackager.exportFrames(frames, result.filePath)
+            return { success: true, data: result.filePath }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Import a frame package; assets are copied into userData and the frames get new ids
+    ipcMain.handle('system:import-frames', async (_, packagePath?: string): Promise<APIResponse<FrameConfig[]>> => {
+        try {
+            if (!packagePath) {
+                const result = await dialog.showOpenDialog({
+                    title: 'Import Frames',
+                    filters: [{ name: 'Sebooth Frame Package', extensions: [PACKAGE_EXTENSION, 'zip'] }],
+                    properties: ['openFile']
+                })
+
+                if (result.canceled || result.filePaths.length === 0) {
+                    return { success: true, data: [] }
+                }
+                packagePath = result.filePaths[0]
+            }
+
+            return { success: true, data: framePackager.importPackage(packagePath) }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
     // Get local machine IP address for local offline sharing
     ipcMain.handle('system:get-local-ip', async (): Promise<APIResponse<string | null>> => {
         try {
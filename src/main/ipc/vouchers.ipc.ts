@@ -0,0 +1,68 @@
+import { IpcMain, app } from 'electron'
+import { voucherStore } from '../services/VoucherStore'
+import { settingsStore } from '../services/SettingsStore'
+import { priceSelection } from '@shared/pricing'
+import { APIResponse, PriceSelection, Voucher, VoucherCreateRequest, VoucherQuote, VoucherRedemption } from '@shared/types'
+
+/**
+ * Register voucher IPC handlers (promo and free-session codes)
+ */
+export function registerVoucherHandlers(ipcMain: IpcMain): void {
+    voucherStore.load(app.getPath('userData'))
+    app.on('will-quit', () => voucherStore.flush())
+
+    ipcMain.handle('vouchers:list', async (): Promise<APIResponse<Voucher[]>> => {
+        try {
+            return { success: true, data: voucherStore.list() }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Create one code, or a generated batch to hand out
+    ipcMain.handle('vouchers:create', async (_, request: VoucherCreateRequest): Promise<APIResponse<Voucher[]>> => {
+        try {
+            return { success: true, data: voucherStore.create(request) }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    ipcMain.handle('vouchers:delete', async (_, code: string): Promise<APIResponse<void>> => {
+        try {
+            voucherStore.delete(code)
+            return { success: true }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Check a code on the payment screen and show the discounted price
+    ipcMain.handle('vouchers:quote', async (_, code: string, selection: PriceSelection): Promise<APIResponse<VoucherQuote>> => {
+        try {
+            const { subtotal } = priceSelection(settingsStore.getPricing(), selection)
+            return { success: true, data: voucherStore.quote(code, subtotal) }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+
+    // Use up a code that makes the session free (paid orders take theirs in payment:create-charge)
+    ipcMain.handle('vouchers:redeem', async (_, code: string, selection: PriceSelection): Promise<APIResponse<VoucherRedemption>> => {
+        try {
+            const { subtotal } = priceSelection(settingsStore.getPricing(), selection)
+            const quote = voucherStore.quote(code, subtotal)
+            if (quote.total > 0) {
+                throw new Error(`Voucher leaves Rp ${quote.total.toLocaleString('id-ID')} to pay`)
+            }
+            return { success: true, data: voucherStore.redeem(code, subtotal) }
+        } catch (error) {
+            const err = error as Error
+            return { success: false, error: err.message }
+        }
+    })
+}
@@ -4,6 +4,11 @@ import { app } from 'electron'
 import { join } from 'path'
 import { existsSync, readdirSync } from 'fs'
 import { networkInterfaces } from 'os'
+import { MidtransProvider, MidtransNotification } from './handlers/MidtransProvider'
+import { settingsStore } from './services/SettingsStore'
+import { secretStore, MIDTRANS_SERVER_KEY } from './services/SecretStore'
+import { orderStore } from './services/OrderStore'
+import { cashRegister } from './services/CashRegister'
 
 let serverInstance: any = null
 
@@ -35,6 +40,8 @@ export function startLocalServer(port = 5050) {
             const photoStrip = files.find(f => f.startsWith('strip_'))
             const gif = files.find(f => f.startsWith('gif_'))
             const video = files.find(f => f.startsWith('live_video_'))
+            const boomerangVideo = files.find(f => f.startsWith('boomerang_') && f.endsWith('.mp4'))
+            const boomerangGif = files.find(f => f.startsWith('boomerang_') && f.endsWith('.gif'))
             const photos = files.filter(f => f.startsWith('photo_'))
 
             // Generate beautifully styled mobile-first HTML Gallery
@@ -116,6 +123,15 @@ export function startLocalServer(port = 5050) {
         </div>
         ` : ''}
 
+        ${boomerangVideo ? `
+        <div class="card">
+            <div class="header-text">Boomerang</div>
+            <video src="/Session_${sessionId}/${boomerangVideo}" autoplay loop muted playsinline></video>
+            <a href="/Session_${sessionId}/${boomerangVideo}" download="${boomerangVideo}" class="btn">Download Video</a>
+            ${boomerangGif ? `<a href="/Session_${sessionId}/${boomerangGif}" download="${boomerangGif}" class="btn" style="margin-top: 8px;">Download GIF</a>` : ''}
+        </div>
+        ` : ''}
+
         ${photos.length > 0 ? `
         <div class="card">
             <div class="header-text">Individual Shots</div>
@@ -145,6 +161,110 @@ export function startLocalServer(port = 5050) {
         }
     })
 
+    // Payment webhook (Midtrans HTTP notification)
+    // Set http://<public-address>:5050/payment/notification as the notification URL in the Midtrans dashboard
+    server.post('/payment/notification', express.json(), (req, res) => {
+        try {
+            const config = settingsStore.getAppConfig()
+            const provider = new MidtransProvider(secretStore.get(MIDTRANS_SERVER_KEY) || '', config.midtransEnvironment || 'sandbox')
+            const charge = provider.verifyNotification(req.body as MidtransNotification)
+
+            if (!charge) {
+                console.warn('Rejected payment notification with invalid signature:', req.body?.order_id)
+                return res.status(403).json({ error: 'Invalid signature' })
+            }
+
+            // Orders from other booths on the same merchant account are acknowledged but ignored
+            const order = orderStore.update(charge, 'webhook')
+            console.log(`Payment notification: ${charge.orderId} -> ${charge.status}${order ? '' : ' (unknown order)'}`)
+            res.json({ received: true })
+        } catch (err) {
+            console.error('Error handling payment notification:', err)
+            res.status(400).json({ error: (err as Error).message })
+        }
+    })
+
+    // Cash confirmation page, opened on the operator's phone by scanning the QR on the payment screen
+    server.get('/cash/:orderId', (req, res) => {
+        const order = orderStore.get(req.params.orderId)
+        if (!order || order.provider !== 'cash') {
+            return res.status(404).send('Cash payment not found.')
+        }
+
+        const html = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Confirm Cash Payment</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif;
+            margin: 0;
+            padding: 20px;
+            background-color: #f3f4f6;
+            color: #1f2937;
+            text-align: center;
+        }
+        .card { max-width: 360px; margin: 40px auto; background: white; border-radius: 16px; padding: 24px; box-shadow: 0 4px 6px -1px rgb(0 0 0 / 0.1); }
+        .amount { font-size: 32px; font-weight: 700; margin: 16px 0; }
+        input { width: 100%; padding: 12px; font-size: 20px; text-align: center; border: 1px solid #d1d5db; border-radius: 8px; box-sizing: border-box; margin-bottom: 12px; }
+        button { width: 100%; padding: 12px; background: #000; color: white; border: none; border-radius: 8px; font-size: 16px; font-weight: 600; cursor: pointer; }
+        #message { margin-top: 12px; font-weight: 600; }
+    </style>
+</head>
+<body>
+    <div class="card">
+        <div>💵 Cash payment</div>
+        <div class="amount">Rp ${order.amount.toLocaleString('id-ID')}</div>
+        ${order.status === 'pending' ? `
+        <form id="confirm">
+            <input id="pin" type="password" inputmode="numeric" placeholder="Operator PIN" autocomplete="off" required />
+            <button type="submit">Confirm cash received</button>
+        </form>
+        ` : ''}
+        <div id="message">${order.status === 'pending' ? '' : `Payment ${order.status}`}</div>
+    </div>
+    <script>
+        const form = document.getElementById('confirm')
+        form && form.addEventListener('submit', async (e) => {
+            e.preventDefault()
+            const message = document.getElementById('message')
+            const res = await fetch('/payment/cash/${encodeURIComponent(order.orderId)}/confirm', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ pin: document.getElementById('pin').value })
+            })
+            const data = await res.json()
+            if (res.ok) {
+                form.remove()
+                message.textContent = '✓ Confirmed, the session is starting'
+            } else {
+                document.getElementById('pin').value = ''
+                message.textContent = data.error
+            }
+        })
+    </script>
+</body>
+</html>`
+
+        res.send(html)
+    })
+
+    server.post('/payment/cash/:orderId/confirm', express.json(), (req, res) => {
+        // The page stays reachable on the open WiFi after the admin turns cash off
+        if (!cashRegister.isEnabled()) {
+            return res.status(403).json({ error: 'Cash payment is turned off' })
+        }
+        try {
+            const order = cashRegister.confirm(req.params.orderId, String(req.body?.pin ?? ''), req.ip || 'unknown')
+            res.json({ status: order.status })
+        } catch (err) {
+            res.status(400).json({ error: (err as Error).message })
+        }
+    })
+
     serverInstance = server.listen(port, () => {
         console.log(`Local Sharing Server running on port ${port}`)
     })
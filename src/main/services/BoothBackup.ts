@@ -0,0 +1,234 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { basename, join } from 'path'
+import { AppConfig, BoothBackupPreview, FrameConfig, LUTFilter } from '@shared/types'
+import { createZip, readZipFile, ZipEntry } from '../utils/zip'
+import {
+    SettingsStore,
+    PersistedValue,
+    APP_CONFIG_KEY,
+    FRAMES_KEY,
+    FILTERS_KEY,
+    SETTINGS_SCHEMA_VERSION
+} from './SettingsStore'
+import { secretStore, MIDTRANS_SERVER_KEY, CASH_OPERATOR_PINS, ADMIN_OVERRIDE_PIN, GMAIL_APP_PASSWORD } from './SecretStore'
+
+const BACKUP_FORMAT = 'sebooth-backup'
+const BACKUP_VERSION = 1
+const MANIFEST_NAME = 'backup.json'
+export const BACKUP_EXTENSION = 'sbbackup'
+
+// Secrets stay on the booth they were entered on; a backup only records which ones to re-enter
+const SECRET_LABELS: Record<string, string> = {
+    [MIDTRANS_SERVER_KEY]: 'Midtrans server key',
+    [CASH_OPERATOR_PINS]: 'Cash operator PINs',
+    [ADMIN_OVERRIDE_PIN]: 'Extra print PIN',
+    [GMAIL_APP_PASSWORD]: 'Gmail app password'
+}
+
+// backup.json at the root of a backup; asset paths are relative to the archive
+interface BoothBackupManifest {
+    format: typeof BACKUP_FORMAT
+    version: number
+    schemaVersion: number // SettingsStore schema the settings were saved with
+    appVersion: string
+    exportedAt: number
+    config: Partial<AppConfig>
+    frames: FrameConfig[]
+    filters: LUTFilter[]
+    missingAssets: string[] // Referenced files that could not be found at export
+    secretsNotIncluded: string[] // Labels of the secrets the exporting booth had set
+}
+
+/**
+ * BoothBackup - Whole-booth configuration backup and restore
+ * Bundles the admin settings, frames and LUT filters with every file they
+ * reference into one archive, so a booth can be rebuilt or cloned.
+ */
+export class BoothBackup {
+    constructor(private assetsDir: string, private settings: SettingsStore) {}
+
+    /**
+     * Write the current configuration and its assets to a backup file
+     */
+    exportBackup(backupPath: string, appVersion: string): void {
+        const entries: ZipEntry[] = []
+        const assetNames = new Map<string, string>()
+        const missingAssets: string[] = []
+
+        // Files that no longer exist keep their path, so the preview can warn about them
+        const addAsset = (filePath: string | undefined): string | undefined => {
+            if (!filePath) return filePath
+            const existing = assetNames.get(filePath)
+            if (existing) return existing
+            if (!existsSync(filePath)) {
+                if (!missingAssets.includes(filePath)) missingAssets.push(filePath)
+                return filePath
+            }
+
+            const name = `assets/${assetNames.size + 1}_${basename(filePath).replace(/[^\w.-]/g, '_')}`
+            entries.push({ name, data: readFileSync(filePath) })
+            assetNames.set(filePath, name)
+            return name
+        }
+
+        const { frames, filters } = this.current()
+        const manifest: BoothBackupManifest = {
+            format: BACKUP_FORMAT,
+            version: BACKUP_VERSION,
+            schemaVersion: SETTINGS_SCHEMA_VERSION,
+            appVersion,
+            exportedAt: Date.now(),
+            config: this.settings.getAppConfig(),
+            frames: frames.map(frame => ({
+                ...frame,
+                overlayPath: addAsset(frame.overlayPath) || '',
+                layers: frame.layers?.map(layer => layer.type === 'image' ? { ...layer, path: addAsset(layer.path) || '' } : layer)
+            })),
+            filters: filters.map(filter => ({
+                ...filter,
+                cubePath: addAsset(filter.cubePath) || '',
+                previewPath: addAsset(filter.previewPath)
+            })),
+            missingAssets,
+            secretsNotIncluded: Object.keys(SECRET_LABELS).filter(name => secretStore.has(name)).map(name => SECRET_LABELS[name])
+        }
+
+        entries.unshift({ name: MANIFEST_NAME, data: Buffer.from(JSON.stringify(manifest, null, 2)) })
+        writeFileSync(backupPath, createZip(entries))
+    }
+
+    /**
+     * Validate a backup and describe what importing it would overwrite
+     */
+    previewBackup(backupPath: string): BoothBackupPreview {
+        const { manifest, entries } = this.open(backupPath)
+        const { config, frames, filters } = this.current()
+
+        const backupFrameIds = new Set(manifest.frames.map(frame => frame.id))
+        const backupFilterIds = new Set(manifest.filters.map(filter => filter.id))
+
+        return {
+            path: backupPath,
+            exportedAt: manifest.exportedAt,
+            appVersion: manifest.appVersion,
+            frames: manifest.frames.map(frame => frame.name),
+            filters: manifest.filters.map(filter => filter.name),
+            // Same-id frames are updated in place; anything else on this booth goes away
+            replacedFrames: frames.filter(frame => !backupFrameIds.has(frame.id)).map(frame => frame.name),
+            replacedFilters: filters.filter(filter => !backupFilterIds.has(filter.id)).map(filter => filter.name),
+            changedSettings: (Object.keys(manifest.config) as (keyof AppConfig)[]).filter(key =>
+                JSON.stringify(config[key]) !== JSON.stringify(manifest.config[key])
+            ),
+            missingAssets: [
+                ...manifest.missingAssets,
+                ...this.assetNames(manifest).filter(name => name.startsWith('assets/') && !entries.has(name))
+            ],
+            secretsNotIncluded: manifest.secretsNotIncluded
+        }
+    }
+
+    /**
+     * Replace this booth's settings, frames and filters with the backup's.
+     * Assets are unpacked into a fresh folder so files in use are never overwritten.
+     */
+    importBackup(backupPath: string): void {
+        const { manifest, entries } = this.open(backupPath)
+        const targetDir = join(this.assetsDir, `restore_${Date.now()}`)
+
+        const extractAsset = (name: string | undefined): string | undefined => {
+            if (!name) return name
+            const data = entries.get(name)
+            // Missing-at-export files keep their original path
+            if (!data) return name.startsWith('assets/') ? '' : name
+
+            if (!existsSync(targetDir)) {
+                mkdirSync(targetDir, { recursive: true })
+            }
+            const filePath = join(targetDir, basename(name))
+            writeFileSync(filePath, data)
+            return filePath
+        }
+
+        const frames = manifest.frames.map(frame => ({
+            ...frame,
+            overlayPath: extractAsset(frame.overlayPath) || '',
+            layers: frame.layers?.map(layer => layer.type === 'image' ? { ...layer, path: extractAsset(layer.path) || '' } : layer)
+        }))
+        const filters = manifest.filters.map(filter => ({
+            ...filter,
+            cubePath: extractAsset(filter.cubePath) || '',
+            previewPath: extractAsset(filter.previewPath)
+        }))
+
+        // Older backups go through the same settings migrations as older settings files
+        this.settings.set(APP_CONFIG_KEY, { state: { config: manifest.config }, version: 0 }, manifest.schemaVersion)
+        this.settings.set(FRAMES_KEY, { state: { frames, activeFrame: null }, version: 0 }, manifest.schemaVersion)
+        this.settings.set(FILTERS_KEY, { state: { filters, activeFilter: null }, version: 0 }, manifest.schemaVersion)
+        this.settings.flush()
+    }
+
+    private current(): { config: Partial<AppConfig>; frames: FrameConfig[]; filters: LUTFilter[] } {
+        return {
+            config: this.settings.getAppConfig(),
+            frames: this.settings.get<PersistedValue<{ frames?: FrameConfig[] }>>(FRAMES_KEY)?.state?.frames || [],
+            filters: this.settings.get<PersistedValue<{ filters?: LUTFilter[] }>>(FILTERS_KEY)?.state?.filters || []
+        }
+    }
+
+    private open(backupPath: string): { manifest: BoothBackupManifest; entries: Map<string, Buffer> } {
+        const entries = new Map(readZipFile(backupPath).map(entry => [entry.name, entry.data]))
+
+        const manifestData = entries.get(MANIFEST_NAME)
+        if (!manifestData) {
+            throw new Error('Not a Sebooth booth backup')
+        }
+        const manifest = JSON.parse(manifestData.toString('utf8')) as BoothBackupManifest
+        validateManifest(manifest)
+        return { manifest, entries }
+    }
+
+    private assetNames(manifest: BoothBackupManifest): string[] {
+        return [
+            ...manifest.frames.flatMap(frame => [
+                frame.overlayPath,
+                ...(frame.layers || []).map(layer => layer.type === 'image' ? layer.path : '')
+            ]),
+            ...manifest.filters.flatMap(filter => [filter.cubePath, filter.previewPath || ''])
+        ].filter(Boolean)
+    }
+}
+
+/**
+ * Reject anything that would leave the booth with unusable settings
+ */
+function validateManifest(manifest: BoothBackupManifest): void {
+    if (manifest.format !== BACKUP_FORMAT) {
+        throw new Error('Not a Sebooth booth backup')
+    }
+    if (manifest.version > BACKUP_VERSION || manifest.schemaVersion > SETTINGS_SCHEMA_VERSION) {
+        throw new Error('This backup was made by a newer version of Sebooth')
+    }
+    if (!manifest.config || typeof manifest.config !== 'object' || !Array.isArray(manifest.frames) || !Array.isArray(manifest.filters)) {
+        throw new Error('Backup is incomplete: settings, frames or filters are missing')
+    }
+
+    for (const frame of manifest.frames) {
+        const valid = typeof frame.id === 'string' && typeof frame.name === 'string' &&
+            Array.isArray(frame.slots) && frame.canvasWidth > 0 && frame.canvasHeight > 0
+        if (!valid) {
+            throw new Error(`Backup contains an invalid frame: ${frame.name || frame.id || 'unnamed'}`)
+        }
+    }
+    for (const filter of manifest.filters) {
+        if (typeof filter.id !== 'string' || typeof filter.name !== 'string' || typeof filter.cubePath !== 'string') {
+            throw new Error(`Backup contains an invalid filter: ${filter.name || filter.id || 'unnamed'}`)
+        }
+    }
+
+    if (!Array.isArray(manifest.missingAssets)) {
+        manifest.missingAssets = []
+    }
+    if (!Array.isArray(manifest.secretsNotIncluded)) {
+        manifest.secretsNotIncluded = []
+    }
+}
@@ -0,0 +1,213 @@
+import { CameraHandler } from '../handlers/CameraHandler'
+import {
+    CameraDevice,
+    CameraSettings,
+    CaptureResult,
+    CameraConnectionStatus,
+    CameraStatusEvent,
+    CameraWatchdogOptions
+} from '@shared/types'
+
+const DEFAULT_OPTIONS: CameraWatchdogOptions = {
+    enabled: true,
+    pollInterval: 5,
+    captureRetries: 2
+}
+
+// Pause between capture attempts so the camera can settle after a reconnect
+const RETRY_DELAY_MS = 1000
+
+/**
+ * CameraWatchdog - Monitors the tethered camera, reconnects after USB drops
+ * and retries failed captures
+ */
+export class CameraWatchdog {
+    private options: CameraWatchdogOptions = { ...DEFAULT_OPTIONS }
+    private pollTimer: ReturnType<typeof setInterval> | null = null
+    private lastCamera: CameraDevice | null = null
+    private lastSettings: CameraSettings | undefined
+    private status: CameraConnectionStatus = 'disconnected'
+    // Prevents polls from overlapping a capture or reconnect in progress
+    private busy = false
+
+    constructor(
+        private getHandler: () => CameraHandler,
+        private onStatusChange: (event: CameraStatusEvent) => void
+    ) { }
+
+    /**
+     * Update polling/retry options, restarting the poll timer if needed
+     */
+    configure(options: Partial<CameraWatchdogOptions>): void {
+        this.options = { ...this.options, ...options }
+        this.stop()
+        if (this.options.enabled) {
+            this.start()
+        }
+    }
+
+    start(): void {
+        if (this.pollTimer) return
+        this.pollTimer = setInterval(() => this.poll(), Math.max(1, this.options.pollInterval) * 1000)
+    }
+
+    stop(): void {
+        if (this.pollTimer) {
+            clearInterval(this.pollTimer)
+            this.pollTimer = null
+        }
+    }
+
+    /**
+     * Remember the camera the operator connected to (null after an explicit disconnect)
+     */
+    track(camera: CameraDevice | null, settings?: CameraSettings): void {
+        this.lastCamera = camera
+        this.lastSettings = settings
+        this.setStatus(camera ? 'connected' : 'disconnected')
+    }
+
+    getStatus(): CameraStatusEvent {
+        return { status: this.status, camera: this.lastCamera }
+    }
+
+    /**
+     * Capture with reconnect-and-retry, up to the configured number of extra attempts
+     */
+    async capture(outputPath: string): Promise<CaptureResult> {
+        const handler = this.getHandler()
+        this.busy = true
+
+        try {
+            let result = await handler.capture(outputPath)
+            const retries = this.options.enabled ? this.options.captureRetries : 0
+
+            for (let attempt = 1; attempt <= retries && !result.success; attempt++) {
+                console.warn(`Capture failed (${result.error}), retry ${attempt}/${retries}`)
+
+                if (!handler.isConnected() || !(await this.isCameraPresent())) {
+                    // Give up early if the camera is gone so the guest falls back to the webcam
+                    if (!(await this.reconnect())) break
+                }
+
+                await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS))
+                result = await handler.capture(outputPath)
+            }
+
+            return result
+        } finally {
+            this.busy = false
+        }
+    }
+
+    /**
+     * Capture a burst without per-frame retries (they would break the timing);
+     * the whole burst is retried once after a reconnect if no frame came back
+     */
+    async captureBurst(outputPaths: string[], intervalMs: number): Promise<CaptureResult[]> {
+        const handler = this.getHandler()
+        this.busy = true
+
+        try {
+            let results = await handler.captureBurst(outputPaths, intervalMs)
+            const retry = this.options.enabled && this.options.captureRetries > 0
+
+            if (retry && !results.some(result => result.success)) {
+                console.warn(`Burst capture failed (${results[0]?.error}), retrying`)
+                if (!handler.isConnected() || !(await this.isCameraPresent())) {
+                    if (!(await this.reconnect())) return results
+                }
+                await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS))
+                results = await handler.captureBurst(outputPaths, intervalMs)
+            }
+
+            return results
+        } finally {
+            this.busy = false
+        }
+    }
+
+    /**
+     * Check the tracked camera is still attached and reconnect if it came back
+     */
+    private async poll(): Promise<void> {
+        if (!this.lastCamera || this.busy) return
+
+        this.busy = true
+        try {
+            const present = await this.isCameraPresent()
+
+            if (present && this.getHandler().isConnected() && this.status === 'connected') {
+                return
+            }
+
+            if (!present) {
+                if (this.status === 'connected') {
+                    console.warn(`Camera ${this.lastCamera.name} disconnected`)
+                    await this.getHandler().disconnect()
+                }
+                this.setStatus('disconnected', 'Camera not detected')
+                return
+            }
+
+            await this.reconnect()
+        } catch (error) {
+            console.error('Camera watchdog poll failed:', error)
+        } finally {
+            this.busy = false
+        }
+    }
+
+    /**
+     * Reconnect to the tracked camera and reapply its settings
+     */
+    private async reconnect(): Promise<boolean> {
+        if (!this.lastCamera) return false
+        this.setStatus('reconnecting')
+
+        const handler = this.getHandler()
+        const camera = await this.findTrackedCamera()
+        if (!camera) {
+            this.setStatus('disconnected', 'Camera not detected')
+            return false
+        }
+
+        // Reset the driver state left behind by the dropped connection
+        await handler.disconnect()
+        if (!(await handler.connect(camera.id))) {
+            this.setStatus('disconnected', 'Reconnect failed')
+            return false
+        }
+
+        if (this.lastSettings) {
+            await handler.setSettings(this.lastSettings)
+        }
+
+        this.lastCamera = handler.getCurrentCamera() || camera
+        console.log(`Camera ${this.lastCamera.name} reconnected`)
+        this.setStatus('connected')
+        return true
+    }
+
+    private async isCameraPresent(): Promise<boolean> {
+        return (await this.findTrackedCamera()) !== null
+    }
+
+    /**
+     * Find the tracked camera by id, falling back to its name since
+     * USB port based ids change when the cable is replugged
+     */
+    private async findTrackedCamera(): Promise<CameraDevice | null> {
+        if (!this.lastCamera) return null
+        const cameras = await this.getHandler().listCameras()
+        return cameras.find(c => c.id === this.lastCamera!.id) ||
+            cameras.find(c => c.name === this.lastCamera!.name) ||
+            null
+    }
+
+    private setStatus(status: CameraConnectionStatus, error?: string): void {
+        if (status === this.status) return
+        this.status = status
+        this.onStatusChange({ status, camera: this.lastCamera, error })
+    }
+}
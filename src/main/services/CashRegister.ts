@@ -0,0 +1,145 @@
+import { randomBytes } from 'crypto'
+import { settingsStore } from './SettingsStore'
+import { orderStore } from './OrderStore'
+import { secretStore, CASH_OPERATOR_PINS } from './SecretStore'
+import { hashPin, verifyPin, PinAttemptLimiter } from '../utils/pin'
+import { CashOperator, PaymentChargeRequest, PaymentOrder, PaymentStatus, VoucherRedemption } from '@shared/types'
+
+/**
+ * CashRegister - Cash orders confirmed by an operator
+ * Cash orders live in the same order log as QRIS charges, so the booth's
+ * session records and refunds work the same way; instead of a provider, an
+ * operator settles them with their PIN, at the booth or from their phone.
+ * Operator names live in the admin config; their PINs only as hashes in the
+ * secret store, so this is the one place a PIN gets checked.
+ */
+export class CashRegister {
+    // The confirm page is on the open WiFi, so guesses are limited per requester across orders
+    private attempts = new PinAttemptLimiter()
+
+    /**
+     * Start a cash order; it stays pending until an operator confirms it
+     */
+    open(request: PaymentChargeRequest, voucher?: VoucherRedemption): PaymentOrder {
+        this.assertEnabled()
+        if (!this.operators().length) {
+            throw new Error('No cash operators configured')
+        }
+
+        return orderStore.record({
+            provider: 'cash',
+            orderId: request.orderId || `SEBOOTH-CASH-${Date.now()}-${randomBytes(4).toString('hex')}`,
+            amount: request.amount,
+            status: 'pending',
+            updatedAt: Date.now()
+        }, voucher)
+    }
+
+    /**
+     * Mark a cash order paid; the PIN identifies which operator took the money.
+     * requester is 'booth' or the phone's address, for the wrong-PIN backoff.
+     */
+    confirm(orderId: string, pin: string, requester: string): PaymentOrder {
+        this.assertEnabled()
+        const order = this.findPending(orderId)
+        this.attempts.check(requester)
+
+        const pins = this.pinHashes()
+        const operator = this.operators().find(o => verifyPin(pin.trim(), pins[o.id]))
+        if (!operator) {
+            this.attempts.fail(requester)
+            throw new Error('Wrong PIN')
+        }
+
+        this.attempts.succeed(requester)
+        console.log(`Cash payment ${orderId} (Rp ${order.amount}) confirmed by ${operator.name}`)
+        return this.setStatus(order, 'settled', operator.id)
+    }
+
+    cancel(orderId: string): PaymentOrder {
+        const order = this.findPending(orderId)
+        return this.setStatus(order, 'cancelled')
+    }
+
+    /**
+     * Record cash handed back to the guest (always the full amount)
+     */
+    refund(orderId: string): PaymentOrder {
+        const order = orderStore.get(orderId)
+        if (!order || order.provider !== 'cash') {
+            throw new Error(`Cash payment not found: ${orderId}`)
+        }
+        if (order.status !== 'settled') {
+            throw new Error(`Cannot refund a ${order.status} payment`)
+        }
+        return this.setStatus(order, 'refunded')
+    }
+
+    private setStatus(order: PaymentOrder, status: PaymentStatus, operatorId?: string): PaymentOrder {
+        return orderStore.update({ ...order, status, operatorId, updatedAt: Date.now() }, 'operator') || order
+    }
+
+    private findPending(orderId: string): PaymentOrder {
+        const order = orderStore.get(orderId)
+        if (!order || order.provider !== 'cash') {
+            throw new Error(`Cash payment not found: ${orderId}`)
+        }
+        if (order.status !== 'pending') {
+            throw new Error(`Cash payment is already ${order.status}`)
+        }
+        return order
+    }
+
+    /**
+     * Set (or clear, with an empty PIN) an operator's PIN; the PIN is what
+     * identifies the operator, so it can't be one another operator already uses
+     */
+    setPin(operatorId: string, pin: string): void {
+        const pins = this.pinHashes()
+        pin = pin.trim()
+
+        if (!pin) {
+            delete pins[operatorId]
+        } else {
+            const taken = this.operators().some(o => o.id !== operatorId && verifyPin(pin, pins[o.id]))
+            if (taken) {
+                throw new Error('Another operator already uses this PIN')
+            }
+            pins[operatorId] = hashPin(pin)
+        }
+        secretStore.set(CASH_OPERATOR_PINS, Object.keys(pins).length ? JSON.stringify(pins) : null)
+    }
+
+    /**
+     * Operators who have a PIN, the only ones who can take cash
+     */
+    operatorIdsWithPin(): string[] {
+        return this.operators().map(o => o.id)
+    }
+
+    isEnabled(): boolean {
+        return !!settingsStore.getAppConfig().cashPaymentEnabled
+    }
+
+    private assertEnabled(): void {
+        if (!this.isEnabled()) {
+            throw new Error('Cash payment is turned off')
+        }
+    }
+
+    private operators(): CashOperator[] {
+        const pins = this.pinHashes()
+        return (settingsStore.getAppConfig().cashOperators || []).filter(o => pins[o.id])
+    }
+
+    private pinHashes(): Record<string, string> {
+        try {
+            return JSON.parse(secretStore.get(CASH_OPERATOR_PINS) || '{}')
+        } catch (error) {
+            console.error('Failed to read operator PINs:', error)
+            return {}
+        }
+    }
+}
+
+export const cashRegister = new CashRegister()
@@ -0,0 +1,279 @@
+import { readFileSync, statSync } from 'fs'
+
+export type LutInterpolation = 'trilinear' | 'tetrahedral'
+
+type RGB = [number, number, number]
+
+/**
+ * CubeLut - Parser and evaluator for Adobe/Resolve .cube color lookup tables
+ * Supports 1D tables, 3D tables, and files that combine a 1D shaper with a 3D table.
+ */
+export class CubeLut {
+    title: string = ''
+    // Input range of each stage; in combined files the shaper output is rescaled into the 3D domain
+    domain1DMin: RGB = [0, 0, 0]
+    domain1DMax: RGB = [1, 1, 1]
+    domain3DMin: RGB = [0, 0, 0]
+    domain3DMax: RGB = [1, 1, 1]
+    size1D: number = 0
+    size3D: number = 0
+    table1D: Float32Array | null = null
+    table3D: Float32Array | null = null
+
+    // Parsed LUTs keyed by file path, invalidated when the file changes on disk
+    private static cache = new Map<string, { mtimeMs: number; lut: CubeLut }>()
+
+    /**
+     * Load and parse a .cube file, reusing a cached copy when unchanged
+     */
+    static load(cubePath: string): CubeLut {
+        const { mtimeMs } = statSync(cubePath)
+        const cached = CubeLut.cache.get(cubePath)
+        if (cached && cached.mtimeMs === mtimeMs) {
+            return cached.lut
+        }
+
+        const lut = CubeLut.parse(readFileSync(cubePath, 'utf-8'))
+        CubeLut.cache.set(cubePath, { mtimeMs, lut })
+        return lut
+    }
+
+    /**
+     * Parse the text content of a .cube file
+     */
+    static parse(content: string): CubeLut {
+        const lut = new CubeLut()
+        const values: number[] = []
+        // DOMAIN_MIN/MAX describe the input of the file, i.e. its first stage
+        let domainMin: RGB | null = null
+        let domainMax: RGB | null = null
+        // Resolve-style input ranges apply the same min/max to all channels
+        let inputRange1D: [number, number] | null = null
+        let inputRange3D: [number, number] | null = null
+
+        for (const rawLine of content.split(/\r?\n/)) {
+            const line = rawLine.trim()
+            if (!line || line.startsWith('#')) continue
+
+            const parts = line.split(/\s+/)
+            const keyword = parts[0].toUpperCase()
+
+            if (/^[-+.\d]/.test(parts[0])) {
+                if (parts.length < 3) {
+                    throw new Error(`Invalid LUT data line: "${line}"`)
+                }
+                values.push(parseFloat(parts[0]), parseFloat(parts[1]), parseFloat(parts[2]))
+                continue
+            }
+
+            switch (keyword) {
+                case 'TITLE':
+                    lut.title = line.slice(5).trim().replace(/^"|"$/g, '')
+                    break
+                case 'LUT_1D_SIZE':
+                    lut.size1D = parseInt(parts[1])
+                    break
+                case 'LUT_3D_SIZE':
+                    lut.size3D = parseInt(parts[1])
+                    break
+                case 'DOMAIN_MIN':
+                    domainMin = [parseFloat(parts[1]), parseFloat(parts[2]), parseFloat(parts[3])]
+                    break
+                case 'DOMAIN_MAX':
+                    domainMax = [parseFloat(parts[1]), parseFloat(parts[2]), parseFloat(parts[3])]
+                    break
+                case 'LUT_1D_INPUT_RANGE':
+                    inputRange1D = [parseFloat(parts[1]), parseFloat(parts[2])]
+                    break
+                case 'LUT_3D_INPUT_RANGE':
+                    inputRange3D = [parseFloat(parts[1]), parseFloat(parts[2])]
+                    break
+                default:
+                    // Ignore unknown keywords (e.g. LUT_IN_VIDEO_RANGE) for compatibility
+                    break
+            }
+        }
+
+        if (!lut.size1D && !lut.size3D) {
+            throw new Error('LUT file does not declare LUT_1D_SIZE or LUT_3D_SIZE')
+        }
+
+        if (lut.size1D) {
+            lut.domain1DMin = inputRange1D ? [inputRange1D[0], inputRange1D[0], inputRange1D[0]] : domainMin || lut.domain1DMin
+            lut.domain1DMax = inputRange1D ? [inputRange1D[1], inputRange1D[1], inputRange1D[1]] : domainMax || lut.domain1DMax
+        }
+        if (lut.size3D) {
+            // Behind a shaper the 3D table takes the shaper's output, not the file's input domain
+            const fileDomain = !lut.size1D
+            lut.domain3DMin = inputRange3D ? [inputRange3D[0], inputRange3D[0], inputRange3D[0]] : (fileDomain && domainMin) || lut.domain3DMin
+            lut.domain3DMax = inputRange3D ? [inputRange3D[1], inputRange3D[1], inputRange3D[1]] : (fileDomain && domainMax) || lut.domain3DMax
+        }
+
+        const expected1D = lut.size1D * 3
+        const expected3D = lut.size3D * lut.size3D * lut.size3D * 3
+        if (values.length !== expected1D + expected3D) {
+            throw new Error(`LUT data has ${values.length / 3} entries, expected ${(expected1D + expected3D) / 3}`)
+        }
+
+        // In combined files the 1D shaper data precedes the 3D table
+        if (lut.size1D) {
+            lut.table1D = Float32Array.from(values.slice(0, expected1D))
+        }
+        if (lut.size3D) {
+            lut.table3D = Float32Array.from(values.slice(expected1D))
+        }
+
+        return lut
+    }
+
+    /**
+     * Whether this LUT contains a 3D table (as opposed to 1D curves only)
+     */
+    is3D(): boolean {
+        return this.table3D !== null
+    }
+
+    /**
+     * Apply the LUT to interleaved 8-bit pixel data in place
+     */
+    applyToBuffer(
+        pixels: Buffer,
+        channels: number,
+        interpolation: LutInterpolation = 'tetrahedral'
+    ): Buffer {
+        const rgb: RGB = [0, 0, 0]
+
+        for (let i = 0; i + 2 < pixels.length; i += channels) {
+            for (let c = 0; c < 3; c++) {
+                rgb[c] = pixels[i + c] / 255
+            }
+
+            if (this.table1D) {
+                toUnitRange(rgb, this.domain1DMin, this.domain1DMax)
+                this.lookup1D(rgb)
+            }
+            if (this.table3D) {
+                // Shapers often map outside [0, 1]; out-of-range values would index past the table
+                toUnitRange(rgb, this.domain3DMin, this.domain3DMax)
+                if (interpolation === 'trilinear') {
+                    this.lookupTrilinear(rgb)
+                } else {
+                    this.lookupTetrahedral(rgb)
+                }
+            }
+
+            for (let c = 0; c < 3; c++) {
+                const out = Math.round(rgb[c] * 255)
+                pixels[i + c] = out < 0 ? 0 : out > 255 ? 255 : out
+            }
+        }
+
+        return pixels
+    }
+
+    private lookup1D(rgb: RGB): void {
+        const table = this.table1D!
+        const max = this.size1D - 1
+
+        for (let c = 0; c < 3; c++) {
+            const pos = rgb[c] * max
+            const i0 = Math.floor(pos)
+            const i1 = Math.min(i0 + 1, max)
+            const t = pos - i0
+            rgb[c] = table[i0 * 3 + c] * (1 - t) + table[i1 * 3 + c] * t
+        }
+    }
+
+    // 3D table index: red changes fastest, then green, then blue
+    private index3D(r: number, g: number, b: number): number {
+        const n = this.size3D
+        return (r + g * n + b * n * n) * 3
+    }
+
+    private lookupTrilinear(rgb: RGB): void {
+        const table = this.table3D!
+        const max = this.size3D - 1
+
+        const pr = rgb[0] * max, pg = rgb[1] * max, pb = rgb[2] * max
+        const r0 = Math.floor(pr), g0 = Math.floor(pg), b0 = Math.floor(pb)
+        const r1 = Math.min(r0 + 1, max), g1 = Math.min(g0 + 1, max), b1 = Math.min(b0 + 1, max)
+        const fr = pr - r0, fg = pg - g0, fb = pb - b0
+
+        for (let c = 0; c < 3; c++) {
+            const c000 = table[this.index3D(r0, g0, b0) + c]
+            const c100 = table[this.index3D(r1, g0, b0) + c]
+            const c010 = table[this.index3D(r0, g1, b0) + c]
+            const c110 = table[this.index3D(r1, g1, b0) + c]
+            const c001 = table[this.index3D(r0, g0, b1) + c]
+            const c101 = table[this.index3D(r1, g0, b1) + c]
+            const c011 = table[this.index3D(r0, g1, b1) + c]
+            const c111 = table[this.index3D(r1, g1, b1) + c]
+
+            const c00 = c000 + (c100 - c000) * fr
+            const c10 = c010 + (c110 - c010) * fr
+            const c01 = c001 + (c101 - c001) * fr
+            const c11 = c011 + (c111 - c011) * fr
+            const c0 = c00 + (c10 - c00) * fg
+            const c1 = c01 + (c11 - c01) * fg
+            rgb[c] = c0 + (c1 - c0) * fb
+        }
+    }
+
+    private lookupTetrahedral(rgb: RGB): void {
+        const table = this.table3D!
+        const max = this.size3D - 1
+
+        const pr = rgb[0] * max, pg = rgb[1] * max, pb = rgb[2] * max
+        const r0 = Math.floor(pr), g0 = Math.floor(pg), b0 = Math.floor(pb)
+        const r1 = Math.min(r0 + 1, max), g1 = Math.min(g0 + 1, max), b1 = Math.min(b0 + 1, max)
+        const fr = pr - r0, fg = pg - g0, fb = pb - b0
+
+        const i000 = this.index3D(r0, g0, b0)
+        const i111 = this.index3D(r1, g1, b1)
+
+        // Pick the tetrahedron containing the point and its two intermediate vertices
+        let iA: number, iB: number, wA: number, wB: number, wC: number
+        if (fr > fg) {
+            if (fg > fb) {
+                iA = this.index3D(r1, g0, b0); iB = this.index3D(r1, g1, b0)
+                wA = fr - fg; wB = fg - fb; wC = fb
+            } else if (fr > fb) {
+                iA = this.index3D(r1, g0, b0); iB = this.index3D(r1, g0, b1)
+                wA = fr - fb; wB = fb - fg; wC = fg
+            } else {
+                iA = this.index3D(r0, g0, b1); iB = this.index3D(r1, g0, b1)
+                wA = fb - fr; wB = fr - fg; wC = fg
+            }
+        } else {
+            if (fb > fg) {
+                iA = this.index3D(r0, g0, b1); iB = this.index3D(r0, g1, b1)
+                wA = fb - fg; wB = fg - fr; wC = fr
+            } else if (fb > fr) {
+                iA = this.index3D(r0, g1, b0); iB = this.index3D(r0, g1, b1)
+                wA = fg - fb; wB = fb - fr; wC = fr
+            } else {
+                iA = this.index3D(r0, g1, b0); iB = this.index3D(r1, g1, b0)
+                wA = fg - fr; wB = fr - fb; wC = fb
+            }
+        }
+
+        const w0 = 1 - wA - wB - wC
+        for (let c = 0; c < 3; c++) {
+            rgb[c] = table[i000 + c] * w0 +
+                table[iA + c] * wA +
+                table[iB + c] * wB +
+                table[i111 + c] * wC
+        }
+    }
+}
+
+/**
+ * Rescale a color from a stage's input domain to [0, 1], clamped so it stays inside the table
+ */
+function toUnitRange(rgb: RGB, min: RGB, max: RGB): void {
+    for (let c = 0; c < 3; c++) {
+        const range = max[c] - min[c] || 1
+        const v = (rgb[c] - min[c]) / range
+        rgb[c] = v < 0 ? 0 : v > 1 ? 1 : v
+    }
+}
@@ -0,0 +1,134 @@
+import { createReadStream, existsSync } from 'fs'
+import { fileURLToPath } from 'url'
+import { google, drive_v3 } from 'googleapis'
+import { SessionFile } from '@shared/types'
+
+/**
+ * DriveUploader - Uploads session files to a Google Drive folder
+ * Each session gets its own publicly viewable subfolder of the booth's
+ * Drive folder, using the service account in credentials.json.
+ */
+export class DriveUploader {
+    private drive: drive_v3.Drive | null = null
+
+    constructor(private parentFolderId: () => string, private credentialsPath: string) {}
+
+    /**
+     * Why uploads can't run, or null when Drive is set up
+     */
+    configError(): string | null {
+        if (!this.parentFolderId()) {
+            return 'Google Drive folder ID is not configured in the Admin Panel'
+        }
+        if (!existsSync(this.credentialsPath)) {
+            return `credentials.json not found at ${this.credentialsPath}`
+        }
+        return null
+    }
+
+    /**
+     * Create the session's folder and share it with anyone who has the link
+     */
+    async createSessionFolder(sessionId: string): Promise<{ id: string; url: string }> {
+        const drive = this.client()
+
+        console.log(`Creating Drive folder: Session_${sessionId}...`)
+        const folderRes = await drive.files.create({
+            requestBody: {
+                name: `Session_${sessionId}`,
+                mimeType: 'application/vnd.google-apps.folder',
+                parents: [this.parentFolderId()]
+            },
+            fields: 'id, webViewLink',
+            supportsAllDrives: true
+        })
+
+        const folderId = folderRes.data.id
+        if (!folderId) {
+            throw new Error('Failed to create session folder in Google Drive')
+        }
+
+        try {
+            await drive.permissions.create({
+                fileId: folderId,
+                requestBody: {
+                    role: 'reader',
+                    type: 'anyone'
+                },
+                supportsAllDrives: true
+            })
+        } catch (permError) {
+            console.warn('Failed to set public viewing permission. This might be restricted by your Google Workspace organization settings. Uploading will continue.', permError)
+        }
+
+        return { id: folderId, url: folderRes.data.webViewLink || '' }
+    }
+
+    /**
+     * Upload one file into a session folder, reporting bytes read as it goes.
+     * Returns null when the local file no longer exists.
+     */
+    async uploadFile(
+        folderId: string,
+        file: SessionFile,
+        onProgress?: (uploadedBytes: number) => void
+    ): Promise<{ id: string; url: string } | null> {
+        const filePath = toLocalPath(file.path)
+        if (!existsSync(filePath)) {
+            console.warn(`File not found for upload: ${filePath} (original: ${file.path})`)
+            return null
+        }
+
+        const body = createReadStream(filePath)
+        let uploadedBytes = 0
+        body.on('data', (chunk) => {
+            uploadedBytes += chunk.length
+            onProgress?.(uploadedBytes)
+        })
+
+        const uploadRes = await this.client().files.create({
+            requestBody: {
+                name: file.filename,
+                parents: [folderId]
+            },
+            media: {
+                mimeType: file.mimeType,
+                body
+            },
+            fields: 'id, webViewLink',
+            supportsAllDrives: true
+        })
+
+        return { id: uploadRes.data.id || '', url: uploadRes.data.webViewLink || '' }
+    }
+
+    private client(): drive_v3.Drive {
+        const error = this.configError()
+        if (error) {
+            throw new Error(error)
+        }
+
+        if (!this.drive) {
+            const auth = new google.auth.GoogleAuth({
+                keyFile: this.credentialsPath,
+                scopes: ['https://www.googleapis.com/auth/drive.file']
+            })
+            this.drive = google.drive({ version: 'v3', auth })
+        }
+        return this.drive
+    }
+}
+
+/**
+ * Normalize "file:///C:/..." paths from the renderer
+ */
+function toLocalPath(path: string): string {
+    if (!path.startsWith('file:///')) return path
+    try {
+        return fileURLToPath(path)
+    } catch (e) {
+        // Fallback manually stripping if URL parsing fails
+        const stripped = path.replace('file:///', '')
+        return process.platform === 'win32' ? stripped : '/' + stripped
+    }
+}
@@ -0,0 +1,129 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { basename, join } from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import { FrameConfig, FrameLayer } from '@shared/types'
+import { createZip, readZipFile, ZipEntry } from '../utils/zip'
+
+const PACKAGE_FORMAT = 'sebooth-frames'
+const PACKAGE_VERSION = 1
+const MANIFEST_NAME = 'frames.json'
+export const PACKAGE_EXTENSION = 'sbframes'
+
+// frames.json at the root of a package; asset paths are relative to the package
+interface FramePackageManifest {
+    format: typeof PACKAGE_FORMAT
+    version: number
+    exportedAt: number
+    frames: FrameConfig[]
+}
+
+/**
+ * FramePackager - Moves frame templates between booths
+ * A package is a zip holding frames.json plus every overlay and image layer
+ * the frames use, so nothing depends on this machine's absolute paths.
+ */
+export class FramePackager {
+    constructor(private framesDir: string) {}
+
+    /**
+     * Write the frames and their assets to a package file
+     */
+    exportFrames(frames: FrameConfig[], packagePath: string): void {
+        const entries: ZipEntry[] = []
+        // One archive entry per source file, even when several frames share it
+        const assetNames = new Map<string, string>()
+
+        const addAsset = (filePath: string): string => {
+            if (!filePath) return ''
+            const existing = assetNames.get(filePath)
+            if (existing) return existing
+            if (!existsSync(filePath)) {
+                throw new Error(`Frame asset not found: ${filePath}`)
+            }
+
+            const name = `assets/${assetNames.size + 1}_${basename(filePath).replace(/[^\w.-]/g, '_')}`
+            entries.push({ name, data: readFileSync(filePath) })
+            assetNames.set(filePath, name)
+            return name
+        }
+
+        const manifest: FramePackageManifest = {
+            format: PACKAGE_FORMAT,
+            version: PACKAGE_VERSION,
+            exportedAt: Date.now(),
+            frames: frames.map(frame => ({
+                ...frame,
+                overlayPath: addAsset(frame.overlayPath),
+                layers: frame.layers?.map(layer => layer.type === 'image' ? { ...layer, path: addAsset(layer.path) } : layer)
+            }))
+        }
+
+        entries.unshift({ name: MANIFEST_NAME, data: Buffer.from(JSON.stringify(manifest, null, 2)) })
+        writeFileSync(packagePath, createZip(entries))
+    }
+
+    /**
+     * Unpack a package into the frames folder. Frames and slots get fresh ids
+     * so importing the same package twice never collides with existing frames.
+     */
+    importPackage(packagePath: string): FrameConfig[] {
+        const entries = new Map(readZipFile(packagePath).map(entry => [entry.name, entry.data]))
+
+        const manifestData = entries.get(MANIFEST_NAME)
+        if (!manifestData) {
+            throw new Error('Not a Sebooth frame package')
+        }
+        const manifest = JSON.parse(manifestData.toString('utf8')) as FramePackageManifest
+        if (manifest.format !== PACKAGE_FORMAT || !Array.isArray(manifest.frames)) {
+            throw new Error('Not a Sebooth frame package')
+        }
+        if (manifest.version > PACKAGE_VERSION) {
+            throw new Error('This frame package was made by a newer version of Sebooth')
+        }
+
+        return manifest.frames.map(frame => {
+            const frameId = uuidv4()
+            const assetDir = join(this.framesDir, frameId)
+
+            // Only files listed in the manifest are written, and only by their base name
+            const extractAsset = (name: string): string => {
+                if (!name) return ''
+                const data = entries.get(name)
+                if (!data) {
+                    throw new Error(`Frame package is missing ${name}`)
+                }
+
+                if (!existsSync(assetDir)) {
+                    mkdirSync(assetDir, { recursive: true })
+                }
+                const filePath = join(assetDir, basename(name))
+                writeFileSync(filePath, data)
+                return filePath
+            }
+
+            const slotIds = new Map(frame.slots.map(slot => [slot.id, uuidv4()]))
+
+            return {
+                ...frame,
+                id: frameId,
+                overlayPath: extractAsset(frame.overlayPath),
+                slots: frame.slots.map(slot => ({
+                    ...slot,
+                    id: slotIds.get(slot.id)!,
+                    duplicateOfSlotId: slot.duplicateOfSlotId ? slotIds.get(slot.duplicateOfSlotId) : undefined
+                })),
+                layers: frame.layers?.map((layer): FrameLayer => layer.type === 'image'
+                    ? { ...layer, path: extractAsset(layer.path) }
+                    : layer)
+            }
+        })
+    }
+
+    /**
+     * Default package file name for an export
+     */
+    static packageName(frames: FrameConfig[]): string {
+        const base = frames.length === 1 ? frames[0].name : `frames_${frames.length}`
+        return `${base.replace(/[^\w -]/g, '').trim() || 'frames'}.${PACKAGE_EXTENSION}`
+    }
+}
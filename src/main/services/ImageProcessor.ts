@@ -1,12 +1,55 @@
 import sharp from 'sharp'
-import { existsSync, mkdirSync } from 'fs'
-import { dirname } from 'path'
-import { PhotoSlot } from '@shared/types'
+import { existsSync, mkdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs'
+import { dirname, join } from 'path'
+import ffmpeg from 'fluent-ffmpeg'
+import ffmpegPath from '@ffmpeg-installer/ffmpeg'
+import {
+    PhotoSlot,
+    FrameConfig,
+    GifOptions,
+    ImageFilterOptions,
+    PhotoCrop,
+    FrameLayer,
+    FrameTextLayer,
+    FrameTextValues,
+    RenderedSlot,
+    SessionRenderResult
+} from '@shared/types'
+import { getCropRect } from '@shared/crop'
+import { fillTextTokens, getFrameLayers, splitFrameLayers } from '@shared/frameLayers'
+import { CubeLut, LutInterpolation } from './CubeLut'
+import createLutWorker from '../workers/lut.worker?nodeWorker'
+import type { LutWorkerData } from '../workers/lut.worker'
+import { setGifFrameDelays } from '../utils/gif'
+
+ffmpeg.setFfmpegPath(ffmpegPath.path)
+
+// Give up shrinking an oversized GIF after this many encodes / below this width
+const GIF_MAX_ENCODE_ATTEMPTS = 4
+const GIF_MIN_WIDTH = 240
+
+function removeFiles(paths: string[]): void {
+    for (const path of paths) {
+        rmSync(path, { force: true })
+    }
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+}
 
 /**
  * ImageProcessor - Handles image manipulation using Sharp
  */
 export class ImageProcessor {
+    // Newest render per session folder; every filter or crop change renders again,
+    // so the files of the render it replaces are removed
+    private sessionRenders = new Map<string, { order: number; files: string[] }>()
+    private renderCount = 0
 
     /**
      * Ensure output directory exists
@@ -22,7 +65,7 @@ export class ImageProcessor {
      * Composite multiple photos with a frame overlay
      */
     async composite(
-        photos: { path: string; slot: PhotoSlot }[],
+        photos: { path: string; slot: PhotoSlot; crop?: PhotoCrop }[],
         framePath: string,
         outputPath: string,
         canvasWidth: number,
@@ -30,64 +73,270 @@ export class ImageProcessor {
     ): Promise<string> {
         this.ensureDir(outputPath)
 
-        // Create base canvas
-        let canvas = sharp({
+        const layers: sharp.OverlayOptions[] = []
+        for (const photo of photos) {
+            if (!existsSync(photo.path)) continue
+            const layer = await this.placeInSlot(photo.path, photo.slot, canvasWidth, canvasHeight, photo.crop)
+            if (layer) layers.push(layer)
+        }
+
+        const overlay = await this.overlayLayer(framePath, canvasWidth, canvasHeight)
+        if (overlay) layers.push(overlay)
+
+        await this.blankCanvas(canvasWidth, canvasHeight)
+            .composite(layers)
+            .jpeg({ quality: 95 })
+            .toFile(outputPath)
+
+        return outputPath
+    }
+
+    /**
+     * Render a session at full resolution: the composited strip, each captured
+     * photo cropped to its slot, and thumbnails of both
+     */
+    async renderSession(
+        photos: { slotId: string; input: string | Buffer; crop?: PhotoCrop }[],
+        frame: FrameConfig,
+        outputDir: string,
+        options: { filter?: ImageFilterOptions; thumbnailWidth?: number; textValues?: FrameTextValues } = {}
+    ): Promise<SessionRenderResult> {
+        if (!existsSync(outputDir)) {
+            mkdirSync(outputDir, { recursive: true })
+        }
+
+        const order = ++this.renderCount
+        const stamp = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+        const thumbnailWidth = options.thumbnailWidth || 400
+        const hasFilter = !!options.filter && Object.keys(options.filter).length > 0
+
+        // Crop each captured photo to its slot once, keeping the source resolution
+        const crops = new Map<string, Buffer>()
+        const slots: RenderedSlot[] = []
+        for (const slot of frame.slots) {
+            if (slot.duplicateOfSlotId) continue
+            const photo = photos.find(p => p.slotId === slot.id)
+            if (!photo || (typeof photo.input === 'string' && !existsSync(photo.input))) continue
+
+            let image = await this.cropToAspect(photo.input, slot.width / slot.height, photo.crop)
+            if (hasFilter) {
+                image = this.adjust(image, options.filter!)
+            }
+            const crop = await image.jpeg({ quality: 95 }).toBuffer()
+            crops.set(slot.id, crop)
+
+            const path = join(outputDir, `slot_${slot.id}_${stamp}.jpg`)
+            const thumbnailPath = join(outputDir, `slot_${slot.id}_${stamp}_thumb.jpg`)
+            writeFileSync(path, crop)
+            await this.writeThumbnail(crop, thumbnailPath, thumbnailWidth)
+            slots.push({ slotId: slot.id, path, thumbnailPath })
+        }
+
+        // Template layers under the photos, the photos (duplicate slots reuse their
+        // source slot's crop), then the layers over them
+        const plates = await this.renderLayerPlates(frame, options.textValues)
+        const layers: sharp.OverlayOptions[] = []
+        if (plates.under) layers.push({ input: plates.under, left: 0, top: 0 })
+        for (const slot of frame.slots) {
+            const crop = crops.get(slot.duplicateOfSlotId || slot.id)
+            if (!crop) continue
+            const layer = await this.placeInSlot(crop, slot, frame.canvasWidth, frame.canvasHeight)
+            if (layer) layers.push(layer)
+        }
+        if (plates.over) layers.push({ input: plates.over, left: 0, top: 0 })
+
+        const stripPath = join(outputDir, `strip_${stamp}.jpg`)
+        const stripThumbnailPath = join(outputDir, `strip_${stamp}_thumb.jpg`)
+        const strip = await this.blankCanvas(frame.canvasWidth, frame.canvasHeight)
+            .composite(layers)
+            .jpeg({ quality: 95, chromaSubsampling: '4:4:4' })
+            .toBuffer()
+        writeFileSync(stripPath, strip)
+        await this.writeThumbnail(strip, stripThumbnailPath, thumbnailWidth)
+
+        // A render that started later may already have finished; then this one is the stale one
+        const files = [stripPath, stripThumbnailPath, ...slots.flatMap(slot => [slot.path, slot.thumbnailPath])]
+        const previous = this.sessionRenders.get(outputDir)
+        if (previous && previous.order > order) {
+            removeFiles(files)
+        } else {
+            this.sessionRenders.set(outputDir, { order, files })
+            if (previous) removeFiles(previous.files)
+        }
+
+        return {
+            stripPath,
+            stripThumbnailPath,
+            width: frame.canvasWidth,
+            height: frame.canvasHeight,
+            slots
+        }
+    }
+
+    /**
+     * Flatten a frame's template layers into two transparent canvas-sized PNGs:
+     * everything under the photos and everything over them (null when empty)
+     */
+    async renderLayerPlates(
+        frame: Pick<FrameConfig, 'overlayPath' | 'layers' | 'canvasWidth' | 'canvasHeight'>,
+        textValues?: FrameTextValues
+    ): Promise<{ under: Buffer | null; over: Buffer | null }> {
+        const { under, over } = splitFrameLayers(getFrameLayers(frame))
+        return {
+            under: await this.flattenLayers(under, frame.canvasWidth, frame.canvasHeight, textValues),
+            over: await this.flattenLayers(over, frame.canvasWidth, frame.canvasHeight, textValues)
+        }
+    }
+
+    private async flattenLayers(
+        layers: FrameLayer[],
+        canvasWidth: number,
+        canvasHeight: number,
+        textValues?: FrameTextValues
+    ): Promise<Buffer | null> {
+        const inputs: sharp.OverlayOptions[] = []
+        for (const layer of layers) {
+            if (layer.type === 'image') {
+                const image = await this.overlayLayer(layer.path, canvasWidth, canvasHeight)
+                if (image) inputs.push(image)
+            } else if (layer.type === 'text') {
+                const text = fillTextTokens(layer.text, textValues)
+                if (!text.trim()) continue
+                inputs.push({
+                    input: Buffer.from(this.textLayerSvg(layer, text, canvasWidth, canvasHeight)),
+                    left: 0,
+                    top: 0
+                })
+            }
+        }
+        if (inputs.length === 0) return null
+
+        return sharp({
             create: {
                 width: canvasWidth,
                 height: canvasHeight,
                 channels: 4,
-                background: { r: 255, g: 255, b: 255, alpha: 1 }
+                background: { r: 0, g: 0, b: 0, alpha: 0 }
             }
         })
+            .composite(inputs)
+            .png()
+            .toBuffer()
+    }
 
-        // Prepare photo layers
-        const photoLayers: sharp.OverlayOptions[] = []
+    /**
+     * Single-line text in its box, matching the editor preview (line-height 1,
+     * baseline at roughly 0.8em, rotated about the box centre)
+     */
+    private textLayerSvg(layer: FrameTextLayer, text: string, canvasWidth: number, canvasHeight: number): string {
+        const anchor = layer.align === 'left' ? 'start' : layer.align === 'right' ? 'end' : 'middle'
+        const x = layer.align === 'left' ? layer.x : layer.align === 'right' ? layer.x + layer.width : layer.x + layer.width / 2
+        const baseline = layer.y + layer.fontSize * 0.8
+        const centreX = layer.x + layer.width / 2
+        const centreY = layer.y + layer.fontSize / 2
+
+        return `<svg xmlns="http://www.w3.org/2000/svg" width="${canvasWidth}" height="${canvasHeight}">
+            <text x="${x}" y="${baseline}" text-anchor="${anchor}"
+                font-family="${escapeXml(layer.fontFamily)}" font-size="${layer.fontSize}"
+                font-weight="${layer.fontWeight}" fill="${escapeXml(layer.color)}"
+                transform="rotate(${layer.rotation || 0} ${centreX} ${centreY})"
+                xml:space="preserve">${escapeXml(text)}</text>
+        </svg>`
+    }
 
-        for (const photo of photos) {
-            if (!existsSync(photo.path)) continue
+    /**
+     * White canvas the layers are composited onto
+     */
+    private blankCanvas(width: number, height: number): sharp.Sharp {
+        return sharp({
+            create: {
+                width,
+                height,
+                channels: 4,
+                background: { r: 255, g: 255, b: 255, alpha: 1 }
+            }
+        })
+    }
 
-            // Resize and rotate photo to fit slot
-            // Calculate dimensions to COVER the slot while maintaining aspect ratio
-            const slotRatio = photo.slot.width / photo.slot.height
-
-            // We use sharp's resize with fit: 'cover' which does center cropping automatically
-            const photoBuffer = await sharp(photo.path)
-                .rotate(photo.slot.rotation || 0)
-                .resize({
-                    width: Math.round(photo.slot.width),
-                    height: Math.round(photo.slot.height),
-                    fit: 'cover',
-                    position: 'center'
-                })
-                .toBuffer()
+    /**
+     * The part of a photo (after EXIF rotation) a slot of this aspect shows,
+     * honouring the guest's pan/zoom
+     */
+    private async cropToAspect(input: string | Buffer, aspect: number, crop?: PhotoCrop): Promise<sharp.Sharp> {
+        const { data, info } = await sharp(input).rotate().toBuffer({ resolveWithObject: true })
+        return sharp(data).extract(getCropRect(info.width, info.height, aspect, crop))
+    }
 
-            photoLayers.push({
-                input: photoBuffer,
-                left: Math.round(photo.slot.x),
-                top: Math.round(photo.slot.y)
+    /**
+     * Fit a photo's crop to a slot and rotate it about the slot centre, matching
+     * the frame editor. Parts rotated past the canvas edge are clipped.
+     */
+    private async placeInSlot(
+        input: string | Buffer,
+        slot: PhotoSlot,
+        canvasWidth: number,
+        canvasHeight: number,
+        crop?: PhotoCrop
+    ): Promise<sharp.OverlayOptions | null> {
+        const width = Math.max(1, Math.round(slot.width))
+        const height = Math.max(1, Math.round(slot.height))
+
+        const fitted = await (await this.cropToAspect(input, width / height, crop))
+            .resize(width, height, { fit: 'cover', position: 'centre' })
+            .toBuffer()
+        const { data, info } = await sharp(fitted)
+            .rotate(slot.rotation || 0, { background: { r: 0, g: 0, b: 0, alpha: 0 } })
+            .png()
+            .toBuffer({ resolveWithObject: true })
+
+        // Rotating grows the bounding box, so centre it on the slot's centre
+        const left = Math.round(slot.x + slot.width / 2 - info.width / 2)
+        const top = Math.round(slot.y + slot.height / 2 - info.height / 2)
+
+        const visibleLeft = Math.max(0, left)
+        const visibleTop = Math.max(0, top)
+        const visibleRight = Math.min(canvasWidth, left + info.width)
+        const visibleBottom = Math.min(canvasHeight, top + info.height)
+        if (visibleRight <= visibleLeft || visibleBottom <= visibleTop) return null
+
+        const clipped = await sharp(data)
+            .extract({
+                left: visibleLeft - left,
+                top: visibleTop - top,
+                width: visibleRight - visibleLeft,
+                height: visibleBottom - visibleTop
             })
-        }
+            .toBuffer()
+
+        return { input: clipped, left: visibleLeft, top: visibleTop }
+    }
 
-        // Add frame overlay on top if it exists
-        if (existsSync(framePath)) {
-            const frameBuffer = await sharp(framePath)
-                .resize(canvasWidth, canvasHeight, { fit: 'contain' })
-                .toBuffer()
+    /**
+     * Frame overlay contained (centred, not stretched) within the canvas
+     */
+    private async overlayLayer(
+        framePath: string,
+        canvasWidth: number,
+        canvasHeight: number
+    ): Promise<sharp.OverlayOptions | null> {
+        if (!framePath || !existsSync(framePath)) return null
 
-            photoLayers.push({
-                input: frameBuffer,
-                left: 0,
-                top: 0
+        const frameBuffer = await sharp(framePath)
+            .resize(canvasWidth, canvasHeight, {
+                fit: 'contain',
+                background: { r: 0, g: 0, b: 0, alpha: 0 }
             })
-        }
+            .png()
+            .toBuffer()
 
-        // Composite all layers
-        await canvas
-            .composite(photoLayers)
-            .jpeg({ quality: 95 })
-            .toFile(outputPath)
+        return { input: frameBuffer, left: 0, top: 0 }
+    }
 
-        return outputPath
+    private async writeThumbnail(input: Buffer, outputPath: string, width: number): Promise<void> {
+        await sharp(input)
+            .resize({ width, withoutEnlargement: true })
+            .jpeg({ quality: 80 })
+            .toFile(outputPath)
     }
 
     /**
@@ -115,23 +364,33 @@ export class ImageProcessor {
     async applyFilter(
         inputPath: string,
         outputPath: string,
-        filter: {
-            brightness?: number
-            contrast?: number
-            saturation?: number
-            grayscale?: boolean
-            sepia?: boolean
-        }
+        filter: ImageFilterOptions
     ): Promise<string> {
         this.ensureDir(outputPath)
 
-        let image = sharp(inputPath)
+        await this.adjust(sharp(inputPath), filter)
+            .jpeg({ quality: 95 })
+            .toFile(outputPath)
+
+        return outputPath
+    }
+
+    /**
+     * Apply contrast, brightness/saturation/hue, grayscale and sepia adjustments
+     * to a pipeline, in the order the preview's CSS filters apply them
+     */
+    private adjust(image: sharp.Sharp, filter: ImageFilterOptions): sharp.Sharp {
+        // contrast() scales around mid-grey
+        if (filter.contrast !== undefined && filter.contrast !== 1) {
+            image = image.linear(filter.contrast, 128 * (1 - filter.contrast))
+        }
 
-        // Apply modulate for brightness/saturation
-        if (filter.brightness !== undefined || filter.saturation !== undefined) {
+        // Apply modulate for brightness/saturation/hue
+        if (filter.brightness !== undefined || filter.saturation !== undefined || filter.hue) {
             image = image.modulate({
                 brightness: filter.brightness || 1,
-                saturation: filter.saturation || 1
+                saturation: filter.saturation || 1,
+                hue: Math.round(filter.hue || 0)
             })
         }
 
@@ -140,76 +399,174 @@ export class ImageProcessor {
             image = image.grayscale()
         }
 
-        // Apply sepia (grayscale + tint)
-        if (filter.sepia) {
-            image = image.grayscale().tint({ r: 112, g: 66, b: 20 })
+        // Apply sepia (tint keeps luminance and replaces the chroma; adding
+        // grayscale() here would force a b-w output and drop the tint)
+        if (filter.sepia === true && !filter.grayscale) {
+            image = image.tint({ r: 112, g: 66, b: 20 })
+        } else if (typeof filter.sepia === 'number' && filter.sepia > 0) {
+            image = image.recomb(sepiaMatrix(Math.min(1, filter.sepia)))
         }
 
-        await image.jpeg({ quality: 95 }).toFile(outputPath)
-
-        return outputPath
+        return image
     }
 
     /**
-     * Generate animated GIF from multiple images
-     * Note: Sharp doesn't support GIF animation natively
-     * This creates a simple slideshow-style output
+     * Apply a .cube LUT (1D and/or 3D) to an image
      */
-    async generateGif(
-        imagePaths: string[],
+    async applyLut(
+        input: string | Buffer,
         outputPath: string,
-        _delay: number = 500,
-        width: number = 800,
-        height: number = 600
+        cubePath: string,
+        interpolation: LutInterpolation = 'tetrahedral'
     ): Promise<string> {
+        if (!existsSync(cubePath)) {
+            throw new Error(`LUT file not found: ${cubePath}`)
+        }
+
         this.ensureDir(outputPath)
 
-        // For now, create a horizontal strip of images as a "GIF" placeholder
-        // Full GIF animation would require additional library like gifski
+        // Parse here so a broken file fails before the worker starts
+        CubeLut.load(cubePath)
+
+        // Auto-orient first so EXIF rotation survives the raw round-trip
+        const { data, info } = await sharp(input)
+            .rotate()
+            .removeAlpha()
+            .toColourspace('srgb')
+            .raw()
+            .toBuffer({ resolveWithObject: true })
+
+        const workerData: LutWorkerData = { pixels: data, channels: info.channels, cubePath, interpolation }
+        const graded = await new Promise<Uint8Array>((resolve, reject) => {
+            const worker = createLutWorker({ workerData })
+            worker.once('message', resolve)
+            worker.once('error', reject)
+            worker.once('exit', code => {
+                if (code !== 0) reject(new Error(`LUT worker stopped with exit code ${code}`))
+            })
+        })
+
+        await sharp(Buffer.from(graded.buffer, graded.byteOffset, graded.byteLength), {
+            raw: {
+                width: info.width,
+                height: info.height,
+                channels: info.channels
+            }
+        })
+            .jpeg({ quality: 95 })
+            .toFile(outputPath)
 
-        const validPaths = imagePaths.filter(p => existsSync(p))
+        return outputPath
+    }
 
-        if (validPaths.length === 0) {
+    /**
+     * Generate an animated GIF from multiple images using ffmpeg's two-pass palette
+     * Frames are cover-fitted (or cropped per options.crops) to the target size; if maxBytes is set the GIF is
+     * re-encoded at smaller sizes until it fits.
+     */
+    async generateGif(
+        inputs: (string | Buffer)[],
+        outputPath: string,
+        options: GifOptions = {}
+    ): Promise<string> {
+        // Keep each frame's crop paired with it when missing files are dropped
+        const valid = inputs
+            .map((input, index) => ({ input, crop: options.crops?.[index] }))
+            .filter(frame => typeof frame.input !== 'string' || existsSync(frame.input))
+        const frames = valid.map(frame => frame.input)
+        const crops = valid.map(frame => frame.crop)
+        if (frames.length === 0) {
             throw new Error('No valid images provided')
         }
 
-        if (validPaths.length === 1) {
-            // Just resize and save the single image
-            await sharp(validPaths[0])
-                .resize(width, height, { fit: 'cover' })
-                .toFile(outputPath)
+        this.ensureDir(outputPath)
+        const workDir = join(dirname(outputPath), `.gif_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`)
+        mkdirSync(workDir, { recursive: true })
+
+        try {
+            let width = options.width || 800
+            let height = options.height || 600
+
+            for (let attempt = 1; ; attempt++) {
+                await this.encodeGif(frames, workDir, outputPath, width, height, { ...options, crops })
+
+                const size = statSync(outputPath).size
+                if (!options.maxBytes || size <= options.maxBytes) break
+                if (attempt >= GIF_MAX_ENCODE_ATTEMPTS || width <= GIF_MIN_WIDTH) {
+                    console.warn(`GIF is ${size} bytes, over the ${options.maxBytes} byte target`)
+                    break
+                }
+
+                // File size scales roughly with pixel count
+                const scale = Math.sqrt(options.maxBytes / size) * 0.95
+                const nextWidth = Math.max(GIF_MIN_WIDTH, Math.round(width * scale))
+                height = Math.max(1, Math.round(height * nextWidth / width))
+                width = nextWidth
+            }
+
             return outputPath
+        } finally {
+            rmSync(workDir, { recursive: true, force: true })
         }
+    }
 
-        // Create a horizontal strip for multiple images
-        const stripWidth = width * validPaths.length
-        const buffers: sharp.OverlayOptions[] = []
-
-        for (let i = 0; i < validPaths.length; i++) {
-            const buffer = await sharp(validPaths[i])
-                .resize(width, height, { fit: 'cover' })
-                .toBuffer()
-
-            buffers.push({
-                input: buffer,
-                left: i * width,
-                top: 0
-            })
+    /**
+     * Render frames to PNG, encode them at a fixed rate, then write the real
+     * per-frame delays into the GIF
+     */
+    private async encodeGif(
+        frames: (string | Buffer)[],
+        workDir: string,
+        outputPath: string,
+        width: number,
+        height: number,
+        options: GifOptions
+    ): Promise<void> {
+        const overlay = options.overlayPath && existsSync(options.overlayPath)
+            ? await sharp(options.overlayPath).resize(width, height, { fit: 'fill' }).png().toBuffer()
+            : null
+
+        for (let i = 0; i < frames.length; i++) {
+            const cropped = await this.cropToAspect(frames[i], width / height, options.crops?.[i])
+            let image = this.adjust(
+                cropped.resize(width, height, { fit: 'cover' }),
+                options.filter || {}
+            )
+            if (overlay) {
+                image = sharp(await image.png().toBuffer()).composite([{ input: overlay }])
+            }
+            await image.png().toFile(join(workDir, `frame_${i}.png`))
         }
 
-        await sharp({
-            create: {
-                width: stripWidth,
-                height: height,
-                channels: 4,
-                background: { r: 0, g: 0, b: 0, alpha: 1 }
-            }
+        const dither = options.dither || 'bayer'
+        const ditherArgs = dither === 'bayer' ? 'dither=bayer:bayer_scale=5' : `dither=${dither}`
+
+        await new Promise<void>((resolve, reject) => {
+            ffmpeg()
+                .input(join(workDir, 'frame_%d.png'))
+                .inputOptions(['-framerate 1'])
+                .complexFilter([
+                    '[0:v]split[v1][v2]',
+                    '[v1]palettegen=stats_mode=diff[pal]',
+                    `[v2][pal]paletteuse=${ditherArgs}[outv]`
+                ].join(';'))
+                .outputOptions([
+                    '-map [outv]',
+                    `-loop ${options.loop ?? 0}`
+                ])
+                .save(outputPath)
+                .on('end', () => resolve())
+                .on('error', (err: Error) => reject(err))
         })
-            .composite(buffers)
-            .jpeg({ quality: 90 })
-            .toFile(outputPath.replace('.gif', '.jpg'))
 
-        return outputPath.replace('.gif', '.jpg')
+        // ffmpeg only supports a constant frame rate, so set each delay afterwards
+        const delays = Array.isArray(options.delay) ? options.delay : [options.delay ?? 500]
+        const gif = readFileSync(outputPath)
+        const frameCount = setGifFrameDelays(gif, delays)
+        if (frameCount !== frames.length) {
+            console.warn(`GIF has ${frameCount} frames, expected ${frames.length}`)
+        }
+        writeFileSync(outputPath, gif)
     }
 
     /**
@@ -229,3 +586,13 @@ export class ImageProcessor {
         }
     }
 }
+
+// The sepia() colour matrix from the Filter Effects spec, blended with identity by amount
+function sepiaMatrix(amount: number): [[number, number, number], [number, number, number], [number, number, number]] {
+    const keep = 1 - amount
+    return [
+        [0.393 + 0.607 * keep, 0.769 - 0.769 * keep, 0.189 - 0.189 * keep],
+        [0.349 - 0.349 * keep, 0.686 + 0.314 * keep, 0.168 - 0.168 * keep],
+        [0.272 - 0.272 * keep, 0.534 - 0.534 * keep, 0.131 + 0.869 * keep]
+    ]
+}
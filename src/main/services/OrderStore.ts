@@ -0,0 +1,121 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { PaymentCharge, PaymentOrder, PaymentStatus, PaymentUpdateSource, VoucherRedemption } from '@shared/types'
+
+const STORE_VERSION = 1
+const SAVE_DELAY_MS = 300
+
+interface OrderStoreFile {
+    version: number
+    orders: PaymentOrder[]
+}
+
+/**
+ * OrderStore - Persisted log of every payment order created on this booth
+ * Status changes can arrive from the booth itself, from polling or from the
+ * provider's webhook, in any order; the store keeps the latest real state
+ * and notifies listeners whenever it changes.
+ */
+export class OrderStore {
+    private filePath = ''
+    private orders = new Map<string, PaymentOrder>()
+    private listeners = new Set<(order: PaymentOrder) => void>()
+    private saveTimer: ReturnType<typeof setTimeout> | null = null
+
+    load(dataDir: string): void {
+        if (!existsSync(dataDir)) {
+            mkdirSync(dataDir, { recursive: true })
+        }
+        this.filePath = join(dataDir, 'payment-orders.json')
+        if (!existsSync(this.filePath)) return
+
+        try {
+            const file: OrderStoreFile = JSON.parse(readFileSync(this.filePath, 'utf-8'))
+            file.orders.forEach(order => this.orders.set(order.orderId, order))
+        } catch (error) {
+            console.error('Failed to read payment orders, starting empty:', error)
+            renameSync(this.filePath, `${this.filePath}.corrupt-${Date.now()}`)
+        }
+    }
+
+    get(orderId: string): PaymentOrder | null {
+        return this.orders.get(orderId) ?? null
+    }
+
+    /**
+     * Add a charge the booth just created, with the voucher taken off its amount
+     */
+    record(charge: PaymentCharge, voucher?: VoucherRedemption): PaymentOrder {
+        const order: PaymentOrder = { ...charge, voucher, createdAt: Date.now(), source: 'booth' }
+        this.orders.set(order.orderId, order)
+        this.scheduleSave()
+        return order
+    }
+
+    /**
+     * Apply a status report to a known order; returns null for orders this booth didn't create.
+     * Reports that would move a finished order backwards (e.g. a late "pending") are ignored.
+     */
+    update(charge: PaymentCharge, source: PaymentUpdateSource): PaymentOrder | null {
+        const existing = this.orders.get(charge.orderId)
+        if (!existing) return null
+        if (!canTransition(existing.status, charge.status)) return existing
+
+        // Status reports don't carry the QR, so keep what the charge returned
+        const order: PaymentOrder = {
+            ...existing,
+            transactionId: charge.transactionId ?? existing.transactionId,
+            operatorId: charge.operatorId ?? existing.operatorId,
+            status: charge.status,
+            updatedAt: charge.updatedAt,
+            source
+        }
+
+        this.orders.set(order.orderId, order)
+        this.scheduleSave()
+        this.listeners.forEach(listener => listener(order))
+        return order
+    }
+
+    /**
+     * Listen for status changes; returns an unsubscribe function
+     */
+    subscribe(listener: (order: PaymentOrder) => void): () => void {
+        this.listeners.add(listener)
+        return () => this.listeners.delete(listener)
+    }
+
+    /**
+     * Write pending changes now (also called on quit)
+     */
+    flush(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer)
+            this.saveTimer = null
+        }
+        if (!this.filePath) return
+
+        try {
+            const file: OrderStoreFile = { version: STORE_VERSION, orders: Array.from(this.orders.values()) }
+            const tempPath = `${this.filePath}.tmp`
+            writeFileSync(tempPath, JSON.stringify(file))
+            renameSync(tempPath, this.filePath)
+        } catch (error) {
+            console.error('Failed to save payment orders:', error)
+        }
+    }
+
+    private scheduleSave(): void {
+        if (this.saveTimer) clearTimeout(this.saveTimer)
+        this.saveTimer = setTimeout(() => this.flush(), SAVE_DELAY_MS)
+    }
+}
+
+// Pending orders can end any way; paid orders can still be refunded
+function canTransition(from: PaymentStatus, to: PaymentStatus): boolean {
+    if (from === to) return false
+    if (from === 'pending') return true
+    return from === 'settled' && to === 'refunded'
+}
+
+export const orderStore = new OrderStore()
@@ -0,0 +1,205 @@
+import sharp from 'sharp'
+import { existsSync, mkdirSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+import { jpegToPdf } from '../utils/pdf'
+import { PaperProfile, PrintLayoutRotation, PrintLayoutResult } from '@shared/types'
+
+interface Rect {
+    left: number
+    top: number
+    width: number
+    height: number
+}
+
+/**
+ * PrintLayout - Places a finished strip/photo onto a paper profile's sheet,
+ * handling DPI, bleed, margins, rotation, duplication and crop marks
+ */
+export class PrintLayout {
+
+    /**
+     * Render a print-ready JPEG or PDF for the given paper profile
+     */
+    async render(
+        input: string | Buffer,
+        outputPath: string,
+        profile: PaperProfile,
+        options: {
+            format?: 'jpeg' | 'pdf'
+            rotation?: PrintLayoutRotation
+            cropMarks?: boolean
+        } = {}
+    ): Promise<PrintLayoutResult> {
+        const dir = dirname(outputPath)
+        if (!existsSync(dir)) {
+            mkdirSync(dir, { recursive: true })
+        }
+
+        const dpi = profile.dpi
+        const bleed = Math.round(profile.bleedInches * dpi)
+        const margin = Math.round(profile.marginInches * dpi)
+        const trimWidth = Math.round(profile.widthInches * dpi)
+        const trimHeight = Math.round(profile.heightInches * dpi)
+
+        // The file covers the trim size plus bleed on every side
+        const sheetWidth = trimWidth + bleed * 2
+        const sheetHeight = trimHeight + bleed * 2
+
+        const cells = this.getCells(profile, bleed, margin, trimWidth, trimHeight)
+        const source = await sharp(input).rotate().toBuffer({ resolveWithObject: true })
+
+        const composites: sharp.OverlayOptions[] = []
+        for (const cell of cells) {
+            const angle = this.resolveRotation(
+                options.rotation ?? 'auto',
+                source.info.width,
+                source.info.height,
+                cell
+            )
+            const image = await sharp(source.data)
+                .rotate(angle)
+                .resize(cell.width, cell.height, { fit: 'cover', position: 'centre' })
+                .toBuffer()
+            composites.push({ input: image, left: cell.left, top: cell.top })
+        }
+
+        if (options.cropMarks ?? profile.cropMarks) {
+            composites.push({
+                input: Buffer.from(this.cropMarksSvg(profile, bleed, margin, sheetWidth, sheetHeight)),
+                left: 0,
+                top: 0
+            })
+        }
+
+        const jpeg = await sharp({
+            create: {
+                width: sheetWidth,
+                height: sheetHeight,
+                channels: 3,
+                background: { r: 255, g: 255, b: 255 }
+            }
+        })
+            .composite(composites)
+            .withMetadata({ density: dpi })
+            .jpeg({ quality: 95, chromaSubsampling: '4:4:4' })
+            .toBuffer()
+
+        if (options.format === 'pdf') {
+            const pdf = jpegToPdf(
+                jpeg,
+                sheetWidth,
+                sheetHeight,
+                sheetWidth / dpi,
+                sheetHeight / dpi
+            )
+            writeFileSync(outputPath, pdf)
+        } else {
+            writeFileSync(outputPath, jpeg)
+        }
+
+        return {
+            path: outputPath,
+            widthPx: sheetWidth,
+            heightPx: sheetHeight,
+            media: profile.media
+        }
+    }
+
+    /**
+     * Split the printable area into side-by-side copies. Edges that meet the
+     * trim line extend into the bleed so nothing white shows after cutting.
+     */
+    private getCells(
+        profile: PaperProfile,
+        bleed: number,
+        margin: number,
+        trimWidth: number,
+        trimHeight: number
+    ): Rect[] {
+        const count = Math.max(1, profile.copiesPerSheet)
+        const areaWidth = trimWidth - margin * 2
+        const areaHeight = trimHeight - margin * 2
+        const cellWidth = areaWidth / count
+        const toEdge = margin === 0 ? bleed : 0
+
+        const cells: Rect[] = []
+        for (let i = 0; i < count; i++) {
+            const extendLeft = i === 0 ? toEdge : 0
+            const extendRight = i === count - 1 ? toEdge : 0
+            const left = Math.round(bleed + margin + i * cellWidth) - extendLeft
+            const right = Math.round(bleed + margin + (i + 1) * cellWidth) + extendRight
+            cells.push({
+                left,
+                top: bleed + margin - toEdge,
+                width: right - left,
+                height: areaHeight + toEdge * 2
+            })
+        }
+        return cells
+    }
+
+    /**
+     * Pick the rotation in degrees; 'auto' turns the image when its
+     * orientation doesn't match the cell it is placed in
+     */
+    private resolveRotation(
+        rotation: PrintLayoutRotation,
+        imageWidth: number,
+        imageHeight: number,
+        cell: Rect
+    ): number {
+        if (rotation !== 'auto') return rotation
+        const imageLandscape = imageWidth > imageHeight
+        const cellLandscape = cell.width > cell.height
+        return imageLandscape === cellLandscape ? 0 : 90
+    }
+
+    /**
+     * Short cut guides at the trim corners and at each split between copies,
+     * drawn in the bleed/margin area so they are trimmed away
+     */
+    private cropMarksSvg(
+        profile: PaperProfile,
+        bleed: number,
+        margin: number,
+        sheetWidth: number,
+        sheetHeight: number
+    ): string {
+        // Marks stay within the bleed/margin so they never reach the image past the trim line;
+        // only with neither is there a small mark over the image edge
+        const length = bleed + margin > 0 ? bleed + margin : Math.round(profile.dpi * 0.08)
+        const stroke = Math.max(1, Math.round(profile.dpi / 150))
+        const trimLeft = bleed
+        const trimRight = sheetWidth - bleed
+        const trimTop = bleed
+        const trimBottom = sheetHeight - bleed
+        const lines: string[] = []
+
+        const vertical = (x: number): void => {
+            lines.push(`<line x1="${x}" y1="0" x2="${x}" y2="${length}"/>`)
+            lines.push(`<line x1="${x}" y1="${sheetHeight - length}" x2="${x}" y2="${sheetHeight}"/>`)
+        }
+        const horizontal = (y: number): void => {
+            lines.push(`<line x1="0" y1="${y}" x2="${length}" y2="${y}"/>`)
+            lines.push(`<line x1="${sheetWidth - length}" y1="${y}" x2="${sheetWidth}" y2="${y}"/>`)
+        }
+
+        // Trim edges only need marking when there's bleed or margin to cut off
+        if (bleed > 0 || margin > 0) {
+            vertical(trimLeft)
+            vertical(trimRight)
+            horizontal(trimTop)
+            horizontal(trimBottom)
+        }
+
+        const count = Math.max(1, profile.copiesPerSheet)
+        const cellWidth = (trimRight - trimLeft - margin * 2) / count
+        for (let i = 1; i < count; i++) {
+            vertical(Math.round(trimLeft + margin + i * cellWidth))
+        }
+
+        return `<svg xmlns="http://www.w3.org/2000/svg" width="${sheetWidth}" height="${sheetHeight}">
+            <g stroke="black" stroke-width="${stroke}">${lines.join('')}</g>
+        </svg>`
+    }
+}
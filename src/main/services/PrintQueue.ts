@@ -0,0 +1,237 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync, copyFileSync, unlinkSync } from 'fs'
+import { join, extname } from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import { PrinterHandler } from '../handlers/PrinterHandler'
+import { PrintJob, PrintJobRequest } from '@shared/types'
+
+// Automatic attempts per job before it is left failed for the operator
+const MAX_AUTO_ATTEMPTS = 3
+const RETRY_DELAY_MS = 5000
+// Finished jobs kept in history (and their files on disk)
+const MAX_HISTORY = 500
+
+/**
+ * PrintQueue - Persistent, sequential print job queue
+ * Jobs survive restarts and failed prints can be retried from the admin dashboard.
+ */
+export class PrintQueue {
+    private jobs: PrintJob[] = []
+    private queuePath: string
+    private filesDir: string
+    private processing = false
+    private retryTimer: ReturnType<typeof setTimeout> | null = null
+
+    constructor(
+        dataDir: string,
+        private printer: PrinterHandler,
+        private onJobUpdated: (job: PrintJob) => void
+    ) {
+        this.queuePath = join(dataDir, 'print-queue.json')
+        this.filesDir = join(dataDir, 'print-jobs')
+        if (!existsSync(this.filesDir)) {
+            mkdirSync(this.filesDir, { recursive: true })
+        }
+        this.load()
+        this.processNext()
+    }
+
+    /**
+     * Load persisted jobs; anything that was mid-print when the app stopped is
+     * marked failed, since we can't know whether the printer finished it
+     */
+    private load(): void {
+        try {
+            if (!existsSync(this.queuePath)) return
+            this.jobs = JSON.parse(readFileSync(this.queuePath, 'utf-8'))
+
+            for (const job of this.jobs) {
+                if (job.status === 'printing') {
+                    job.status = 'failed'
+                    job.error = 'Interrupted by app restart'
+                    job.updatedAt = Date.now()
+                }
+            }
+            this.save()
+        } catch (error) {
+            console.error('Failed to load print queue:', error)
+            this.jobs = []
+        }
+    }
+
+    private save(): void {
+        try {
+            writeFileSync(this.queuePath, JSON.stringify(this.jobs, null, 2))
+        } catch (error) {
+            console.error('Failed to save print queue:', error)
+        }
+    }
+
+    private update(job: PrintJob, changes: Partial<PrintJob>): void {
+        Object.assign(job, changes, { updatedAt: Date.now() })
+        this.save()
+        this.onJobUpdated({ ...job })
+    }
+
+    /**
+     * Add a print job; the file is copied so the job outlives temp files
+     */
+    enqueue(request: PrintJobRequest): PrintJob {
+        if (!existsSync(request.filePath)) {
+            throw new Error(`File not found: ${request.filePath}`)
+        }
+
+        const id = uuidv4()
+        const filePath = join(this.filesDir, `${id}${extname(request.filePath) || '.jpg'}`)
+        copyFileSync(request.filePath, filePath)
+
+        const now = Date.now()
+        const job: PrintJob = {
+            id,
+            sessionId: request.sessionId,
+            filePath,
+            copies: Math.max(1, request.copies || 1),
+            copiesPrinted: 0,
+            printer: request.printer,
+            media: request.media,
+            status: 'queued',
+            attempts: 0,
+            createdAt: now,
+            updatedAt: now
+        }
+
+        this.jobs.push(job)
+        this.prune()
+        this.save()
+        this.onJobUpdated({ ...job })
+        this.processNext()
+        return { ...job }
+    }
+
+    /**
+     * List jobs, newest first
+     */
+    list(sessionId?: string): PrintJob[] {
+        return this.jobs
+            .filter(job => !sessionId || job.sessionId === sessionId)
+            .map(job => ({ ...job }))
+            .reverse()
+    }
+
+    /**
+     * Requeue a failed or cancelled job, resuming from the copies already printed
+     */
+    retry(jobId: string): PrintJob {
+        const job = this.findJob(jobId)
+        if (job.status !== 'failed' && job.status !== 'cancelled') {
+            throw new Error(`Cannot retry a ${job.status} job`)
+        }
+        if (!existsSync(job.filePath)) {
+            throw new Error('Print file no longer exists')
+        }
+
+        // Manual retries get a fresh set of automatic attempts
+        this.update(job, { status: 'queued', attempts: 0, error: undefined })
+        this.processNext()
+        return { ...job }
+    }
+
+    /**
+     * Cancel a job that hasn't started printing
+     */
+    cancel(jobId: string): PrintJob {
+        const job = this.findJob(jobId)
+        if (job.status === 'printing') {
+            throw new Error('Job is already printing')
+        }
+        if (job.status === 'completed') {
+            throw new Error('Job already completed')
+        }
+
+        this.update(job, { status: 'cancelled' })
+        return { ...job }
+    }
+
+    private findJob(jobId: string): PrintJob {
+        const job = this.jobs.find(j => j.id === jobId)
+        if (!job) {
+            throw new Error(`Print job not found: ${jobId}`)
+        }
+        return job
+    }
+
+    /**
+     * Print queued jobs one at a time, one copy per printer call
+     */
+    private async processNext(): Promise<void> {
+        if (this.processing || this.retryTimer) return
+
+        const job = this.jobs.find(j => j.status === 'queued')
+        if (!job) return
+
+        this.processing = true
+        this.update(job, { status: 'printing', attempts: job.attempts + 1 })
+
+        try {
+            while (job.copiesPrinted < job.copies) {
+                const result = await this.printer.printWithOptions(job.filePath, {
+                    printer: job.printer,
+                    copies: 1,
+                    // Laid-out PDFs are the paper size plus bleed, so they print at 100% and the
+                    // bleed falls off the paper edge; only raw strips are fitted to the page
+                    scale: job.media ? 'noscale' : 'fit',
+                    media: job.media
+                })
+                if (!result.success) {
+                    throw new Error(result.error || 'Print failed')
+                }
+                this.update(job, {
+                    copiesPrinted: job.copiesPrinted + 1,
+                    spoolerJobIds: result.jobId
+                        ? [...(job.spoolerJobIds || []), result.jobId]
+                        : job.spoolerJobIds
+                })
+            }
+
+            this.update(job, { status: 'completed', error: undefined, completedAt: Date.now() })
+        } catch (error) {
+            const err = error as Error
+            console.error(`Print job ${job.id} failed (attempt ${job.attempts}):`, err.message)
+
+            if (job.attempts < MAX_AUTO_ATTEMPTS) {
+                // Back off before retrying so a briefly offline printer can recover
+                this.update(job, { status: 'queued', error: err.message })
+                this.retryTimer = setTimeout(() => {
+                    this.retryTimer = null
+                    this.processNext()
+                }, RETRY_DELAY_MS)
+            } else {
+                this.update(job, { status: 'failed', error: err.message })
+            }
+        } finally {
+            this.processing = false
+        }
+
+        this.processNext()
+    }
+
+    /**
+     * Drop the oldest finished jobs beyond the history limit
+     */
+    private prune(): void {
+        const finished = this.jobs.filter(j => j.status === 'completed' || j.status === 'cancelled')
+        const excess = finished.length - MAX_HISTORY
+        if (excess <= 0) return
+
+        const removed = new Set(finished.slice(0, excess).map(j => j.id))
+        for (const job of this.jobs) {
+            if (removed.has(job.id) && existsSync(job.filePath)) {
+                try {
+                    unlinkSync(job.filePath)
+                } catch (error) {
+                    console.error('Failed to remove old print file:', error)
+                }
+            }
+        }
+        this.jobs = this.jobs.filter(j => !removed.has(j.id))
+    }
+}
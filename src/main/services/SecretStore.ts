@@ -0,0 +1,93 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { safeStorage } from 'electron'
+
+interface SecretStoreFile {
+    version: number
+    encrypted: boolean
+    secrets: Record<string, string>
+}
+
+const STORE_VERSION = 1
+
+/**
+ * SecretStore - Credentials that must never reach the renderer
+ * Kept apart from settings.json (which every window can read back through
+ * settings:get) in userData/secrets.json, encrypted with the OS keychain
+ * when Electron's safeStorage is available. Only main-process code reads
+ * these; IPC exposes write-only setters and "configured" flags.
+ */
+export class SecretStore {
+    private filePath = ''
+    private secrets: Record<string, string> = {}
+
+    /**
+     * Load the secrets file; must run after app ready (safeStorage needs it)
+     */
+    load(dataDir: string): void {
+        if (!existsSync(dataDir)) {
+            mkdirSync(dataDir, { recursive: true })
+        }
+        this.filePath = join(dataDir, 'secrets.json')
+        if (!existsSync(this.filePath)) return
+
+        try {
+            const file: SecretStoreFile = JSON.parse(readFileSync(this.filePath, 'utf-8'))
+            for (const [name, value] of Object.entries(file.secrets || {})) {
+                this.secrets[name] = file.encrypted
+                    ? safeStorage.decryptString(Buffer.from(value, 'base64'))
+                    : value
+            }
+        } catch (error) {
+            console.error('Failed to read secrets, they need to be entered again:', error)
+            renameSync(this.filePath, `${this.filePath}.corrupt-${Date.now()}`)
+        }
+    }
+
+    get(name: string): string | null {
+        return this.secrets[name] || null
+    }
+
+    has(name: string): boolean {
+        return !!this.secrets[name]
+    }
+
+    /**
+     * Store a secret; an empty value removes it. Written straight away, secrets change rarely.
+     */
+    set(name: string, value: string | null): void {
+        if (value) {
+            this.secrets[name] = value
+        } else {
+            delete this.secrets[name]
+        }
+        this.flush()
+    }
+
+    private flush(): void {
+        if (!this.filePath) return
+
+        try {
+            const encrypted = safeStorage.isEncryptionAvailable()
+            const secrets: Record<string, string> = {}
+            for (const [name, value] of Object.entries(this.secrets)) {
+                secrets[name] = encrypted ? safeStorage.encryptString(value).toString('base64') : value
+            }
+
+            const file: SecretStoreFile = { version: STORE_VERSION, encrypted, secrets }
+            const tempPath = `${this.filePath}.tmp`
+            writeFileSync(tempPath, JSON.stringify(file, null, 2), { mode: 0o600 })
+            renameSync(tempPath, this.filePath)
+        } catch (error) {
+            console.error('Failed to save secrets:', error)
+        }
+    }
+}
+
+// Names of the secrets kept in the store
+export const MIDTRANS_SERVER_KEY = 'midtransServerKey'
+export const CASH_OPERATOR_PINS = 'cashOperatorPins' // JSON map of operator id to PIN hash
+export const ADMIN_OVERRIDE_PIN = 'adminOverridePin' // PIN hash
+export const GMAIL_APP_PASSWORD = 'gmailAppPassword'
+
+export const secretStore = new SecretStore()
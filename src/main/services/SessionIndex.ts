@@ -0,0 +1,193 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, statSync, writeFileSync } from 'fs'
+import { extname, join } from 'path'
+import { SessionFile, SessionRecord, SessionRecordUpdate, SessionSearchQuery, SessionSearchResult } from '@shared/types'
+
+const INDEX_VERSION = 1
+const SAVE_DELAY_MS = 300
+const FOLDER_PREFIX = 'Session_'
+
+const MIME_TYPES: Record<string, string> = {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.gif': 'image/gif',
+    '.mp4': 'video/mp4',
+    '.webm': 'video/webm'
+}
+
+interface SessionIndexFile {
+    version: number
+    sessions: SessionRecord[]
+}
+
+/**
+ * SessionIndex - Local database of every session saved on this booth
+ * Kept in userData/session-index.json so history works offline and in
+ * local sharing mode; sessions saved before the index existed are picked
+ * up from their Documents/Sebooth/Sessions folders on load.
+ */
+export class SessionIndex {
+    private filePath = ''
+    private sessions = new Map<string, SessionRecord>()
+    private saveTimer: ReturnType<typeof setTimeout> | null = null
+
+    /**
+     * Load the index and add any session folders it doesn't know about yet
+     */
+    load(dataDir: string, sessionsDir: string): void {
+        if (!existsSync(dataDir)) {
+            mkdirSync(dataDir, { recursive: true })
+        }
+        this.filePath = join(dataDir, 'session-index.json')
+
+        if (existsSync(this.filePath)) {
+            try {
+                const file: SessionIndexFile = JSON.parse(readFileSync(this.filePath, 'utf-8'))
+                file.sessions.forEach(session => this.sessions.set(session.id, session))
+            } catch (error) {
+                // The folders are the source of truth, so a fresh index can be rebuilt from them
+                console.error('Failed to read session index, rebuilding:', error)
+                renameSync(this.filePath, `${this.filePath}.corrupt-${Date.now()}`)
+            }
+        }
+
+        if (this.backfill(sessionsDir) > 0) {
+            this.flush()
+        }
+    }
+
+    /**
+     * Record the files saved for a session, creating its entry if needed
+     */
+    record(id: string, folder: string, files: SessionFile[], details: SessionRecordUpdate = {}): SessionRecord {
+        const existing = this.sessions.get(id)
+        const session: SessionRecord = {
+            ...existing,
+            ...definedFields(details),
+            id,
+            createdAt: details.createdAt ?? existing?.createdAt ?? Date.now(),
+            savedAt: Date.now(),
+            printCount: details.printCount ?? existing?.printCount ?? 0,
+            folder,
+            files
+        }
+
+        this.sessions.set(id, session)
+        this.scheduleSave()
+        return session
+    }
+
+    /**
+     * Update a session's details (email, prints, gallery); unknown sessions are created
+     */
+    update(id: string, details: SessionRecordUpdate): SessionRecord {
+        const existing = this.sessions.get(id)
+        const session: SessionRecord = {
+            files: [],
+            printCount: 0,
+            createdAt: Date.now(),
+            ...existing,
+            ...definedFields(details),
+            id
+        }
+
+        this.sessions.set(id, session)
+        this.scheduleSave()
+        return session
+    }
+
+    get(id: string): SessionRecord | null {
+        return this.sessions.get(id) ?? null
+    }
+
+    /**
+     * Filter sessions, newest first, and return one page of them
+     */
+    search(query: SessionSearchQuery = {}): SessionSearchResult {
+        const text = query.text?.trim().toLowerCase()
+
+        const matches = Array.from(this.sessions.values())
+            .filter(session => {
+                if (query.from !== undefined && session.createdAt < query.from) return false
+                if (query.to !== undefined && session.createdAt > query.to) return false
+                if (query.hasEmail !== undefined && !!session.email !== query.hasEmail) return false
+                if (query.printed !== undefined && session.printCount > 0 !== query.printed) return false
+                if (!text) return true
+
+                return [session.id, session.email, session.frameName, session.paymentOrderId, session.voucher?.code, session.number?.toString()]
+                    .some(field => field?.toLowerCase().includes(text))
+            })
+            .sort((a, b) => b.createdAt - a.createdAt)
+
+        const offset = query.offset || 0
+        const items = query.limit ? matches.slice(offset, offset + query.limit) : matches.slice(offset)
+        return { items, total: matches.length }
+    }
+
+    /**
+     * Write pending changes now (also called on quit)
+     */
+    flush(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer)
+            this.saveTimer = null
+        }
+        if (!this.filePath) return
+
+        try {
+            const file: SessionIndexFile = { version: INDEX_VERSION, sessions: Array.from(this.sessions.values()) }
+            const tempPath = `${this.filePath}.tmp`
+            writeFileSync(tempPath, JSON.stringify(file))
+            renameSync(tempPath, this.filePath)
+        } catch (error) {
+            console.error('Failed to save session index:', error)
+        }
+    }
+
+    /**
+     * Index session folders that are missing from the index; returns how many were added
+     */
+    private backfill(sessionsDir: string): number {
+        if (!existsSync(sessionsDir)) return 0
+
+        let added = 0
+        for (const entry of readdirSync(sessionsDir, { withFileTypes: true })) {
+            if (!entry.isDirectory() || !entry.name.startsWith(FOLDER_PREFIX)) continue
+            const id = entry.name.slice(FOLDER_PREFIX.length)
+            if (this.sessions.has(id)) continue
+
+            const folder = join(sessionsDir, entry.name)
+            const files = readdirSync(folder)
+                .filter(filename => !filename.startsWith('.') && MIME_TYPES[extname(filename).toLowerCase()])
+                .map(filename => ({
+                    path: join(folder, filename),
+                    filename,
+                    mimeType: MIME_TYPES[extname(filename).toLowerCase()]
+                }))
+            const stats = statSync(folder)
+
+            this.sessions.set(id, {
+                id,
+                createdAt: Math.round(stats.birthtimeMs || stats.mtimeMs),
+                savedAt: Math.round(stats.mtimeMs),
+                printCount: 0,
+                folder,
+                files
+            })
+            added++
+        }
+        return added
+    }
+
+    private scheduleSave(): void {
+        if (this.saveTimer) clearTimeout(this.saveTimer)
+        this.saveTimer = setTimeout(() => this.flush(), SAVE_DELAY_MS)
+    }
+}
+
+// Drop undefined values so a partial update never clears a known field
+function definedFields<T extends object>(details: T): Partial<T> {
+    return Object.fromEntries(Object.entries(details).filter(([, value]) => value !== undefined)) as Partial<T>
+}
+
+export const sessionIndex = new SessionIndex()
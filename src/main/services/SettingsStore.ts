@@ -0,0 +1,249 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { AppConfig } from '@shared/types'
+import { secretStore, MIDTRANS_SERVER_KEY, CASH_OPERATOR_PINS, ADMIN_OVERRIDE_PIN } from './SecretStore'
+import { hashPin } from '../utils/pin'
+
+// Rapid edits (dragging a slot) are coalesced into one write
+const SAVE_DELAY_MS = 300
+
+// Persisted zustand stores are kept under their persist name
+export const APP_CONFIG_KEY = 'sebooth-config'
+export const FRAMES_KEY = 'sebooth-frames'
+export const FILTERS_KEY = 'sebooth-filters'
+
+type SettingsStores = Record<string, unknown>
+
+interface SettingsFile {
+    schemaVersion: number
+    stores: SettingsStores
+}
+
+interface SettingsMigration {
+    version: number
+    migrate: (stores: SettingsStores) => void
+}
+
+// Persisted zustand value: { state, version }
+export type PersistedValue<T> = { state?: T; version?: number } | undefined
+
+/**
+ * Schema migrations, applied in order to anything older than their version.
+ * Data imported from renderer localStorage counts as version 0.
+ */
+const MIGRATIONS: SettingsMigration[] = [
+    {
+        // Single active frame became a list of active frames
+        version: 1,
+        migrate: (stores) => {
+            const persisted = stores[APP_CONFIG_KEY] as PersistedValue<{ config?: Partial<AppConfig> & { activeFrameId?: string } }>
+            const config = persisted?.state?.config
+            if (config && 'activeFrameId' in config) {
+                if (config.activeFrameId && !config.activeFrameIds?.length) {
+                    config.activeFrameIds = [config.activeFrameId]
+                }
+                delete config.activeFrameId
+            }
+        }
+    },
+    {
+        // Single session price became a package catalog
+        version: 2,
+        migrate: (stores) => {
+            const persisted = stores[APP_CONFIG_KEY] as PersistedValue<{ config?: Partial<AppConfig> & { sessionPrice?: number } }>
+            const config = persisted?.state?.config
+            if (config && 'sessionPrice' in config) {
+                // Keep the booth's price as a package with what a session always included
+                if (typeof config.sessionPrice === 'number' && !config.pricingPackages?.length) {
+                    config.pricingPackages = [{
+                        id: 'standard',
+                        name: 'Standard',
+                        description: 'One 4R print',
+                        price: config.sessionPrice,
+                        prints: 1,
+                        entitlements: { gif: true, liveVideo: true, email: true }
+                    }]
+                }
+                delete config.sessionPrice
+            }
+        }
+    },
+    {
+        // The Midtrans server key moved out of the renderer-readable config into the secret store
+        version: 3,
+        migrate: (stores) => {
+            const persisted = stores[APP_CONFIG_KEY] as PersistedValue<{ config?: Partial<AppConfig> & { midtransServerKey?: string } }>
+            const config = persisted?.state?.config
+            if (config && 'midtransServerKey' in config) {
+                if (config.midtransServerKey && !secretStore.has(MIDTRANS_SERVER_KEY)) {
+                    secretStore.set(MIDTRANS_SERVER_KEY, config.midtransServerKey)
+                }
+                delete config.midtransServerKey
+            }
+        }
+    },
+    {
+        // Cash operator PINs moved out of the renderer-readable config, hashed, into the secret store
+        version: 4,
+        migrate: (stores) => {
+            type LegacyOperator = AppConfig['cashOperators'][number] & { pin?: string }
+            const persisted = stores[APP_CONFIG_KEY] as PersistedValue<{ config?: { cashOperators?: LegacyOperator[] } }>
+            const operators = persisted?.state?.config?.cashOperators
+            if (!operators?.some(o => 'pin' in o)) return
+
+            const pins: Record<string, string> = JSON.parse(secretStore.get(CASH_OPERATOR_PINS) || '{}')
+            for (const operator of operators) {
+                if (operator.pin && !pins[operator.id]) {
+                    pins[operator.id] = hashPin(operator.pin)
+                }
+                delete operator.pin
+            }
+            if (Object.keys(pins).length) {
+                secretStore.set(CASH_OPERATOR_PINS, JSON.stringify(pins))
+            }
+        }
+    },
+    {
+        // The extra-print PIN moved out of the renderer-readable config, hashed, into the secret store
+        version: 5,
+        migrate: (stores) => {
+            const persisted = stores[APP_CONFIG_KEY] as PersistedValue<{ config?: { adminOverridePin?: string } }>
+            const config = persisted?.state?.config
+            if (config && 'adminOverridePin' in config) {
+                if (config.adminOverridePin && !secretStore.has(ADMIN_OVERRIDE_PIN)) {
+                    secretStore.set(ADMIN_OVERRIDE_PIN, hashPin(config.adminOverridePin))
+                }
+                delete config.adminOverridePin
+            }
+        }
+    }
+]
+
+export const SETTINGS_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+/**
+ * SettingsStore - Main-process home for persisted renderer stores
+ * Settings live in userData/settings.json so they survive renderer profile
+ * resets and the main process (server, payments) can read the booth config.
+ */
+export class SettingsStore {
+    private filePath = ''
+    private stores: SettingsStores = {}
+    private saveTimer: ReturnType<typeof setTimeout> | null = null
+    private listeners = new Set<(key: string, value: unknown) => void>()
+
+    /**
+     * Load (and migrate) the settings file from the given directory
+     */
+    load(dataDir: string): void {
+        if (!existsSync(dataDir)) {
+            mkdirSync(dataDir, { recursive: true })
+        }
+        this.filePath = join(dataDir, 'settings.json')
+
+        let file: SettingsFile = { schemaVersion: SETTINGS_SCHEMA_VERSION, stores: {} }
+        if (existsSync(this.filePath)) {
+            try {
+                file = JSON.parse(readFileSync(this.filePath, 'utf-8'))
+            } catch (error) {
+                // Keep the unreadable file for inspection rather than overwriting it
+                console.error('Failed to read settings, starting fresh:', error)
+                renameSync(this.filePath, `${this.filePath}.corrupt-${Date.now()}`)
+            }
+        }
+
+        this.stores = file.stores || {}
+        if ((file.schemaVersion ?? 0) < SETTINGS_SCHEMA_VERSION) {
+            migrate(this.stores, file.schemaVersion ?? 0)
+            this.flush()
+        }
+    }
+
+    get<T = unknown>(key: string): T | null {
+        return (this.stores[key] as T) ?? null
+    }
+
+    /**
+     * Store a value; fromVersion marks data written by an older schema
+     * (legacy localStorage imports) so it is migrated first.
+     * Returns the value as stored.
+     */
+    set<T = unknown>(key: string, value: T, fromVersion: number = SETTINGS_SCHEMA_VERSION): T {
+        if (fromVersion < SETTINGS_SCHEMA_VERSION) {
+            const pending: SettingsStores = { [key]: value }
+            migrate(pending, fromVersion)
+            value = pending[key] as T
+        }
+
+        this.stores[key] = value
+        this.scheduleSave()
+        this.listeners.forEach(listener => listener(key, value))
+        return value
+    }
+
+    remove(key: string): void {
+        if (!(key in this.stores)) return
+        delete this.stores[key]
+        this.scheduleSave()
+        this.listeners.forEach(listener => listener(key, null))
+    }
+
+    /**
+     * The admin config as last saved by the renderer (defaults are not filled in)
+     */
+    getAppConfig(): Partial<AppConfig> {
+        return this.get<PersistedValue<{ config?: Partial<AppConfig> }>>(APP_CONFIG_KEY)?.state?.config || {}
+    }
+
+    /**
+     * Packages and print price the payment screen sells, for pricing orders in main
+     */
+    getPricing(): Pick<AppConfig, 'pricingPackages' | 'additionalPrintPrice'> {
+        const config = this.getAppConfig()
+        return { pricingPackages: config.pricingPackages || [], additionalPrintPrice: config.additionalPrintPrice ?? 0 }
+    }
+
+    /**
+     * Listen for changes to any key; returns an unsubscribe function
+     */
+    subscribe(listener: (key: string, value: unknown) => void): () => void {
+        this.listeners.add(listener)
+        return () => this.listeners.delete(listener)
+    }
+
+    /**
+     * Write pending changes now (also called on quit)
+     */
+    flush(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer)
+            this.saveTimer = null
+        }
+        if (!this.filePath) return
+
+        try {
+            const file: SettingsFile = { schemaVersion: SETTINGS_SCHEMA_VERSION, stores: this.stores }
+            // Write then rename so a crash mid-write never leaves half a file
+            const tempPath = `${this.filePath}.tmp`
+            writeFileSync(tempPath, JSON.stringify(file, null, 2))
+            renameSync(tempPath, this.filePath)
+        } catch (error) {
+            console.error('Failed to save settings:', error)
+        }
+    }
+
+    private scheduleSave(): void {
+        if (this.saveTimer) clearTimeout(this.saveTimer)
+        this.saveTimer = setTimeout(() => this.flush(), SAVE_DELAY_MS)
+    }
+}
+
+function migrate(stores: SettingsStores, fromVersion: number): void {
+    for (const migration of MIGRATIONS) {
+        if (migration.version > fromVersion) {
+            migration.migrate(stores)
+        }
+    }
+}
+
+export const settingsStore = new SettingsStore()
@@ -0,0 +1,81 @@
+import { readFileSync } from 'fs'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { SessionFile } from '@shared/types'
+
+const EXPORTS_BUCKET = 'exports'
+
+// Row written to session_galleries, which the online gallery reads
+export interface GalleryRecord {
+    sessionId: string
+    photoStripUrl?: string
+    gifUrl?: string
+    livePhotoUrl?: string
+    photoUrls: string[]
+    printCount?: number
+}
+
+/**
+ * SupabaseUploader - Supabase Storage uploads and gallery records from the main process
+ * Uses the same project as the renderer (VITE_SUPABASE_URL / VITE_SUPABASE_ANON_KEY).
+ */
+export class SupabaseUploader {
+    private supabase: SupabaseClient | null = null
+
+    constructor(private url: string, private anonKey: string) {}
+
+    isConfigured(): boolean {
+        return Boolean(this.url && this.anonKey)
+    }
+
+    /**
+     * Upload a session file to the exports bucket and return its public URL
+     */
+    async uploadFile(file: SessionFile): Promise<string> {
+        const storage = this.client().storage.from(EXPORTS_BUCKET)
+        const { data, error } = await storage.upload(file.filename, readFileSync(file.path), {
+            contentType: file.mimeType,
+            cacheControl: '3600',
+            upsert: true
+        })
+        if (error) {
+            throw new Error(error.message)
+        }
+
+        return storage.getPublicUrl(data.path).data.publicUrl
+    }
+
+    /**
+     * Create or update the session's gallery row
+     */
+    async saveGallery(gallery: GalleryRecord): Promise<void> {
+        const { error } = await this.client()
+            .from('session_galleries')
+            .upsert({
+                session_id: gallery.sessionId,
+                photo_strip_url: gallery.photoStripUrl || null,
+                gif_url: gallery.gifUrl || null,
+                live_photo_url: gallery.livePhotoUrl || null,
+                photo_urls: gallery.photoUrls,
+                ...(gallery.printCount !== undefined && { print_count: gallery.printCount }),
+                created_at: new Date().toISOString()
+            }, {
+                onConflict: 'session_id'
+            })
+
+        if (error) {
+            throw new Error(error.message)
+        }
+    }
+
+    private client(): SupabaseClient {
+        if (!this.isConfigured()) {
+            throw new Error('Supabase not configured')
+        }
+        if (!this.supabase) {
+            this.supabase = createClient(this.url, this.anonKey, {
+                auth: { persistSession: false }
+            })
+        }
+        return this.supabase
+    }
+}
@@ -0,0 +1,373 @@
+import { existsSync, readFileSync, renameSync, statSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import { SyncFile, SyncJob, SyncRequest, SyncStatus } from '@shared/types'
+import { DriveUploader } from './DriveUploader'
+import { SupabaseUploader } from './SupabaseUploader'
+
+// Automatic attempts (while online) before a job is left failed for the operator
+const MAX_AUTO_ATTEMPTS = 8
+// Backoff doubles from the base delay up to the cap: 15s, 30s, 1m ... 30m
+const RETRY_BASE_MS = 15 * 1000
+const RETRY_MAX_MS = 30 * 60 * 1000
+// Drive attempts (auth errors aside) before a job moves to Supabase, when it's configured
+const DRIVE_ATTEMPTS_BEFORE_FALLBACK = 3
+// How often connectivity is checked while uploads are waiting on it
+const ONLINE_CHECK_MS = 10 * 1000
+// Progress pushes per job are throttled to this interval
+const PROGRESS_INTERVAL_MS = 500
+// Completed jobs kept in the outbox history
+const MAX_HISTORY = 200
+
+/**
+ * SyncOutbox - Durable queue of sessions waiting for a cloud upload
+ * Jobs survive restarts and upload one at a time to Google Drive (or
+ * Supabase Storage when Drive is unavailable), then write the gallery row.
+ * Failures back off exponentially; time spent offline doesn't use up attempts.
+ */
+export class SyncOutbox {
+    private jobs: SyncJob[] = []
+    private outboxPath: string
+    private processing = false
+    private timer: ReturnType<typeof setTimeout> | null = null
+    private wasOnline = true
+    private lastProgress = new Map<string, number>()
+    // Callers of upload() waiting for a job's current attempt to finish
+    private waiters = new Map<string, ((job: SyncJob) => void)[]>()
+
+    constructor(
+        dataDir: string,
+        private drive: DriveUploader,
+        private supabase: SupabaseUploader,
+        private isOnline: () => boolean,
+        private onJobUpdated: (job: SyncJob) => void
+    ) {
+        this.outboxPath = join(dataDir, 'sync-outbox.json')
+        this.load()
+        this.processNext()
+    }
+
+    /**
+     * Load persisted jobs; uploads cut short by a restart go back to pending
+     */
+    private load(): void {
+        try {
+            if (!existsSync(this.outboxPath)) return
+            this.jobs = JSON.parse(readFileSync(this.outboxPath, 'utf-8'))
+
+            for (const job of this.jobs) {
+                if (job.status === 'uploading') {
+                    job.status = 'pending'
+                    job.nextAttemptAt = Date.now()
+                }
+            }
+            this.save()
+        } catch (error) {
+            console.error('Failed to load sync outbox:', error)
+            this.jobs = []
+        }
+    }
+
+    private save(): void {
+        try {
+            const tempPath = `${this.outboxPath}.tmp`
+            writeFileSync(tempPath, JSON.stringify(this.jobs, null, 2))
+            renameSync(tempPath, this.outboxPath)
+        } catch (error) {
+            console.error('Failed to save sync outbox:', error)
+        }
+    }
+
+    private update(job: SyncJob, changes: Partial<SyncJob>): void {
+        Object.assign(job, changes, { updatedAt: Date.now() })
+        this.save()
+        this.onJobUpdated(copyJob(job))
+    }
+
+    /**
+     * Add a session to the outbox. Saving the same session again replaces its
+     * file list, keeping files that were already uploaded.
+     */
+    enqueue(request: SyncRequest): SyncJob {
+        if (this.drive.configError() && !this.supabase.isConfigured()) {
+            throw new Error('No cloud upload is configured (Google Drive or Supabase)')
+        }
+
+        const existing = this.jobs.find(j => j.sessionId === request.sessionId)
+        const files: SyncFile[] = request.files.map(file => {
+            const previous = existing?.files.find(f => f.filename === file.filename && f.url)
+            if (previous) return previous
+
+            const size = existsSync(file.path) ? statSync(file.path).size : 0
+            return { path: file.path, filename: file.filename, mimeType: file.mimeType, size, uploadedBytes: 0 }
+        })
+
+        if (existing && existing.status !== 'uploading') {
+            this.update(existing, {
+                files,
+                printCount: request.printCount ?? existing.printCount,
+                status: 'pending',
+                attempts: 0,
+                nextAttemptAt: Date.now(),
+                error: undefined
+            })
+            this.processNext()
+            return copyJob(existing)
+        }
+        if (existing) {
+            throw new Error('This session is already uploading')
+        }
+
+        const now = Date.now()
+        const job: SyncJob = {
+            id: uuidv4(),
+            sessionId: request.sessionId,
+            target: this.drive.configError() ? 'supabase' : 'drive',
+            files,
+            printCount: request.printCount,
+            status: 'pending',
+            attempts: 0,
+            nextAttemptAt: now,
+            createdAt: now,
+            updatedAt: now
+        }
+
+        // The guest is waiting on this one, so it goes ahead of older backlog
+        this.jobs.unshift(job)
+        this.prune()
+        this.save()
+        this.onJobUpdated(copyJob(job))
+        this.processNext()
+        return copyJob(job)
+    }
+
+    /**
+     * Enqueue a session and wait for its first attempt. Resolves straight away
+     * with the pending job when offline, so the booth never blocks on the network.
+     */
+    upload(request: SyncRequest): Promise<SyncJob> {
+        const job = this.enqueue(request)
+        if (!this.isOnline()) {
+            return Promise.resolve(job)
+        }
+
+        return new Promise(resolve => {
+            this.waiters.set(job.id, [...(this.waiters.get(job.id) || []), resolve])
+        })
+    }
+
+    status(): SyncStatus {
+        return {
+            online: this.isOnline(),
+            jobs: this.jobs
+                .map(copyJob)
+                .sort((a, b) => b.createdAt - a.createdAt)
+        }
+    }
+
+    /**
+     * Retry one job, or every unfinished job, right away with a fresh set of attempts
+     */
+    retry(jobId?: string): SyncJob[] {
+        const jobs = jobId
+            ? [this.findJob(jobId)]
+            : this.jobs.filter(j => j.status === 'pending' || j.status === 'failed')
+
+        for (const job of jobs) {
+            if (job.status === 'completed' || job.status === 'uploading') {
+                throw new Error(`Cannot retry a ${job.status} upload`)
+            }
+            this.update(job, { status: 'pending', attempts: 0, nextAttemptAt: Date.now(), error: undefined })
+        }
+
+        this.processNext()
+        return jobs.map(copyJob)
+    }
+
+    private findJob(jobId: string): SyncJob {
+        const job = this.jobs.find(j => j.id === jobId)
+        if (!job) {
+            throw new Error(`Upload not found: ${jobId}`)
+        }
+        return job
+    }
+
+    /**
+     * Upload due jobs one at a time, then sleep until the next one is due
+     */
+    private async processNext(): Promise<void> {
+        if (this.processing) return
+        if (this.timer) {
+            clearTimeout(this.timer)
+            this.timer = null
+        }
+
+        const waiting = this.jobs.filter(j => j.status === 'pending')
+        if (waiting.length === 0) return
+
+        // Offline: check again shortly, and retry everything as soon as the network is back
+        const online = this.isOnline()
+        if (!online) {
+            this.wasOnline = false
+            waiting.forEach(job => this.resolveWaiters(job))
+            this.timer = setTimeout(() => this.processNext(), ONLINE_CHECK_MS)
+            return
+        }
+        if (!this.wasOnline) {
+            this.wasOnline = true
+            waiting.forEach(job => { job.nextAttemptAt = Date.now() })
+        }
+
+        const now = Date.now()
+        const job = waiting.find(j => (j.nextAttemptAt ?? 0) <= now)
+        if (!job) {
+            const nextAt = Math.min(...waiting.map(j => j.nextAttemptAt ?? now))
+            this.timer = setTimeout(() => this.processNext(), Math.min(nextAt - now, ONLINE_CHECK_MS))
+            return
+        }
+
+        this.processing = true
+        this.update(job, { status: 'uploading', attempts: job.attempts + 1, error: undefined })
+
+        try {
+            await this.uploadJob(job)
+            this.update(job, { status: 'completed', nextAttemptAt: undefined, completedAt: Date.now() })
+        } catch (error) {
+            const err = error as Error
+            console.error(`Upload for session ${job.sessionId} failed (attempt ${job.attempts}):`, err.message)
+            this.handleFailure(job, err)
+        } finally {
+            this.processing = false
+            this.lastProgress.delete(job.id)
+        }
+
+        // A job moved to Supabase goes again straight away; callers wait for that attempt
+        if (job.status !== 'pending' || (job.nextAttemptAt ?? 0) > Date.now()) {
+            this.resolveWaiters(job)
+        }
+        this.processNext()
+    }
+
+    private handleFailure(job: SyncJob, err: Error): void {
+        // Lost the connection mid-upload: wait for it to come back without using an attempt
+        if (!this.isOnline()) {
+            this.update(job, { status: 'pending', attempts: job.attempts - 1, nextAttemptAt: Date.now(), error: err.message })
+            return
+        }
+
+        // Drive refused the upload (401/403) or keeps failing: finish the rest on Supabase Storage.
+        // Files already in the Drive folder keep their links, so the folder stays part of the gallery.
+        const driveGaveUp = isAuthError(err) || job.attempts >= DRIVE_ATTEMPTS_BEFORE_FALLBACK
+        if (job.target === 'drive' && driveGaveUp && this.supabase.isConfigured()) {
+            this.update(job, {
+                target: 'supabase',
+                files: job.files.map(file => file.url ? file : { ...file, uploadedBytes: 0, error: undefined }),
+                status: 'pending',
+                nextAttemptAt: Date.now(),
+                error: `Drive: ${err.message}`
+            })
+            return
+        }
+
+        if (job.attempts < MAX_AUTO_ATTEMPTS) {
+            const delay = Math.min(RETRY_BASE_MS * 2 ** (job.attempts - 1), RETRY_MAX_MS)
+            this.update(job, { status: 'pending', nextAttemptAt: Date.now() + delay, error: err.message })
+        } else {
+            this.update(job, { status: 'failed', nextAttemptAt: undefined, error: err.message })
+        }
+    }
+
+    /**
+     * Upload the job's remaining files, then record the gallery
+     */
+    private async uploadJob(job: SyncJob): Promise<void> {
+        if (job.target === 'drive' && !job.folderId) {
+            const folder = await this.drive.createSessionFolder(job.sessionId)
+            this.update(job, { folderId: folder.id, galleryUrl: folder.url })
+        }
+
+        for (const file of job.files) {
+            if (file.url) continue
+
+            if (!existsSync(file.path)) {
+                // Nothing to retry if the local copy is gone; the rest of the session still uploads
+                file.error = 'Local file no longer exists'
+                this.update(job, {})
+                continue
+            }
+
+            const onProgress = (uploadedBytes: number): void => {
+                file.uploadedBytes = Math.min(uploadedBytes, file.size)
+                this.reportProgress(job)
+            }
+
+            if (job.target === 'drive') {
+                const uploaded = await this.drive.uploadFile(job.folderId!, file, onProgress)
+                file.url = uploaded?.url
+            } else {
+                file.url = await this.supabase.uploadFile(file)
+            }
+            file.uploadedBytes = file.size
+            file.error = file.url ? undefined : 'Local file no longer exists'
+            this.update(job, {})
+        }
+
+        const urlOf = (prefix: string): string | undefined => job.files.find(f => f.filename.startsWith(prefix) && f.url)?.url
+        const photoUrls = job.files.filter(f => f.filename.startsWith('photo_') && f.url).map(f => f.url!)
+
+        if (job.target === 'supabase') {
+            // No Drive folder to share: guests get the strip (or first photo) directly
+            this.update(job, { galleryUrl: urlOf('strip_') || photoUrls[0] || '' })
+        }
+
+        if (this.supabase.isConfigured()) {
+            await this.supabase.saveGallery({
+                sessionId: job.sessionId,
+                photoStripUrl: urlOf('strip_'),
+                gifUrl: urlOf('gif_'),
+                livePhotoUrl: urlOf('live_video_'),
+                photoUrls,
+                printCount: job.printCount
+            })
+        }
+    }
+
+    private reportProgress(job: SyncJob): void {
+        const now = Date.now()
+        if (now - (this.lastProgress.get(job.id) ?? 0) < PROGRESS_INTERVAL_MS) return
+        this.lastProgress.set(job.id, now)
+        this.onJobUpdated(copyJob(job))
+    }
+
+    private resolveWaiters(job: SyncJob): void {
+        const waiters = this.waiters.get(job.id)
+        if (!waiters) return
+        this.waiters.delete(job.id)
+        waiters.forEach(resolve => resolve(copyJob(job)))
+    }
+
+    /**
+     * Drop the oldest completed jobs beyond the history limit
+     */
+    private prune(): void {
+        const completed = this.jobs
+            .filter(j => j.status === 'completed')
+            .sort((a, b) => a.createdAt - b.createdAt)
+        const excess = completed.length - MAX_HISTORY
+        if (excess <= 0) return
+
+        const removed = new Set(completed.slice(0, excess).map(j => j.id))
+        this.jobs = this.jobs.filter(j => !removed.has(j.id))
+    }
+}
+
+// Google API errors carry the HTTP status on the response (or as the code)
+function isAuthError(err: Error): boolean {
+    const { code, response } = err as Error & { code?: number | string; response?: { status?: number } }
+    const status = response?.status ?? Number(code)
+    return status === 401 || status === 403
+}
+
+function copyJob(job: SyncJob): SyncJob {
+    return { ...job, files: job.files.map(file => ({ ...file })) }
+}
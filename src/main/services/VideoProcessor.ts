@@ -0,0 +1,169 @@
+import sharp from 'sharp'
+import { copyFileSync, existsSync, mkdirSync, readdirSync, rmSync } from 'fs'
+import { extname, join } from 'path'
+import ffmpeg from 'fluent-ffmpeg'
+import ffmpegPath from '@ffmpeg-installer/ffmpeg'
+import { ImageProcessor } from './ImageProcessor'
+import { BoomerangOptions, BoomerangResult } from '@shared/types'
+
+ffmpeg.setFfmpegPath(ffmpegPath.path)
+
+/**
+ * VideoProcessor - Builds boomerang clips (forward then reversed) with FFmpeg
+ */
+export class VideoProcessor {
+    constructor(private imageProcessor: ImageProcessor) { }
+
+    /**
+     * Create a boomerang MP4 (H.264) and GIF from a pre-capture clip or a burst of stills
+     */
+    async generateBoomerang(
+        source: string | (string | Buffer)[],
+        outputDir: string,
+        options: Omit<BoomerangOptions, 'videoPath' | 'imagePaths' | 'outputDir'> = {}
+    ): Promise<BoomerangResult> {
+        const fps = options.fps || 30
+        const loops = Math.max(1, options.loops || 3)
+        const width = options.width || 720
+
+        if (!existsSync(outputDir)) {
+            mkdirSync(outputDir, { recursive: true })
+        }
+
+        const stamp = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+        const workDir = join(outputDir, `.boomerang_${stamp}`)
+        mkdirSync(workDir, { recursive: true })
+
+        try {
+            let frames = typeof source === 'string'
+                ? await this.extractClipFrames(source, workDir, fps, width, options.clipSeconds ?? 1.5)
+                : await this.writeStills(source, workDir, width)
+
+            if (frames.length < 2) {
+                throw new Error('Not enough frames for a boomerang')
+            }
+
+            // Grade the frames once so the MP4 and GIF match the chosen filter
+            if (options.filter && Object.keys(options.filter).length > 0) {
+                const graded: string[] = []
+                for (let i = 0; i < frames.length; i++) {
+                    graded.push(await this.imageProcessor.applyFilter(
+                        frames[i],
+                        join(workDir, `graded_${i}.jpg`),
+                        options.filter
+                    ))
+                }
+                frames = graded
+            }
+            const ext = extname(frames[0])
+
+            // Forward then back, without repeating the turnaround frames
+            const cycle = [...frames, ...frames.slice(1, -1).reverse()]
+            const sequence: string[] = []
+            for (let i = 0; i < loops; i++) {
+                sequence.push(...cycle)
+            }
+            sequence.forEach((frame, index) => {
+                copyFileSync(frame, join(workDir, `seq_${index}${ext}`))
+            })
+
+            const mp4Path = join(outputDir, `boomerang_${stamp}.mp4`)
+            await this.encodeMp4(join(workDir, `seq_%d${ext}`), mp4Path, typeof source === 'string' ? fps : 10)
+
+            // Every other frame keeps the GIF small; one cycle is enough since GIFs loop
+            const gifFrames = typeof source === 'string' ? cycle.filter((_, i) => i % 2 === 0) : cycle
+            const gifDelay = typeof source === 'string' ? Math.round(2000 / fps) : 100
+            const metadata = await sharp(frames[0]).metadata()
+            const gifPath = await this.imageProcessor.generateGif(
+                gifFrames,
+                join(outputDir, `boomerang_${stamp}.gif`),
+                { delay: gifDelay, width: metadata.width, height: metadata.height }
+            )
+
+            return { mp4Path, gifPath }
+        } finally {
+            rmSync(workDir, { recursive: true, force: true })
+        }
+    }
+
+    /**
+     * Decode the last clipSeconds of a video to PNG frames at the target rate/width.
+     * MediaRecorder WebM files often have no duration, so the whole clip is decoded
+     * and trimmed by frame count rather than seeking from the end.
+     */
+    private async extractClipFrames(
+        videoPath: string,
+        workDir: string,
+        fps: number,
+        width: number,
+        clipSeconds: number
+    ): Promise<string[]> {
+        if (!existsSync(videoPath)) {
+            throw new Error(`Video not found: ${videoPath}`)
+        }
+
+        await new Promise<void>((resolve, reject) => {
+            ffmpeg()
+                .input(videoPath)
+                .videoFilters([`fps=${fps}`, `scale=${width}:-2`])
+                .outputOptions(['-an'])
+                .save(join(workDir, 'clip_%d.png'))
+                .on('end', () => resolve())
+                .on('error', (err: Error) => reject(err))
+        })
+
+        const frames = readdirSync(workDir)
+            .filter(name => /^clip_\d+\.png$/.test(name))
+            .sort((a, b) => parseInt(a.slice(5)) - parseInt(b.slice(5)))
+            .map(name => join(workDir, name))
+
+        return frames.slice(-Math.max(2, Math.round(clipSeconds * fps)))
+    }
+
+    /**
+     * Normalise a burst of stills to PNG frames of the same size
+     */
+    private async writeStills(images: (string | Buffer)[], workDir: string, width: number): Promise<string[]> {
+        const valid = images.filter(image => typeof image !== 'string' || existsSync(image))
+        if (valid.length === 0) return []
+
+        // Size every frame like the first (after EXIF rotation), with even dimensions for H.264
+        const { info } = await sharp(valid[0]).rotate().toBuffer({ resolveWithObject: true })
+        const height = Math.round(width * info.height / info.width / 2) * 2
+
+        const frames: string[] = []
+        for (let i = 0; i < valid.length; i++) {
+            const framePath = join(workDir, `still_${i}.png`)
+            await sharp(valid[i])
+                .rotate()
+                .resize(width, height, { fit: 'cover' })
+                .png()
+                .toFile(framePath)
+            frames.push(framePath)
+        }
+        return frames
+    }
+
+    /**
+     * Encode a numbered frame sequence to a web-friendly H.264 MP4
+     */
+    private encodeMp4(pattern: string, outputPath: string, fps: number): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            ffmpeg()
+                .input(pattern)
+                .inputOptions([`-framerate ${fps}`])
+                .videoCodec('libx264')
+                .outputOptions([
+                    '-pix_fmt yuv420p',
+                    '-crf 20',
+                    '-preset veryfast',
+                    // Lets phones start playing before the whole file downloads
+                    '-movflags +faststart',
+                    '-vf scale=trunc(iw/2)*2:trunc(ih/2)*2'
+                ])
+                .save(outputPath)
+                .on('end', () => resolve())
+                .on('error', (err: Error) => reject(err))
+        })
+    }
+}
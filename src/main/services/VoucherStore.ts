@@ -0,0 +1,215 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { randomInt } from 'crypto'
+import { Voucher, VoucherCreateRequest, VoucherQuote, VoucherRedemption } from '@shared/types'
+
+const STORE_VERSION = 1
+const SAVE_DELAY_MS = 300
+const MAX_BATCH = 500
+const CODE_LENGTH = 6
+// No 0/O or 1/I, so printed codes can be typed back without guessing
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+
+interface VoucherStoreFile {
+    version: number
+    vouchers: Voucher[]
+}
+
+/**
+ * VoucherStore - Discount and free-session codes issued from the admin panel
+ * Uses are counted here in the main process, so a single-use code can't be
+ * redeemed twice even if two screens quote it at the same time.
+ */
+export class VoucherStore {
+    private filePath = ''
+    private vouchers = new Map<string, Voucher>()
+    private saveTimer: ReturnType<typeof setTimeout> | null = null
+
+    load(dataDir: string): void {
+        if (!existsSync(dataDir)) {
+            mkdirSync(dataDir, { recursive: true })
+        }
+        this.filePath = join(dataDir, 'vouchers.json')
+        if (!existsSync(this.filePath)) return
+
+        try {
+            const file: VoucherStoreFile = JSON.parse(readFileSync(this.filePath, 'utf-8'))
+            file.vouchers.forEach(voucher => this.vouchers.set(voucher.code, voucher))
+        } catch (error) {
+            console.error('Failed to read vouchers, starting empty:', error)
+            renameSync(this.filePath, `${this.filePath}.corrupt-${Date.now()}`)
+        }
+    }
+
+    /**
+     * Every voucher, newest first
+     */
+    list(): Voucher[] {
+        return Array.from(this.vouchers.values()).sort((a, b) => b.createdAt - a.createdAt)
+    }
+
+    /**
+     * Add one voucher with the given code, or a batch of generated codes
+     */
+    create(request: VoucherCreateRequest): Voucher[] {
+        validateDiscount(request)
+        if (request.maxUses !== null && (!Number.isInteger(request.maxUses) || request.maxUses < 1)) {
+            throw new Error('Max uses must be at least 1')
+        }
+
+        const code = request.code ? normalizeCode(request.code) : ''
+        if (request.code !== undefined && !code) {
+            throw new Error('Voucher code is empty')
+        }
+        if (code && this.vouchers.has(code)) {
+            throw new Error(`Voucher ${code} already exists`)
+        }
+
+        const count = code ? 1 : Math.min(Math.max(1, Math.floor(request.count || 1)), MAX_BATCH)
+        const prefix = normalizeCode(request.prefix || '')
+        const createdAt = Date.now()
+        const created: Voucher[] = []
+
+        for (let i = 0; i < count; i++) {
+            const voucher: Voucher = {
+                code: code || this.generateCode(prefix),
+                label: request.label?.trim() || undefined,
+                discountType: request.discountType,
+                discountValue: request.discountType === 'free' ? 0 : request.discountValue,
+                maxUses: request.maxUses,
+                uses: 0,
+                expiresAt: request.expiresAt,
+                createdAt
+            }
+            this.vouchers.set(voucher.code, voucher)
+            created.push(voucher)
+        }
+
+        this.scheduleSave()
+        return created
+    }
+
+    delete(code: string): void {
+        if (!this.vouchers.delete(normalizeCode(code))) {
+            throw new Error('Voucher not found')
+        }
+        this.scheduleSave()
+    }
+
+    /**
+     * Price after the voucher, without using it up
+     */
+    quote(code: string, subtotal: number): VoucherQuote {
+        const voucher = this.findUsable(code)
+
+        let discount = subtotal
+        if (voucher.discountType === 'percent') {
+            discount = Math.round(subtotal * voucher.discountValue / 100)
+        } else if (voucher.discountType === 'amount') {
+            discount = voucher.discountValue
+        }
+        discount = Math.min(Math.max(0, discount), subtotal)
+
+        return {
+            code: voucher.code,
+            discountType: voucher.discountType,
+            discountValue: voucher.discountValue,
+            subtotal,
+            discount,
+            total: subtotal - discount
+        }
+    }
+
+    /**
+     * Use the voucher once; throws when it's expired or used up
+     */
+    redeem(code: string, subtotal: number): VoucherRedemption {
+        const quote = this.quote(code, subtotal)
+        const voucher = this.vouchers.get(quote.code)!
+        voucher.uses++
+        this.scheduleSave()
+
+        return {
+            code: voucher.code,
+            discountType: voucher.discountType,
+            discount: quote.discount,
+            redeemedAt: Date.now()
+        }
+    }
+
+    /**
+     * Hand back a use taken by redeem(), when the order it paid for ends unpaid
+     */
+    release(code: string): void {
+        const voucher = this.vouchers.get(normalizeCode(code))
+        if (!voucher || voucher.uses === 0) return
+        voucher.uses--
+        this.scheduleSave()
+    }
+
+    /**
+     * Write pending changes now (also called on quit)
+     */
+    flush(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer)
+            this.saveTimer = null
+        }
+        if (!this.filePath) return
+
+        try {
+            const file: VoucherStoreFile = { version: STORE_VERSION, vouchers: Array.from(this.vouchers.values()) }
+            const tempPath = `${this.filePath}.tmp`
+            writeFileSync(tempPath, JSON.stringify(file, null, 2))
+            renameSync(tempPath, this.filePath)
+        } catch (error) {
+            console.error('Failed to save vouchers:', error)
+        }
+    }
+
+    private findUsable(code: string): Voucher {
+        const voucher = this.vouchers.get(normalizeCode(code))
+        if (!voucher) {
+            throw new Error('Voucher not found')
+        }
+        if (voucher.expiresAt !== undefined && Date.now() > voucher.expiresAt) {
+            throw new Error('Voucher has expired')
+        }
+        if (voucher.maxUses !== null && voucher.uses >= voucher.maxUses) {
+            throw new Error('Voucher has already been used')
+        }
+        return voucher
+    }
+
+    private generateCode(prefix: string): string {
+        let code = ''
+        do {
+            code = prefix
+            for (let i = 0; i < CODE_LENGTH; i++) {
+                code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]
+            }
+        } while (this.vouchers.has(code))
+        return code
+    }
+
+    private scheduleSave(): void {
+        if (this.saveTimer) clearTimeout(this.saveTimer)
+        this.saveTimer = setTimeout(() => this.flush(), SAVE_DELAY_MS)
+    }
+}
+
+// Codes are matched case-insensitively and without surrounding spaces (scanners add them)
+function normalizeCode(code: string): string {
+    return code.trim().toUpperCase()
+}
+
+function validateDiscount(request: VoucherCreateRequest): void {
+    if (request.discountType === 'percent' && !(request.discountValue > 0 && request.discountValue <= 100)) {
+        throw new Error('Percent off must be between 1 and 100')
+    }
+    if (request.discountType === 'amount' && !(request.discountValue > 0)) {
+        throw new Error('Amount off must be more than 0')
+    }
+}
+
+export const voucherStore = new VoucherStore()
@@ -0,0 +1,57 @@
+/**
+ * Helpers for patching encoded GIF files in place.
+ */
+
+/**
+ * Rewrite each frame's delay in the Graphic Control Extensions.
+ * Delays are given in milliseconds (GIF stores centiseconds); frames beyond
+ * the end of the list reuse the last delay. Returns the number of frames found.
+ */
+export function setGifFrameDelays(gif: Buffer, delaysMs: number[]): number {
+    if (gif.toString('ascii', 0, 3) !== 'GIF') {
+        throw new Error('Not a GIF file')
+    }
+
+    // Header + logical screen descriptor, then the optional global color table
+    let offset = 13
+    const screenFlags = gif[10]
+    if (screenFlags & 0x80) {
+        offset += 3 * (1 << ((screenFlags & 0x07) + 1))
+    }
+
+    let frame = 0
+    while (offset < gif.length) {
+        const block = gif[offset]
+
+        if (block === 0x21) {
+            // Extension: 0x21, label, then data sub-blocks
+            if (gif[offset + 1] === 0xf9 && delaysMs.length > 0) {
+                const delay = delaysMs[Math.min(frame, delaysMs.length - 1)]
+                gif.writeUInt16LE(Math.max(2, Math.round(delay / 10)), offset + 4)
+                frame++
+            }
+            offset = skipSubBlocks(gif, offset + 2)
+        } else if (block === 0x2c) {
+            // Image descriptor, optional local color table, LZW code size, then image data
+            const imageFlags = gif[offset + 9]
+            offset += 10
+            if (imageFlags & 0x80) {
+                offset += 3 * (1 << ((imageFlags & 0x07) + 1))
+            }
+            offset = skipSubBlocks(gif, offset + 1)
+        } else if (block === 0x3b) {
+            break
+        } else {
+            throw new Error(`Unexpected GIF block 0x${block.toString(16)} at ${offset}`)
+        }
+    }
+
+    return frame
+}
+
+function skipSubBlocks(gif: Buffer, offset: number): number {
+    while (offset < gif.length && gif[offset] !== 0) {
+        offset += gif[offset] + 1
+    }
+    return offset + 1
+}
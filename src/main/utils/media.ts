@@ -0,0 +1,36 @@
+/**
+ * Helpers for media references coming from the renderer.
+ * Photos can arrive as data URLs (webcam), file:/// URLs (DSLR) or plain paths.
+ */
+
+const DATA_URL_PATTERN = /^data:([a-zA-Z0-9]+\/[a-zA-Z0-9-.+]+);base64,(.+)$/
+
+/**
+ * Decode a base64 data URL into a buffer, or null if it is not a data URL
+ */
+export function decodeDataUrl(dataUrl: string): { mimeType: string; buffer: Buffer } | null {
+    const matches = dataUrl.match(DATA_URL_PATTERN)
+    if (!matches) return null
+    return { mimeType: matches[1], buffer: Buffer.from(matches[2], 'base64') }
+}
+
+/**
+ * Convert a file:/// URL (or an already plain path) to a filesystem path
+ */
+export function toFilePath(ref: string): string {
+    if (ref.startsWith('file:///')) {
+        return decodeURIComponent(new URL(ref).pathname.substring(process.platform === 'win32' ? 1 : 0))
+    }
+    return decodeURIComponent(ref)
+}
+
+/**
+ * Resolve a renderer media reference to something sharp/fs can read
+ */
+export function resolveMediaInput(ref: string): string | Buffer {
+    const decoded = decodeDataUrl(ref)
+    if (decoded) return decoded.buffer
+    return toFilePath(ref)
+}
+
+export { toFileUrl } from '@shared/fileUrl'
@@ -0,0 +1,65 @@
+/**
+ * Minimal single-page PDF writer for print-ready images.
+ * The JPEG is embedded as-is (DCTDecode) and stretched over the full page.
+ */
+
+/**
+ * Wrap a baseline JPEG in a one-page PDF sized in inches
+ */
+export function jpegToPdf(
+    jpeg: Buffer,
+    pixelWidth: number,
+    pixelHeight: number,
+    pageWidthInches: number,
+    pageHeightInches: number
+): Buffer {
+    // PDF user space is 72 points per inch
+    const pageWidth = (pageWidthInches * 72).toFixed(2)
+    const pageHeight = (pageHeightInches * 72).toFixed(2)
+    const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`
+
+    const objects: Buffer[] = [
+        Buffer.from('<< /Type /Catalog /Pages 2 0 R >>'),
+        Buffer.from('<< /Type /Pages /Kids [3 0 R] /Count 1 >>'),
+        Buffer.from(
+            `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+            '/Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>'
+        ),
+        Buffer.concat([
+            Buffer.from(
+                `<< /Type /XObject /Subtype /Image /Width ${pixelWidth} /Height ${pixelHeight} ` +
+                `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`
+            ),
+            jpeg,
+            Buffer.from('\nendstream')
+        ]),
+        Buffer.from(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`)
+    ]
+
+    const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'binary')]
+    const offsets: number[] = []
+    let length = chunks[0].length
+
+    objects.forEach((body, index) => {
+        offsets.push(length)
+        const chunk = Buffer.concat([Buffer.from(`${index + 1} 0 obj\n`), body, Buffer.from('\nendobj\n')])
+        chunks.push(chunk)
+        length += chunk.length
+    })
+
+    // Cross-reference table entries are fixed at 20 bytes each
+    const xref = [
+        'xref',
+        `0 ${objects.length + 1}`,
+        '0000000000 65535 f ',
+        ...offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+        'trailer',
+        `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+        'startxref',
+        String(length),
+        '%%EOF'
+    ].join('\n')
+    chunks.push(Buffer.from(xref + '\n'))
+
+    return Buffer.concat(chunks)
+}
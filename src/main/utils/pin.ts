@@ -0,0 +1,60 @@
+/**
+ * Salted scrypt hashes for staff PINs, stored as "salt:hash" (hex).
+ * PINs are short, so the slow hash is what makes a leaked file costly to brute-force.
+ */
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto'
+
+const KEY_LENGTH = 32
+
+export function hashPin(pin: string): string {
+    const salt = randomBytes(16)
+    return `${salt.toString('hex')}:${scryptSync(pin, salt, KEY_LENGTH).toString('hex')}`
+}
+
+export function verifyPin(pin: string, stored: string): boolean {
+    const [salt, hash] = stored.split(':')
+    if (!salt || !hash) return false
+
+    const expected = Buffer.from(hash, 'hex')
+    if (!expected.length) return false
+    const actual = scryptSync(pin, Buffer.from(salt, 'hex'), expected.length)
+    return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+// Wrong PINs a requester gets before waiting; every further lockout doubles, up to an hour
+const MAX_PIN_ATTEMPTS = 5
+const LOCKOUT_MS = 60 * 1000
+const MAX_LOCKOUT_MS = 60 * 60 * 1000
+
+/**
+ * Backoff for PIN guesses, per requester (the booth itself, or a phone's IP
+ * address on the open WiFi). It isn't tied to an order, so cancelling and
+ * starting a new one doesn't buy more guesses.
+ */
+export class PinAttemptLimiter {
+    private requesters = new Map<string, { failures: number; lockedUntil: number }>()
+
+    /**
+     * Throw while the requester is locked out
+     */
+    check(requester: string): void {
+        const wait = (this.requesters.get(requester)?.lockedUntil ?? 0) - Date.now()
+        if (wait > 0) {
+            throw new Error(`Too many wrong PINs, try again in ${Math.ceil(wait / 60000)} min`)
+        }
+    }
+
+    fail(requester: string): void {
+        const state = this.requesters.get(requester) || { failures: 0, lockedUntil: 0 }
+        state.failures++
+        if (state.failures % MAX_PIN_ATTEMPTS === 0) {
+            const lockouts = state.failures / MAX_PIN_ATTEMPTS
+            state.lockedUntil = Date.now() + Math.min(LOCKOUT_MS * 2 ** (lockouts - 1), MAX_LOCKOUT_MS)
+        }
+        this.requesters.set(requester, state)
+    }
+
+    succeed(requester: string): void {
+        this.requesters.delete(requester)
+    }
+}
@@ -0,0 +1,197 @@
+/**
+ * Minimal zip archive writer/reader for packages we create ourselves.
+ * Entries are deflated; reading accepts stored and deflated entries only
+ * (no zip64, encryption or multi-disk archives).
+ */
+import { readFileSync, statSync } from 'fs'
+import { deflateRawSync, inflateRawSync } from 'zlib'
+
+export interface ZipEntry {
+    name: string // Forward-slash path inside the archive
+    data: Buffer
+}
+
+const LOCAL_HEADER = 0x04034b50
+const CENTRAL_HEADER = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const UTF8_NAMES = 0x0800
+
+// Packages are picked by the user, so a hostile or broken one must not exhaust the main process's memory
+const MAX_ENTRIES = 2000
+const MAX_ARCHIVE_BYTES = 512 * 1024 * 1024
+const MAX_UNPACKED_BYTES = 512 * 1024 * 1024
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+        let c = n
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+        }
+        table[n] = c >>> 0
+    }
+    return table
+})()
+
+function crc32(data: Buffer): number {
+    let crc = 0xffffffff
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+    }
+    return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS date and time fields used by zip headers
+function dosDateTime(date: Date): { time: number; date: number } {
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+    }
+}
+
+/**
+ * Build a zip archive from in-memory entries
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Buffer {
+    const { time, date } = dosDateTime(modified)
+    const chunks: Buffer[] = []
+    const central: Buffer[] = []
+    let offset = 0
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.name, 'utf8')
+        const compressed = deflateRawSync(entry.data)
+        const crc = crc32(entry.data)
+
+        const local = Buffer.alloc(30)
+        local.writeUInt32LE(LOCAL_HEADER, 0)
+        local.writeUInt16LE(20, 4) // Version needed to extract
+        local.writeUInt16LE(UTF8_NAMES, 6)
+        local.writeUInt16LE(8, 8) // Deflate
+        local.writeUInt16LE(time, 10)
+        local.writeUInt16LE(date, 12)
+        local.writeUInt32LE(crc, 14)
+        local.writeUInt32LE(compressed.length, 18)
+        local.writeUInt32LE(entry.data.length, 22)
+        local.writeUInt16LE(name.length, 26)
+        local.writeUInt16LE(0, 28)
+
+        const header = Buffer.alloc(46)
+        header.writeUInt32LE(CENTRAL_HEADER, 0)
+        header.writeUInt16LE(20, 4) // Version made by
+        header.writeUInt16LE(20, 6)
+        header.writeUInt16LE(UTF8_NAMES, 8)
+        header.writeUInt16LE(8, 10)
+        header.writeUInt16LE(time, 12)
+        header.writeUInt16LE(date, 14)
+        header.writeUInt32LE(crc, 16)
+        header.writeUInt32LE(compressed.length, 20)
+        header.writeUInt32LE(entry.data.length, 24)
+        header.writeUInt16LE(name.length, 28)
+        header.writeUInt32LE(offset, 42)
+
+        chunks.push(local, name, compressed)
+        central.push(header, name)
+        offset += local.length + name.length + compressed.length
+    }
+
+    const centralDirectory = Buffer.concat(central)
+    const end = Buffer.alloc(22)
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0)
+    end.writeUInt16LE(entries.length, 8)
+    end.writeUInt16LE(entries.length, 10)
+    end.writeUInt32LE(centralDirectory.length, 12)
+    end.writeUInt32LE(offset, 16)
+
+    return Buffer.concat([...chunks, centralDirectory, end])
+}
+
+/**
+ * Read a zip archive from disk, refusing files too large to hold in memory
+ */
+export function readZipFile(zipPath: string): ZipEntry[] {
+    if (statSync(zipPath).size > MAX_ARCHIVE_BYTES) {
+        throw new Error(`Archive is larger than ${MAX_ARCHIVE_BYTES / 1024 / 1024} MB`)
+    }
+    return readZip(readFileSync(zipPath))
+}
+
+/**
+ * Read every file entry of a zip archive (directory entries are skipped)
+ */
+export function readZip(zip: Buffer): ZipEntry[] {
+    // The end of central directory record sits at the end, before an optional comment
+    let end = -1
+    for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+        if (zip.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+            end = i
+            break
+        }
+    }
+    if (end === -1) {
+        throw new Error('Not a zip archive')
+    }
+
+    const count = zip.readUInt16LE(end + 10)
+    if (count > MAX_ENTRIES) {
+        throw new Error(`Archive has ${count} entries, more than the ${MAX_ENTRIES} allowed`)
+    }
+    let offset = zip.readUInt32LE(end + 16)
+    const entries: ZipEntry[] = []
+    let unpackedBytes = 0
+
+    for (let i = 0; i < count; i++) {
+        if (zip.readUInt32LE(offset) !== CENTRAL_HEADER) {
+            throw new Error('Corrupt zip central directory')
+        }
+
+        const method = zip.readUInt16LE(offset + 10)
+        const crc = zip.readUInt32LE(offset + 16)
+        const compressedSize = zip.readUInt32LE(offset + 20)
+        const nameLength = zip.readUInt16LE(offset + 28)
+        const extraLength = zip.readUInt16LE(offset + 30)
+        const commentLength = zip.readUInt16LE(offset + 32)
+        const localOffset = zip.readUInt32LE(offset + 42)
+        const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength)
+        offset += 46 + nameLength + extraLength + commentLength
+
+        if (name.endsWith('/')) continue
+
+        // Local headers can carry their own extra field, so find the data from there
+        if (zip.readUInt32LE(localOffset) !== LOCAL_HEADER) {
+            throw new Error(`Corrupt zip entry: ${name}`)
+        }
+        const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28)
+        const raw = zip.subarray(dataStart, dataStart + compressedSize)
+
+        // Sizes in the header can lie, so the inflate itself is capped to what's left of the budget
+        const budget = MAX_UNPACKED_BYTES - unpackedBytes
+        let data: Buffer
+        if (method === 0) {
+            if (raw.length > budget) {
+                throw new Error('Archive unpacks to more than the allowed size')
+            }
+            data = Buffer.from(raw)
+        } else if (method === 8) {
+            try {
+                data = inflateRawSync(raw, { maxOutputLength: Math.max(1, budget) })
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+                    throw new Error('Archive unpacks to more than the allowed size')
+                }
+                throw error
+            }
+        } else {
+            throw new Error(`Unsupported zip compression method ${method} for ${name}`)
+        }
+
+        if (crc32(data) !== crc) {
+            throw new Error(`Checksum mismatch in zip entry: ${name}`)
+        }
+
+        unpackedBytes += data.length
+        entries.push({ name, data })
+    }
+
+    return entries
+}
@@ -0,0 +1,14 @@
+import { parentPort, workerData } from 'worker_threads'
+import { CubeLut, LutInterpolation } from '../services/CubeLut'
+
+export interface LutWorkerData {
+    pixels: Uint8Array // Interleaved 8-bit pixels, graded in place and sent back
+    channels: number
+    cubePath: string
+    interpolation: LutInterpolation
+}
+
+// Grading a full-size photo takes seconds of per-pixel work, too long to block the main process
+const { pixels, channels, cubePath, interpolation } = workerData as LutWorkerData
+CubeLut.load(cubePath).applyToBuffer(Buffer.from(pixels.buffer, pixels.byteOffset, pixels.byteLength), channels, interpolation)
+parentPort!.postMessage(pixels, [pixels.buffer as ArrayBuffer])
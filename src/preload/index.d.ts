@@ -2,20 +2,66 @@ import { ElectronAPI } from '@electron-toolkit/preload'
 import {
     CameraDevice,
     CaptureResult,
+    CameraSettings,
+    CameraSettingOptions,
+    CameraStatusEvent,
+    CameraWatchdogOptions,
     PrinterDevice,
     PrintResult,
+    PrinterStatus,
+    PrintJob,
+    PrintJobRequest,
+    PrintLayoutOptions,
+    PrintLayoutResult,
+    GifOptions,
+    BoomerangOptions,
+    BoomerangResult,
+    RenderSessionOptions,
+    SessionRenderResult,
     PhotoSlot,
+    PhotoCrop,
+    FrameConfig,
+    FrameLayer,
+    FrameTextValues,
+    SettingsChangeEvent,
+    BoothBackupPreview,
+    SessionRecord,
+    SessionRecordUpdate,
+    SessionSearchQuery,
+    SessionSearchResult,
+    SyncJob,
+    SyncRequest,
+    SyncStatus,
+    PaymentCharge,
+    PaymentOrderRequest,
+    PriceSelection,
+    PaymentOrder,
+    PaymentCredentialsStatus,
+    EmailCredentialsStatus,
+    Voucher,
+    VoucherCreateRequest,
+    VoucherQuote,
+    VoucherRedemption,
     APIResponse
 } from '../shared/types'
 
 interface CameraAPI {
     list: () => Promise<APIResponse<CameraDevice[]>>
-    connect: (cameraId: string) => Promise<APIResponse<boolean>>
+    connect: (cameraId: string, settings?: CameraSettings) => Promise<APIResponse<boolean>>
     disconnect: () => Promise<APIResponse<void>>
     capture: (slotId?: string) => Promise<APIResponse<CaptureResult>>
+    captureBurst: (count: number, intervalMs: number) => Promise<APIResponse<CaptureResult[]>>
     status: () => Promise<APIResponse<{ connected: boolean; camera: CameraDevice | null }>>
     useMock: () => Promise<APIResponse<void>>
     useReal: () => Promise<APIResponse<void>>
+    getSettings: () => Promise<APIResponse<CameraSettings>>
+    setSettings: (settings: CameraSettings) => Promise<APIResponse<void>>
+    listSettingOptions: () => Promise<APIResponse<CameraSettingOptions>>
+    configureWatchdog: (options: Partial<CameraWatchdogOptions>) => Promise<APIResponse<CameraStatusEvent>>
+    onStatusChanged: (callback: (event: CameraStatusEvent) => void) => () => void
+    startLiveView: () => Promise<APIResponse<void>>
+    stopLiveView: () => Promise<APIResponse<void>>
+    onLiveViewFrame: (callback: (frame: Uint8Array) => void) => () => void
 }
 
 interface PrinterAPI {
@@ -24,8 +70,14 @@ interface PrinterAPI {
     print: (filePath: string, printerName?: string) => Promise<APIResponse<PrintResult>>
     printWithOptions: (
         filePath: string,
-        options: { printer?: string; copies?: number; scale?: 'fit' | 'noscale' }
+        options: { printer?: string; copies?: number; scale?: 'fit' | 'noscale'; media?: string }
     ) => Promise<APIResponse<PrintResult>>
+    status: (printerName?: string) => Promise<APIResponse<PrinterStatus>>
+    enqueue: (request: PrintJobRequest) => Promise<APIResponse<PrintJob>>
+    jobs: (sessionId?: string) => Promise<APIResponse<PrintJob[]>>
+    retry: (jobId: string) => Promise<APIResponse<PrintJob>>
+    cancel: (jobId: string) => Promise<APIResponse<PrintJob>>
+    onJobUpdated: (callback: (job: PrintJob) => void) => () => void
 }
 
 interface SystemAPI {
@@ -45,28 +97,35 @@ interface SystemAPI {
     saveDataUrl: (dataUrl: string, filename: string) => Promise<APIResponse<string>>
     saveSessionLocally: (params: {
         sessionId: string
-        stripDataUrl?: string
-        gifDataUrl?: string
+        stripPath?: string
+        gifPath?: string
+        boomerang?: BoomerangResult
         photos: { path: string; filename: string }[]
-        videos: { path: string; filename: string }[]
+        videos: { path: string; filename: string; crop?: PhotoCrop }[]
         overlay?: { path: string; filename: string }
+        lutPath?: string
         frameConfig?: {
             width: number
             height: number
             slots: { width: number; height: number; x: number; y: number; rotation: number }[]
+            layers?: FrameLayer[]
         }
+        textValues?: FrameTextValues
+        session?: SessionRecordUpdate
     }) => Promise<APIResponse<{ path: string; filename: string; mimeType: string }[]>>
-    generateHqGif: (framesBase64: string[], delayMs: number) => Promise<APIResponse<string>>
+    exportFrames: (frames: FrameConfig[]) => Promise<APIResponse<string | null>>
+    importFrames: (packagePath?: string) => Promise<APIResponse<FrameConfig[]>>
 }
 
 interface ImageAPI {
     composite: (options: {
-        photos: { path: string; slot: PhotoSlot }[]
+        photos: { path: string; slot: PhotoSlot; crop?: PhotoCrop }[]
         framePath: string
         outputPath: string
         canvasWidth: number
         canvasHeight: number
     }) => Promise<APIResponse<string>>
+    renderSession: (options: RenderSessionOptions) => Promise<APIResponse<SessionRenderResult>>
     resize: (options: {
         inputPath: string
         outputPath: string
@@ -85,12 +144,17 @@ interface ImageAPI {
             sepia?: boolean
         }
     }) => Promise<APIResponse<string>>
-    generateGif: (options: {
+    applyLut: (options: {
+        inputPath: string
+        cubePath: string
+        outputPath?: string
+        interpolation?: 'trilinear' | 'tetrahedral'
+    }) => Promise<APIResponse<string>>
+    renderPrintLayout: (options: PrintLayoutOptions) => Promise<APIResponse<PrintLayoutResult>>
+    generateBoomerang: (options: BoomerangOptions) => Promise<APIResponse<BoomerangResult>>
+    generateGif: (options: GifOptions & {
         imagePaths: string[]
-        outputPath: string
-        delay?: number
-        width?: number
-        height?: number
+        outputPath?: string
     }) => Promise<APIResponse<string>>
     metadata: (imagePath: string) => Promise<APIResponse<{
         width: number
@@ -113,6 +177,8 @@ interface EmailAPI {
         photoUrls?: string[]
     }) => Promise<{ success: boolean; error?: string; messageId?: string }>
     isConfigured: () => Promise<boolean>
+    setAppPassword: (password: string) => Promise<APIResponse<EmailCredentialsStatus>>
+    credentials: () => Promise<APIResponse<EmailCredentialsStatus>>
 }
 
 interface DriveAPI {
@@ -128,6 +194,51 @@ interface DriveAPI {
     }>
 }
 
+interface SettingsAPI {
+    get: <T>(key: string) => Promise<APIResponse<T | null>>
+    set: <T>(key: string, value: T, fromVersion?: number) => Promise<APIResponse<T>>
+    remove: (key: string) => Promise<APIResponse<void>>
+    exportBackup: () => Promise<APIResponse<string | null>>
+    previewBackup: (backupPath?: string) => Promise<APIResponse<BoothBackupPreview | null>>
+    importBackup: (backupPath: string) => Promise<APIResponse<void>>
+    subscribe: (callback: (event: SettingsChangeEvent) => void) => () => void
+}
+
+interface SessionsAPI {
+    search: (query?: SessionSearchQuery) => Promise<APIResponse<SessionSearchResult>>
+    update: (sessionId: string, details: SessionRecordUpdate) => Promise<APIResponse<SessionRecord>>
+}
+
+interface SyncAPI {
+    status: () => Promise<APIResponse<SyncStatus>>
+    retry: (jobId?: string) => Promise<APIResponse<SyncJob[]>>
+    uploadSession: (request: SyncRequest) => Promise<APIResponse<SyncJob>>
+    onJobUpdated: (callback: (job: SyncJob) => void) => () => void
+}
+
+interface PaymentAPI {
+    createCharge: (request: PaymentOrderRequest) => Promise<APIResponse<PaymentOrder>>
+    status: (orderId: string) => Promise<APIResponse<PaymentCharge>>
+    cancel: (orderId: string) => Promise<APIResponse<PaymentCharge>>
+    refund: (orderId: string, amount?: number, reason?: string) => Promise<APIResponse<PaymentCharge>>
+    setServerKey: (serverKey: string) => Promise<APIResponse<PaymentCredentialsStatus>>
+    credentials: () => Promise<APIResponse<PaymentCredentialsStatus>>
+    setOperatorPin: (operatorId: string, pin: string) => Promise<APIResponse<PaymentCredentialsStatus>>
+    setOverridePin: (pin: string) => Promise<APIResponse<PaymentCredentialsStatus>>
+    verifyOverridePin: (pin: string) => Promise<APIResponse<boolean>>
+    createCash: (request: PaymentOrderRequest) => Promise<APIResponse<PaymentOrder>>
+    confirmCash: (orderId: string, pin: string) => Promise<APIResponse<PaymentCharge>>
+    onUpdated: (callback: (order: PaymentOrder) => void) => () => void
+}
+
+interface VouchersAPI {
+    list: () => Promise<APIResponse<Voucher[]>>
+    create: (request: VoucherCreateRequest) => Promise<APIResponse<Voucher[]>>
+    delete: (code: string) => Promise<APIResponse<void>>
+    quote: (code: string, selection: PriceSelection) => Promise<APIResponse<VoucherQuote>>
+    redeem: (code: string, selection: PriceSelection) => Promise<APIResponse<VoucherRedemption>>
+}
+
 interface API {
     camera: CameraAPI
     printer: PrinterAPI
@@ -136,6 +247,11 @@ interface API {
     window: WindowAPI
     email: EmailAPI
     drive: DriveAPI
+    settings: SettingsAPI
+    sessions: SessionsAPI
+    sync: SyncAPI
+    payment: PaymentAPI
+    vouchers: VouchersAPI
 }
 
 declare global {
@@ -1,11 +1,48 @@
-import { contextBridge, ipcRenderer } from 'electron'
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron'
 import { electronAPI } from '@electron-toolkit/preload'
 import {
     CameraDevice,
     CaptureResult,
+    CameraSettings,
+    CameraSettingOptions,
+    CameraStatusEvent,
+    CameraWatchdogOptions,
     PrinterDevice,
     PrintResult,
+    PrinterStatus,
+    PrintJob,
+    PrintJobRequest,
+    PrintLayoutOptions,
+    PrintLayoutResult,
+    GifOptions,
+    BoomerangOptions,
+    BoomerangResult,
+    RenderSessionOptions,
+    SessionRenderResult,
     PhotoSlot,
+    PhotoCrop,
+    FrameConfig,
+    FrameLayer,
+    FrameTextValues,
+    SettingsChangeEvent,
+    BoothBackupPreview,
+    SessionRecord,
+    SessionRecordUpdate,
+    SessionSearchQuery,
+    SessionSearchResult,
+    SyncJob,
+    SyncRequest,
+    SyncStatus,
+    PaymentCharge,
+    PaymentOrderRequest,
+    PriceSelection,
+    PaymentOrder,
+    PaymentCredentialsStatus,
+    EmailCredentialsStatus,
+    Voucher,
+    VoucherCreateRequest,
+    VoucherQuote,
+    VoucherRedemption,
     APIResponse
 } from '../shared/types'
 
@@ -16,8 +53,8 @@ const api = {
         list: (): Promise<APIResponse<CameraDevice[]>> =>
             ipcRenderer.invoke('camera:list'),
 
-        connect: (cameraId: string): Promise<APIResponse<boolean>> =>
-            ipcRenderer.invoke('camera:connect', cameraId),
+        connect: (cameraId: string, settings?: CameraSettings): Promise<APIResponse<boolean>> =>
+            ipcRenderer.invoke('camera:connect', cameraId, settings),
 
         disconnect: (): Promise<APIResponse<void>> =>
             ipcRenderer.invoke('camera:disconnect'),
@@ -25,6 +62,9 @@ const api = {
         capture: (slotId?: string): Promise<APIResponse<CaptureResult>> =>
             ipcRenderer.invoke('camera:capture', slotId),
 
+        captureBurst: (count: number, intervalMs: number): Promise<APIResponse<CaptureResult[]>> =>
+            ipcRenderer.invoke('camera:capture-burst', count, intervalMs),
+
         status: (): Promise<APIResponse<{ connected: boolean; camera: CameraDevice | null }>> =>
             ipcRenderer.invoke('camera:status'),
 
@@ -32,7 +72,39 @@ const api = {
             ipcRenderer.invoke('camera:use-mock'),
 
         useReal: (): Promise<APIResponse<void>> =>
-            ipcRenderer.invoke('camera:use-real')
+            ipcRenderer.invoke('camera:use-real'),
+
+        getSettings: (): Promise<APIResponse<CameraSettings>> =>
+            ipcRenderer.invoke('camera:get-settings'),
+
+        setSettings: (settings: CameraSettings): Promise<APIResponse<void>> =>
+            ipcRenderer.invoke('camera:set-settings', settings),
+
+        listSettingOptions: (): Promise<APIResponse<CameraSettingOptions>> =>
+            ipcRenderer.invoke('camera:list-setting-options'),
+
+        configureWatchdog: (options: Partial<CameraWatchdogOptions>): Promise<APIResponse<CameraStatusEvent>> =>
+            ipcRenderer.invoke('camera:configure-watchdog', options),
+
+        // Subscribe to connection health changes, returns an unsubscribe function
+        onStatusChanged: (callback: (event: CameraStatusEvent) => void): (() => void) => {
+            const listener = (_: IpcRendererEvent, event: CameraStatusEvent): void => callback(event)
+            ipcRenderer.on('camera:status-changed', listener)
+            return () => ipcRenderer.removeListener('camera:status-changed', listener)
+        },
+
+        startLiveView: (): Promise<APIResponse<void>> =>
+            ipcRenderer.invoke('camera:start-live-view'),
+
+        stopLiveView: (): Promise<APIResponse<void>> =>
+            ipcRenderer.invoke('camera:stop-live-view'),
+
+        // Subscribe to live view JPEG frames, returns an unsubscribe function
+        onLiveViewFrame: (callback: (frame: Uint8Array) => void): (() => void) => {
+            const listener = (_: IpcRendererEvent, frame: Uint8Array): void => callback(frame)
+            ipcRenderer.on('camera:live-view-frame', listener)
+            return () => ipcRenderer.removeListener('camera:live-view-frame', listener)
+        }
     },
 
     // Printer APIs
@@ -48,9 +120,31 @@ const api = {
 
         printWithOptions: (
             filePath: string,
-            options: { printer?: string; copies?: number; scale?: 'fit' | 'noscale' }
+            options: { printer?: string; copies?: number; scale?: 'fit' | 'noscale'; media?: string }
         ): Promise<APIResponse<PrintResult>> =>
-            ipcRenderer.invoke('printer:print-with-options', filePath, options)
+            ipcRenderer.invoke('printer:print-with-options', filePath, options),
+
+        status: (printerName?: string): Promise<APIResponse<PrinterStatus>> =>
+            ipcRenderer.invoke('printer:status', printerName),
+
+        enqueue: (request: PrintJobRequest): Promise<APIResponse<PrintJob>> =>
+            ipcRenderer.invoke('printer:enqueue', request),
+
+        jobs: (sessionId?: string): Promise<APIResponse<PrintJob[]>> =>
+            ipcRenderer.invoke('printer:jobs', sessionId),
+
+        retry: (jobId: string): Promise<APIResponse<PrintJob>> =>
+            ipcRenderer.invoke('printer:retry', jobId),
+
+        cancel: (jobId: string): Promise<APIResponse<PrintJob>> =>
+            ipcRenderer.invoke('printer:cancel', jobId),
+
+        // Subscribe to print job changes, returns an unsubscribe function
+        onJobUpdated: (callback: (job: PrintJob) => void): (() => void) => {
+            const listener = (_: IpcRendererEvent, job: PrintJob): void => callback(job)
+            ipcRenderer.on('printer:job-updated', listener)
+            return () => ipcRenderer.removeListener('printer:job-updated', listener)
+        }
     },
 
     // System APIs
@@ -91,27 +185,35 @@ const api = {
 
         saveSessionLocally: (params: {
             sessionId: string
-            stripDataUrl?: string
-            gifDataUrl?: string
+            stripPath?: string
+            gifPath?: string
+            boomerang?: BoomerangResult
             photos: { path: string; filename: string }[]
-            videos: { path: string; filename: string }[]
+            videos: { path: string; filename: string; crop?: PhotoCrop }[]
             overlay?: { path: string; filename: string }
+            lutPath?: string
             frameConfig?: {
                 width: number
                 height: number
                 slots: { width: number; height: number; x: number; y: number }[]
+                layers?: FrameLayer[]
             }
+            textValues?: FrameTextValues
+            session?: SessionRecordUpdate
         }): Promise<APIResponse<{ path: string; filename: string; mimeType: string }[]>> =>
             ipcRenderer.invoke('system:save-session-locally', params),
 
-        generateHqGif: (framesBase64: string[], delayMs: number): Promise<APIResponse<string>> =>
-            ipcRenderer.invoke('system:generate-hq-gif', framesBase64, delayMs)
+        exportFrames: (frames: FrameConfig[]): Promise<APIResponse<string | null>> =>
+            ipcRenderer.invoke('system:export-frames', frames),
+
+        importFrames: (packagePath?: string): Promise<APIResponse<FrameConfig[]>> =>
+            ipcRenderer.invoke('system:import-frames', packagePath)
     },
 
     // Image APIs
     image: {
         composite: (options: {
-            photos: { path: string; slot: PhotoSlot }[]
+            photos: { path: string; slot: PhotoSlot; crop?: PhotoCrop }[]
             framePath: string
             outputPath: string
             canvasWidth: number
@@ -119,6 +221,9 @@ const api = {
         }): Promise<APIResponse<string>> =>
             ipcRenderer.invoke('image:composite', options),
 
+        renderSession: (options: RenderSessionOptions): Promise<APIResponse<SessionRenderResult>> =>
+            ipcRenderer.invoke('image:render-session', options),
+
         resize: (options: {
             inputPath: string
             outputPath: string
@@ -141,12 +246,23 @@ const api = {
         }): Promise<APIResponse<string>> =>
             ipcRenderer.invoke('image:apply-filter', options),
 
-        generateGif: (options: {
+        applyLut: (options: {
+            inputPath: string
+            cubePath: string
+            outputPath?: string
+            interpolation?: 'trilinear' | 'tetrahedral'
+        }): Promise<APIResponse<string>> =>
+            ipcRenderer.invoke('image:apply-lut', options),
+
+        renderPrintLayout: (options: PrintLayoutOptions): Promise<APIResponse<PrintLayoutResult>> =>
+            ipcRenderer.invoke('image:render-print-layout', options),
+
+        generateBoomerang: (options: BoomerangOptions): Promise<APIResponse<BoomerangResult>> =>
+            ipcRenderer.invoke('image:generate-boomerang', options),
+
+        generateGif: (options: GifOptions & {
             imagePaths: string[]
-            outputPath: string
-            delay?: number
-            width?: number
-            height?: number
+            outputPath?: string
         }): Promise<APIResponse<string>> =>
             ipcRenderer.invoke('image:generate-gif', options),
 
@@ -170,7 +286,13 @@ const api = {
             ipcRenderer.invoke('email:send', params),
 
         isConfigured: (): Promise<boolean> =>
-            ipcRenderer.invoke('email:is-configured')
+            ipcRenderer.invoke('email:is-configured'),
+
+        setAppPassword: (password: string): Promise<APIResponse<EmailCredentialsStatus>> =>
+            ipcRenderer.invoke('email:set-app-password', password),
+
+        credentials: (): Promise<APIResponse<EmailCredentialsStatus>> =>
+            ipcRenderer.invoke('email:credentials')
     },
 
     // Drive APIs
@@ -189,6 +311,120 @@ const api = {
 
         toggleKiosk: (): Promise<boolean> =>
             ipcRenderer.invoke('window:toggle-kiosk')
+    },
+
+    // Settings APIs (persisted stores, kept in the main process)
+    settings: {
+        get: <T>(key: string): Promise<APIResponse<T | null>> =>
+            ipcRenderer.invoke('settings:get', key),
+
+        set: <T>(key: string, value: T, fromVersion?: number): Promise<APIResponse<T>> =>
+            ipcRenderer.invoke('settings:set', key, value, fromVersion),
+
+        remove: (key: string): Promise<APIResponse<void>> =>
+            ipcRenderer.invoke('settings:remove', key),
+
+        exportBackup: (): Promise<APIResponse<string | null>> =>
+            ipcRenderer.invoke('settings:export-backup'),
+
+        previewBackup: (backupPath?: string): Promise<APIResponse<BoothBackupPreview | null>> =>
+            ipcRenderer.invoke('settings:preview-backup', backupPath),
+
+        importBackup: (backupPath: string): Promise<APIResponse<void>> =>
+            ipcRenderer.invoke('settings:import-backup', backupPath),
+
+        subscribe: (callback: (event: SettingsChangeEvent) => void): (() => void) => {
+            const listener = (_: IpcRendererEvent, event: SettingsChangeEvent): void => callback(event)
+            ipcRenderer.on('settings:changed', listener)
+            return () => ipcRenderer.removeListener('settings:changed', listener)
+        }
+    },
+
+    // Session history APIs (local session index)
+    sessions: {
+        search: (query?: SessionSearchQuery): Promise<APIResponse<SessionSearchResult>> =>
+            ipcRenderer.invoke('sessions:search', query),
+
+        update: (sessionId: string, details: SessionRecordUpdate): Promise<APIResponse<SessionRecord>> =>
+            ipcRenderer.invoke('sessions:update', sessionId, details)
+    },
+
+    // Cloud sync APIs (background upload outbox)
+    sync: {
+        status: (): Promise<APIResponse<SyncStatus>> =>
+            ipcRenderer.invoke('sync:status'),
+
+        retry: (jobId?: string): Promise<APIResponse<SyncJob[]>> =>
+            ipcRenderer.invoke('sync:retry', jobId),
+
+        uploadSession: (request: SyncRequest): Promise<APIResponse<SyncJob>> =>
+            ipcRenderer.invoke('sync:upload-session', request),
+
+        onJobUpdated: (callback: (job: SyncJob) => void): (() => void) => {
+            const listener = (_: IpcRendererEvent, job: SyncJob): void => callback(job)
+            ipcRenderer.on('sync:job-updated', listener)
+            return () => ipcRenderer.removeListener('sync:job-updated', listener)
+        }
+    },
+
+    // Payment APIs (provider calls run in main, keys stay there)
+    payment: {
+        createCharge: (request: PaymentOrderRequest): Promise<APIResponse<PaymentOrder>> =>
+            ipcRenderer.invoke('payment:create-charge', request),
+
+        status: (orderId: string): Promise<APIResponse<PaymentCharge>> =>
+            ipcRenderer.invoke('payment:status', orderId),
+
+        cancel: (orderId: string): Promise<APIResponse<PaymentCharge>> =>
+            ipcRenderer.invoke('payment:cancel', orderId),
+
+        refund: (orderId: string, amount?: number, reason?: string): Promise<APIResponse<PaymentCharge>> =>
+            ipcRenderer.invoke('payment:refund', orderId, amount, reason),
+
+        setServerKey: (serverKey: string): Promise<APIResponse<PaymentCredentialsStatus>> =>
+            ipcRenderer.invoke('payment:set-server-key', serverKey),
+
+        credentials: (): Promise<APIResponse<PaymentCredentialsStatus>> =>
+            ipcRenderer.invoke('payment:credentials'),
+
+        setOperatorPin: (operatorId: string, pin: string): Promise<APIResponse<PaymentCredentialsStatus>> =>
+            ipcRenderer.invoke('payment:set-operator-pin', operatorId, pin),
+
+        setOverridePin: (pin: string): Promise<APIResponse<PaymentCredentialsStatus>> =>
+            ipcRenderer.invoke('payment:set-override-pin', pin),
+
+        verifyOverridePin: (pin: string): Promise<APIResponse<boolean>> =>
+            ipcRenderer.invoke('payment:verify-override-pin', pin),
+
+        createCash: (request: PaymentOrderRequest): Promise<APIResponse<PaymentOrder>> =>
+            ipcRenderer.invoke('payment:create-cash', request),
+
+        confirmCash: (orderId: string, pin: string): Promise<APIResponse<PaymentCharge>> =>
+            ipcRenderer.invoke('payment:confirm-cash', orderId, pin),
+
+        onUpdated: (callback: (order: PaymentOrder) => void): (() => void) => {
+            const listener = (_: IpcRendererEvent, order: PaymentOrder): void => callback(order)
+            ipcRenderer.on('payment:updated', listener)
+            return () => ipcRenderer.removeListener('payment:updated', listener)
+        }
+    },
+
+    // Voucher APIs (promo and free-session codes)
+    vouchers: {
+        list: (): Promise<APIResponse<Voucher[]>> =>
+            ipcRenderer.invoke('vouchers:list'),
+
+        create: (request: VoucherCreateRequest): Promise<APIResponse<Voucher[]>> =>
+            ipcRenderer.invoke('vouchers:create', request),
+
+        delete: (code: string): Promise<APIResponse<void>> =>
+            ipcRenderer.invoke('vouchers:delete', code),
+
+        quote: (code: string, selection: PriceSelection): Promise<APIResponse<VoucherQuote>> =>
+            ipcRenderer.invoke('vouchers:quote', code, selection),
+
+        redeem: (code: string, selection: PriceSelection): Promise<APIResponse<VoucherRedemption>> =>
+            ipcRenderer.invoke('vouchers:redeem', code, selection)
     }
 }
 
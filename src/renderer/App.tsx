@@ -1,3 +1,4 @@
+import { useEffect } from 'react'
 import { Routes, Route } from 'react-router-dom'
 import { AnimatePresence } from 'framer-motion'
 import Landing from './pages/Landing'
@@ -7,8 +8,29 @@ import PaymentGateway from './pages/PaymentGateway'
 import CaptureSession from './pages/CaptureSession'
 import PostProcessing from './pages/PostProcessing'
 import GalleryPage from './pages/GalleryPage'
+import { useAppConfig, useCameraStore } from './stores'
+import { CameraStatusEvent } from '@shared/types'
 
 function App(): JSX.Element {
+    const { config } = useAppConfig()
+    const { setConnectionStatus } = useCameraStore()
+
+    // Keep the main-process camera watchdog in sync with admin settings
+    useEffect(() => {
+        window.api.camera.configureWatchdog({
+            enabled: config.cameraWatchdogEnabled,
+            pollInterval: config.cameraPollInterval,
+            captureRetries: config.cameraCaptureRetries
+        })
+    }, [config.cameraWatchdogEnabled, config.cameraPollInterval, config.cameraCaptureRetries])
+
+    // Track camera drops/reconnects on every page
+    useEffect(() => {
+        return window.api.camera.onStatusChanged((event: CameraStatusEvent) => {
+            setConnectionStatus(event.status)
+        })
+    }, [setConnectionStatus])
+
     const toggleFullScreen = async () => {
         try {
             await window.api.window.toggleFullscreen()
@@ -0,0 +1,174 @@
+import { useState, useEffect, useRef } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { PhotoCrop } from '@shared/types'
+import { DEFAULT_CROP, MAX_CROP_SCALE, getCropRect, normalizeCrop } from '@shared/crop'
+import styles from './CropAdjuster.module.css'
+
+interface CropAdjusterProps {
+    isOpen: boolean
+    imageSrc: string
+    aspect: number // Slot width / height
+    crop?: PhotoCrop
+    filterStyle?: string // CSS filter so the preview matches the chosen look
+    onClose: () => void
+    onSave: (crop: PhotoCrop) => void
+}
+
+type Point = { x: number; y: number }
+
+export function CropAdjuster({ isOpen, imageSrc, aspect, crop, filterStyle, onClose, onSave }: CropAdjusterProps): JSX.Element {
+    const [draft, setDraft] = useState<PhotoCrop>(crop || DEFAULT_CROP)
+    const [loaded, setLoaded] = useState<{ src: string; width: number; height: number } | null>(null)
+
+    const viewportRef = useRef<HTMLDivElement>(null)
+    // Active pointers, so two fingers pinch and one drags
+    const pointersRef = useRef<Map<number, Point>>(new Map())
+
+    // Start from the saved crop every time the adjuster opens
+    useEffect(() => {
+        if (isOpen) {
+            setDraft(crop || DEFAULT_CROP)
+        }
+    }, [isOpen])
+
+    // Size of the image being adjusted, once it has loaded
+    const natural = loaded?.src === imageSrc ? loaded : null
+    const rect = natural ? getCropRect(natural.width, natural.height, aspect, draft) : null
+
+    // Pan by a drag measured in viewport pixels
+    const pan = (dx: number, dy: number): void => {
+        const viewport = viewportRef.current
+        if (!natural || !rect || !viewport) return
+
+        const pixelScale = rect.width / viewport.clientWidth
+        const spareWidth = natural.width - rect.width
+        const spareHeight = natural.height - rect.height
+
+        setDraft(prev => normalizeCrop({
+            ...prev,
+            offsetX: spareWidth > 0 ? (rect.left - dx * pixelScale) / spareWidth : 0.5,
+            offsetY: spareHeight > 0 ? (rect.top - dy * pixelScale) / spareHeight : 0.5
+        }))
+    }
+
+    const zoom = (factor: number): void => {
+        setDraft(prev => normalizeCrop({ ...prev, scale: prev.scale * factor }))
+    }
+
+    const distance = (points: Point[]): number =>
+        Math.hypot(points[0].x - points[1].x, points[0].y - points[1].y)
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>): void => {
+        e.currentTarget.setPointerCapture(e.pointerId)
+        pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY })
+    }
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>): void => {
+        const pointers = pointersRef.current
+        const previous = pointers.get(e.pointerId)
+        if (!previous) return
+
+        if (pointers.size >= 2) {
+            const before = distance([...pointers.values()])
+            pointers.set(e.pointerId, { x: e.clientX, y: e.clientY })
+            const after = distance([...pointers.values()])
+            if (before > 0) zoom(after / before)
+        } else {
+            pointers.set(e.pointerId, { x: e.clientX, y: e.clientY })
+            pan(e.clientX - previous.x, e.clientY - previous.y)
+        }
+    }
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>): void => {
+        pointersRef.current.delete(e.pointerId)
+    }
+
+    const handleWheel = (e: React.WheelEvent<HTMLDivElement>): void => {
+        zoom(Math.exp(-e.deltaY * 0.002))
+    }
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className={styles.overlay}
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    onClick={onClose}
+                >
+                    <motion.div
+                        className={styles.modal}
+                        initial={{ scale: 0.9, opacity: 0 }}
+                        animate={{ scale: 1, opacity: 1 }}
+                        exit={{ scale: 0.9, opacity: 0 }}
+                        onClick={e => e.stopPropagation()}
+                    >
+                        <h3 className={styles.title}>Adjust Photo</h3>
+                        <p className={styles.hint}>Drag to move, pinch or scroll to zoom</p>
+
+                        <div
+                            ref={viewportRef}
+                            className={styles.viewport}
+                            style={{ aspectRatio: `${aspect}`, width: `min(100%, ${Math.round(60 * aspect)}vh)` }}
+                            onPointerDown={handlePointerDown}
+                            onPointerMove={handlePointerMove}
+                            onPointerUp={handlePointerUp}
+                            onPointerCancel={handlePointerUp}
+                            onWheel={handleWheel}
+                        >
+                            <img
+                                src={imageSrc}
+                                alt="Adjust crop"
+                                draggable={false}
+                                onLoad={e => setLoaded({
+                                    src: imageSrc,
+                                    width: e.currentTarget.naturalWidth,
+                                    height: e.currentTarget.naturalHeight
+                                })}
+                                style={rect && natural ? {
+                                    width: `${natural.width / rect.width * 100}%`,
+                                    height: `${natural.height / rect.height * 100}%`,
+                                    left: `${-rect.left / rect.width * 100}%`,
+                                    top: `${-rect.top / rect.height * 100}%`,
+                                    filter: filterStyle
+                                } : { visibility: 'hidden' }}
+                            />
+                        </div>
+
+                        <label className={styles.zoom}>
+                            <span>🔍</span>
+                            <input
+                                type="range"
+                                min={1}
+                                max={MAX_CROP_SCALE}
+                                step={0.01}
+                                value={draft.scale}
+                                onChange={e => setDraft(prev => normalizeCrop({ ...prev, scale: parseFloat(e.target.value) }))}
+                            />
+                        </label>
+
+                        <div className={styles.actions}>
+                            <button type="button" onClick={() => setDraft(DEFAULT_CROP)} className={styles.resetBtn}>
+                                Reset
+                            </button>
+                            <button type="button" onClick={onClose} className={styles.cancelBtn}>
+                                Cancel
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => {
+                                    onSave(draft)
+                                    onClose()
+                                }}
+                                className={styles.submitBtn}
+                            >
+                                Done
+                            </button>
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    )
+}
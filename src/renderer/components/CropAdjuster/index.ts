@@ -0,0 +1 @@
+export { CropAdjuster } from './CropAdjuster'
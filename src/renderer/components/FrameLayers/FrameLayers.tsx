@@ -0,0 +1,53 @@
+import { FrameLayer, FrameTextValues } from '@shared/types'
+import { fillTextTokens } from '@shared/frameLayers'
+import styles from './FrameLayers.module.css'
+
+interface FrameLayersProps {
+    layers: FrameLayer[] // Image and text layers to draw; photos layers are skipped
+    canvasWidth: number
+    canvasHeight: number
+    values?: Partial<FrameTextValues>
+    zIndex?: number
+}
+
+/**
+ * DOM preview of frame template layers, laid out in canvas coordinates
+ * to match the main-process compositor
+ */
+export function FrameLayers({ layers, canvasWidth, canvasHeight, values, zIndex }: FrameLayersProps): JSX.Element {
+    return (
+        <div className={styles.layers} style={{ zIndex }}>
+            {layers.map(layer => {
+                if (layer.hidden) return null
+
+                if (layer.type === 'image') {
+                    return <img key={layer.id} src={`file://${layer.path}`} alt={layer.name} className={styles.image} />
+                }
+
+                if (layer.type === 'text') {
+                    return (
+                        <div
+                            key={layer.id}
+                            className={styles.text}
+                            style={{
+                                left: `${(layer.x / canvasWidth) * 100}%`,
+                                top: `${(layer.y / canvasHeight) * 100}%`,
+                                width: `${(layer.width / canvasWidth) * 100}%`,
+                                fontSize: `${(layer.fontSize / canvasWidth) * 100}cqw`,
+                                fontFamily: layer.fontFamily,
+                                fontWeight: layer.fontWeight,
+                                color: layer.color,
+                                textAlign: layer.align,
+                                transform: `rotate(${layer.rotation || 0}deg)`
+                            }}
+                        >
+                            {fillTextTokens(layer.text, values)}
+                        </div>
+                    )
+                }
+
+                return null
+            })}
+        </div>
+    )
+}
@@ -0,0 +1 @@
+export { FrameLayers } from './FrameLayers'
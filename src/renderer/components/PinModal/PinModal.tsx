@@ -0,0 +1,94 @@
+import { useState, useEffect } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import styles from './PinModal.module.css'
+
+interface PinModalProps {
+    isOpen: boolean
+    title: string
+    message?: string
+    onClose: () => void
+    onSubmit: (pin: string) => boolean | Promise<boolean> // Resolve false to reject the PIN
+}
+
+export function PinModal({ isOpen, title, message, onClose, onSubmit }: PinModalProps): JSX.Element {
+    const [pin, setPin] = useState('')
+    const [pinError, setPinError] = useState(false)
+    // Waiting on onSubmit, e.g. while main checks the PIN
+    const [isChecking, setIsChecking] = useState(false)
+
+    // Start empty every time the modal opens
+    useEffect(() => {
+        if (isOpen) {
+            setPin('')
+            setPinError(false)
+            setIsChecking(false)
+        }
+    }, [isOpen])
+
+    const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+        e.preventDefault()
+        if (!pin || isChecking) return
+
+        setIsChecking(true)
+        let accepted = false
+        try {
+            accepted = await onSubmit(pin)
+        } catch (error) {
+            console.error('PIN check failed:', error)
+        } finally {
+            setIsChecking(false)
+        }
+
+        if (accepted) {
+            onClose()
+        } else {
+            setPin('')
+            setPinError(true)
+            setTimeout(() => setPinError(false), 2000)
+        }
+    }
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    className={styles.overlay}
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    onClick={onClose}
+                >
+                    <motion.div
+                        className={styles.modal}
+                        initial={{ scale: 0.9, opacity: 0 }}
+                        animate={{ scale: 1, opacity: 1 }}
+                        exit={{ scale: 0.9, opacity: 0 }}
+                        onClick={e => e.stopPropagation()}
+                    >
+                        <h3 className={styles.title}>{title}</h3>
+                        {message && <p className={styles.message}>{message}</p>}
+                        <form onSubmit={handleSubmit} className={styles.form}>
+                            <input
+                                type="password"
+                                inputMode="numeric"
+                                value={pin}
+                                onChange={e => setPin(e.target.value)}
+                                placeholder="Staff PIN"
+                                className={`${styles.input} ${pinError ? styles.error : ''}`}
+                                autoFocus
+                            />
+                            <div className={styles.actions}>
+                                <button type="button" onClick={onClose} className={styles.cancelBtn}>
+                                    Cancel
+                                </button>
+                                <button type="submit" className={styles.submitBtn} disabled={!pin || isChecking}>
+                                    {isChecking ? 'Checking...' : 'Confirm'}
+                                </button>
+                            </div>
+                        </form>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    )
+}
@@ -0,0 +1 @@
+export { PinModal } from './PinModal'
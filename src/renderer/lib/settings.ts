@@ -0,0 +1,51 @@
+// Settings storage - zustand persist adapter backed by the main-process settings store
+import { PersistStorage, StorageValue } from 'zustand/middleware'
+
+/**
+ * Persist storage that reads and writes through settings IPC.
+ * Stores saved to localStorage by older versions are carried over (and
+ * migrated by the main process) the first time they are read.
+ */
+export function createSettingsStorage<S>(): PersistStorage<S> {
+    return {
+        getItem: async (name) => {
+            const result = await window.api.settings.get<StorageValue<S>>(name)
+            if (!result.success) {
+                console.error(`Failed to load settings for ${name}:`, result.error)
+                return null
+            }
+            if (result.data) return result.data
+
+            const legacy = localStorage.getItem(name)
+            if (!legacy) return null
+
+            // Unreadable old settings start from the defaults rather than blocking hydration
+            let legacyValue: StorageValue<S>
+            try {
+                legacyValue = JSON.parse(legacy)
+            } catch (error) {
+                console.error(`Ignoring corrupt legacy settings for ${name}:`, error)
+                return null
+            }
+
+            const imported = await window.api.settings.set<StorageValue<S>>(name, legacyValue, 0)
+            if (!imported.success || !imported.data) {
+                console.error(`Failed to import settings for ${name}:`, imported.error)
+                return legacyValue
+            }
+            localStorage.removeItem(name)
+            return imported.data
+        },
+
+        setItem: async (name, value) => {
+            const result = await window.api.settings.set(name, value)
+            if (!result.success) {
+                console.error(`Failed to save settings for ${name}:`, result.error)
+            }
+        },
+
+        removeItem: async (name) => {
+            await window.api.settings.remove(name)
+        }
+    }
+}
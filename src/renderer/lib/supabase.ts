@@ -273,6 +273,7 @@ export interface GalleryInput {
     photoUrls: string[]
     videoUrls?: string[]  // Video URL for each slot
     frameData?: FrameData  // Frame template data for Live Photo
+    printCount?: number  // Prints made before the gallery was saved
 }
 
 /**
@@ -297,6 +298,7 @@ export async function saveGallery(
                 photo_urls: gallery.photoUrls,
                 video_urls: gallery.videoUrls || null,
                 frame_data: gallery.frameData || null,
+                ...(gallery.printCount !== undefined && { print_count: gallery.printCount }),
                 created_at: new Date().toISOString()
             }, {
                 onConflict: 'session_id'
@@ -371,7 +373,8 @@ export async function updateSessionEmail(
  * Increment print count for session
  */
 export async function incrementPrintCount(
-    sessionId: string
+    sessionId: string,
+    count = 1
 ): Promise<{ success: boolean; error?: string }> {
     try {
         if (!isSupabaseConfigured()) {
@@ -392,7 +395,7 @@ export async function incrementPrintCount(
         // Update with incremented count
         const { error } = await supabase
             .from('session_galleries')
-            .update({ print_count: currentCount + 1 })
+            .update({ print_count: currentCount + count })
             .eq('session_id', sessionId)
 
         if (error) {
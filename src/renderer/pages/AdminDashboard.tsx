@@ -2,33 +2,99 @@ import { useState, useRef, useCallback, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { motion } from 'framer-motion'
 import { useFrameStore, useAppConfig, useFilterStore } from '../stores'
-import { PhotoSlot } from '@shared/types'
-import { getSessionHistory, SessionHistoryItem } from '../lib/supabase'
+import { v4 as uuidv4 } from 'uuid'
+import { BoothBackupPreview, FrameConfig, SessionRecord, SessionSearchQuery, SyncJob, PhotoSlot, CameraSettings, CameraSettingKey, CameraSettingOptions, PrintJob, FrameCaptureMode, FrameLayer, FrameTextLayer, PaymentProviderId, PaymentCredentialsStatus, EmailCredentialsStatus, MidtransEnvironment, MockPaymentOutcome, PricingPackage, SessionEntitlements, CashOperator, Voucher, VoucherCreateRequest, VoucherDiscountType, APIResponse } from '@shared/types'
+import { PAPER_PROFILES } from '@shared/paperProfiles'
+import { FRAME_FONTS, PHOTOS_LAYER_ID, getFrameLayers, splitFrameLayers, buildFrameTextValues, createTextLayer } from '@shared/frameLayers'
+import { FrameLayers } from '../components/FrameLayers'
 import styles from './AdminDashboard.module.css'
 
 type DragMode = 'move' | 'resize-se' | 'resize-sw' | 'resize-ne' | 'resize-nw' | 'rotate' | null
 
+// History tab search form; dates are yyyy-mm-dd from the date inputs
+interface HistoryFilter {
+    text: string
+    email: 'all' | 'with' | 'without'
+    printed: 'all' | 'yes' | 'no'
+    from: string
+    to: string
+}
+
+// Vouchers tab create form; expiry is yyyy-mm-dd from the date input
+interface VoucherForm {
+    code: string
+    prefix: string
+    count: number
+    label: string
+    discountType: VoucherDiscountType
+    discountValue: number
+    maxUses: string // Empty for unlimited
+    expires: string
+}
+
+const EMPTY_VOUCHER_FORM: VoucherForm = { code: '', prefix: '', count: 1, label: '', discountType: 'free', discountValue: 0, maxUses: '1', expires: '' }
+
+const HISTORY_PAGE_SIZE = 20
+
+// Camera settings editable from the Camera tab, in display order
+const CAMERA_SETTING_FIELDS: { key: CameraSettingKey; label: string }[] = [
+    { key: 'iso', label: 'ISO' },
+    { key: 'aperture', label: 'Aperture (f/)' },
+    { key: 'shutterSpeed', label: 'Shutter Speed' },
+    { key: 'whiteBalance', label: 'White Balance' },
+    { key: 'exposureCompensation', label: 'Exposure Compensation' }
+]
+
 function AdminDashboard(): JSX.Element {
     const navigate = useNavigate()
-    const { frames, addFrame, updateFrame, deleteFrame, addSlot, updateSlot, deleteSlot, setActiveFrame, undo, redo } = useFrameStore()
+    const { frames, addFrame, importFrames, updateFrame, deleteFrame, addSlot, updateSlot, deleteSlot, setActiveFrame, undo, redo } = useFrameStore()
     const { config, updateConfig } = useAppConfig()
     const { filters, addFilter, removeFilter } = useFilterStore()
 
-    const [activeTab, setActiveTab] = useState<'frames' | 'timers' | 'filters' | 'payment' | 'history' | 'sharing'>('frames')
+    const [activeTab, setActiveTab] = useState<'frames' | 'timers' | 'filters' | 'camera' | 'payment' | 'prints' | 'sync' | 'vouchers' | 'history' | 'sharing' | 'backup'>('frames')
     const [selectedFrameId, setSelectedFrameId] = useState<string | null>(frames[0]?.id || null)
     const [draggedSlotId, setDraggedSlotId] = useState<string | null>(null)
     const [dragMode, setDragMode] = useState<DragMode>(null)
     const [dragStart, setDragStart] = useState({ x: 0, y: 0, slotX: 0, slotY: 0, slotW: 0, slotH: 0 })
     const [selectedSlotId, setSelectedSlotId] = useState<string | null>(null)
+    const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null)
     const [canvasZoom, setCanvasZoom] = useState(1)
-    const [historyData, setHistoryData] = useState<SessionHistoryItem[]>([])
+    const [historyData, setHistoryData] = useState<SessionRecord[]>([])
     const [historyTotal, setHistoryTotal] = useState(0)
     const [historyPage, setHistoryPage] = useState(0)
     const [isLoadingHistory, setIsLoadingHistory] = useState(false)
+    const [historyFilter, setHistoryFilter] = useState<HistoryFilter>({ text: '', email: 'all', printed: 'all', from: '', to: '' })
+    const [cameraConnected, setCameraConnected] = useState(false)
+    const [cameraSettings, setCameraSettings] = useState<CameraSettings>({})
+    const [cameraSettingOptions, setCameraSettingOptions] = useState<CameraSettingOptions>({})
+    const [cameraMessage, setCameraMessage] = useState<string | null>(null)
+    const [frameMessage, setFrameMessage] = useState<string | null>(null)
+    const [backupPreview, setBackupPreview] = useState<BoothBackupPreview | null>(null)
+    const [backupMessage, setBackupMessage] = useState<string | null>(null)
+    const [presetName, setPresetName] = useState('')
+    const [printJobs, setPrintJobs] = useState<PrintJob[]>([])
+    const [printQueueError, setPrintQueueError] = useState<string | null>(null)
+    const [syncJobs, setSyncJobs] = useState<SyncJob[]>([])
+    const [syncOnline, setSyncOnline] = useState(true)
+    const [syncError, setSyncError] = useState<string | null>(null)
+    const [localIp, setLocalIp] = useState<string | null>(null)
+    const [paymentCredentials, setPaymentCredentials] = useState<PaymentCredentialsStatus | null>(null)
+    const [emailCredentials, setEmailCredentials] = useState<EmailCredentialsStatus | null>(null)
+    const [gmailPasswordDraft, setGmailPasswordDraft] = useState('')
+    const [serverKeyDraft, setServerKeyDraft] = useState('')
+    const [operatorPinDrafts, setOperatorPinDrafts] = useState<Record<string, string>>({})
+    const [overridePinDraft, setOverridePinDraft] = useState('')
+    const [vouchers, setVouchers] = useState<Voucher[]>([])
+    const [voucherForm, setVoucherForm] = useState<VoucherForm>(EMPTY_VOUCHER_FORM)
+    const [voucherMessage, setVoucherMessage] = useState<string | null>(null)
 
     const canvasRef = useRef<HTMLDivElement>(null)
 
     const selectedFrame = frames.find(f => f.id === selectedFrameId)
+    const frameLayers = selectedFrame ? getFrameLayers(selectedFrame) : []
+    const editorLayers = splitFrameLayers(frameLayers)
+    // Text layers preview with the next session's values
+    const previewTextValues = buildFrameTextValues(config, { number: config.sessionCounter + 1, createdAt: Date.now() })
 
     // Handle mouse move on canvas for dragging and resizing
     const handleCanvasMouseMove = useCallback((e: React.MouseEvent) => {
@@ -123,31 +189,338 @@ function AdminDashboard(): JSX.Element {
         if (activeTab === 'history') {
             loadHistory()
         }
-    }, [activeTab, historyPage])
+    }, [activeTab, historyPage, historyFilter])
+
+    // Load camera settings when tab is active
+    useEffect(() => {
+        if (activeTab === 'camera') {
+            loadCameraSettings()
+        }
+    }, [activeTab])
+
+    const loadCameraSettings = async () => {
+        setCameraMessage(null)
+        const status = await window.api.camera.status()
+        const connected = status.success && !!status.data?.connected
+        setCameraConnected(connected)
+        if (!connected) return
+
+        const [settingsResult, optionsResult] = await Promise.all([
+            window.api.camera.getSettings(),
+            window.api.camera.listSettingOptions()
+        ])
+        if (settingsResult.success && settingsResult.data) {
+            setCameraSettings(settingsResult.data)
+        }
+        if (optionsResult.success && optionsResult.data) {
+            setCameraSettingOptions(optionsResult.data)
+        }
+    }
+
+    const applyCameraSettings = async (settings: CameraSettings) => {
+        const result = await window.api.camera.setSettings(settings)
+        setCameraMessage(result.success ? 'Settings applied to camera' : `Error: ${result.error}`)
+    }
+
+    const handleSavePreset = () => {
+        const name = presetName.trim()
+        if (!name) return
+        updateConfig({
+            cameraPresets: [...config.cameraPresets, { id: uuidv4(), name, settings: { ...cameraSettings } }]
+        })
+        setPresetName('')
+    }
+
+    const handleDeletePreset = (presetId: string) => {
+        updateConfig({
+            cameraPresets: config.cameraPresets.filter(p => p.id !== presetId),
+            activeCameraPresetId: config.activeCameraPresetId === presetId ? null : config.activeCameraPresetId
+        })
+    }
+
+    const updatePackage = (packageId: string, updates: Partial<PricingPackage>) => {
+        updateConfig({
+            pricingPackages: config.pricingPackages.map(p => p.id === packageId ? { ...p, ...updates } : p)
+        })
+    }
+
+    const updatePackageEntitlement = (pkg: PricingPackage, key: keyof SessionEntitlements, value: boolean) => {
+        updatePackage(pkg.id, { entitlements: { ...pkg.entitlements, [key]: value } })
+    }
+
+    const handleAddPackage = () => {
+        updateConfig({
+            pricingPackages: [...config.pricingPackages, {
+                id: uuidv4(),
+                name: 'New Package',
+                price: 0,
+                prints: 1,
+                entitlements: { gif: true, liveVideo: false, email: true }
+            }]
+        })
+    }
+
+    const handleDeletePackage = (packageId: string) => {
+        updateConfig({ pricingPackages: config.pricingPackages.filter(p => p.id !== packageId) })
+    }
+
+    const updateCashOperator = (operatorId: string, updates: Partial<CashOperator>) => {
+        updateConfig({
+            cashOperators: config.cashOperators.map(o => o.id === operatorId ? { ...o, ...updates } : o)
+        })
+    }
+
+    const handleAddCashOperator = () => {
+        updateConfig({
+            cashOperators: [...config.cashOperators, { id: uuidv4(), name: `Operator ${config.cashOperators.length + 1}` }]
+        })
+    }
+
+    const handleDeleteCashOperator = async (operatorId: string) => {
+        updateConfig({ cashOperators: config.cashOperators.filter(o => o.id !== operatorId) })
+        const result = await window.api.payment.setOperatorPin(operatorId, '')
+        if (result.success && result.data) setPaymentCredentials(result.data)
+    }
+
+    // PINs are hashed in main, which also turns down one another operator already uses
+    const handleSaveOperatorPin = async (operatorId: string, pin: string) => {
+        const result = await window.api.payment.setOperatorPin(operatorId, pin)
+        if (result.success && result.data) {
+            setPaymentCredentials(result.data)
+            setOperatorPinDrafts(prev => ({ ...prev, [operatorId]: '' }))
+        } else {
+            alert('Failed to save PIN: ' + result.error)
+        }
+    }
+
+    // Load print jobs and follow live updates while the tab is open
+    useEffect(() => {
+        if (activeTab !== 'prints') return
+
+        loadPrintJobs()
+        return window.api.printer.onJobUpdated((job: PrintJob) => {
+            setPrintJobs(prev => prev.some(j => j.id === job.id)
+                ? prev.map(j => j.id === job.id ? job : j)
+                : [job, ...prev])
+        })
+    }, [activeTab])
+
+    const loadPrintJobs = async () => {
+        const result = await window.api.printer.jobs()
+        if (result.success && result.data) {
+            setPrintJobs(result.data)
+        }
+    }
+
+    const handleRetryPrintJob = async (jobId: string) => {
+        const result = await window.api.printer.retry(jobId)
+        setPrintQueueError(result.success ? null : result.error || 'Retry failed')
+    }
+
+    const handleCancelPrintJob = async (jobId: string) => {
+        const result = await window.api.printer.cancel(jobId)
+        setPrintQueueError(result.success ? null : result.error || 'Cancel failed')
+    }
+
+    // Local address for the payment notification URL hint
+    useEffect(() => {
+        if (activeTab !== 'payment' || localIp) return
+
+        window.api.system.getLocalIp().then((result: APIResponse<string | null>) => {
+            if (result.success) setLocalIp(result.data || null)
+        })
+    }, [activeTab])
+
+    // Whether the server key is set; the key itself never comes back from main
+    useEffect(() => {
+        if (activeTab !== 'payment') return
+
+        window.api.payment.credentials().then((result: APIResponse<PaymentCredentialsStatus>) => {
+            if (result.success && result.data) setPaymentCredentials(result.data)
+        })
+    }, [activeTab])
+
+    const handleSaveServerKey = async (serverKey: string) => {
+        const result = await window.api.payment.setServerKey(serverKey)
+        if (result.success && result.data) {
+            setPaymentCredentials(result.data)
+            setServerKeyDraft('')
+        } else {
+            alert('Failed to save server key: ' + result.error)
+        }
+    }
+
+    const handleSaveOverridePin = async (pin: string) => {
+        const result = await window.api.payment.setOverridePin(pin)
+        if (result.success && result.data) {
+            setPaymentCredentials(result.data)
+            setOverridePinDraft('')
+        } else {
+            alert('Failed to save PIN: ' + result.error)
+        }
+    }
+
+    // Whether the Gmail app password is set; like the server key it stays in main
+    useEffect(() => {
+        if (activeTab !== 'sharing') return
+
+        window.api.email.credentials().then((result: APIResponse<EmailCredentialsStatus>) => {
+            if (result.success && result.data) setEmailCredentials(result.data)
+        })
+    }, [activeTab])
+
+    const handleSaveGmailPassword = async (password: string) => {
+        const result = await window.api.email.setAppPassword(password)
+        if (result.success && result.data) {
+            setEmailCredentials(result.data)
+            setGmailPasswordDraft('')
+        } else {
+            alert('Failed to save app password: ' + result.error)
+        }
+    }
+
+    // Load uploads and follow their progress while the tab is open
+    useEffect(() => {
+        if (activeTab !== 'sync') return
+
+        loadSyncStatus()
+        return window.api.sync.onJobUpdated((job: SyncJob) => {
+            setSyncJobs(prev => prev.some(j => j.id === job.id)
+                ? prev.map(j => j.id === job.id ? job : j)
+                : [job, ...prev])
+        })
+    }, [activeTab])
+
+    const loadSyncStatus = async () => {
+        const result = await window.api.sync.status()
+        if (result.success && result.data) {
+            setSyncJobs(result.data.jobs)
+            setSyncOnline(result.data.online)
+        }
+    }
+
+    const handleRetrySync = async (jobId?: string) => {
+        const result = await window.api.sync.retry(jobId)
+        setSyncError(result.success ? null : result.error || 'Retry failed')
+    }
+
+    useEffect(() => {
+        if (activeTab === 'vouchers') {
+            loadVouchers()
+        }
+    }, [activeTab])
+
+    const loadVouchers = async () => {
+        const result = await window.api.vouchers.list()
+        if (result.success && result.data) {
+            setVouchers(result.data)
+        }
+    }
+
+    const handleCreateVouchers = async () => {
+        const request: VoucherCreateRequest = {
+            code: voucherForm.code.trim() || undefined,
+            prefix: voucherForm.prefix.trim() || undefined,
+            count: voucherForm.count,
+            label: voucherForm.label.trim() || undefined,
+            discountType: voucherForm.discountType,
+            discountValue: voucherForm.discountValue,
+            maxUses: voucherForm.maxUses ? parseInt(voucherForm.maxUses) : null,
+            // Valid through the end of the chosen day
+            expiresAt: voucherForm.expires ? new Date(`${voucherForm.expires}T23:59:59`).getTime() : undefined
+        }
+
+        const result = await window.api.vouchers.create(request)
+        if (!result.success || !result.data) {
+            setVoucherMessage(result.error || 'Failed to create voucher')
+            return
+        }
+        setVoucherMessage(`Created ${result.data.length} voucher${result.data.length > 1 ? 's' : ''}`)
+        setVoucherForm(prev => ({ ...prev, code: '' }))
+        loadVouchers()
+    }
+
+    const handleDeleteVoucher = async (code: string) => {
+        if (!confirm(`Delete voucher ${code}?`)) return
+        const result = await window.api.vouchers.delete(code)
+        setVoucherMessage(result.success ? null : result.error || 'Delete failed')
+        loadVouchers()
+    }
+
+    // Codes to hand out or print as QR cards
+    const exportVouchersToCSV = () => {
+        const headers = ['Code', 'Label', 'Discount', 'Uses', 'Max Uses', 'Expires']
+        const rows = vouchers.map(v => [
+            v.code,
+            v.label || '-',
+            formatVoucherDiscount(v),
+            v.uses,
+            v.maxUses ?? 'Unlimited',
+            v.expiresAt ? new Date(v.expiresAt).toLocaleDateString('id-ID') : '-'
+        ])
+
+        const csvContent = [headers, ...rows]
+            .map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(','))
+            .join('\n')
+
+        const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
+        const url = URL.createObjectURL(blob)
+        const link = document.createElement('a')
+        link.href = url
+        link.download = `vouchers_${new Date().toISOString().slice(0, 10)}.csv`
+        document.body.appendChild(link)
+        link.click()
+        document.body.removeChild(link)
+        URL.revokeObjectURL(url)
+    }
+
+    const historyQuery = (): SessionSearchQuery => ({
+        text: historyFilter.text || undefined,
+        hasEmail: historyFilter.email === 'all' ? undefined : historyFilter.email === 'with',
+        printed: historyFilter.printed === 'all' ? undefined : historyFilter.printed === 'yes',
+        from: historyFilter.from ? new Date(`${historyFilter.from}T00:00:00`).getTime() : undefined,
+        to: historyFilter.to ? new Date(`${historyFilter.to}T23:59:59.999`).getTime() : undefined
+    })
+
+    // Any change to the search starts again from the first page
+    const updateHistoryFilter = (updates: Partial<HistoryFilter>) => {
+        setHistoryFilter(prev => ({ ...prev, ...updates }))
+        setHistoryPage(0)
+    }
 
     const loadHistory = async () => {
         setIsLoadingHistory(true)
-        const result = await getSessionHistory({ limit: 20, offset: historyPage * 20 })
-        if ('data' in result) {
-            setHistoryData(result.data)
-            setHistoryTotal(result.total)
+        const result = await window.api.sessions.search({
+            ...historyQuery(),
+            offset: historyPage * HISTORY_PAGE_SIZE,
+            limit: HISTORY_PAGE_SIZE
+        })
+        if (result.success && result.data) {
+            setHistoryData(result.data.items)
+            setHistoryTotal(result.data.total)
         }
         setIsLoadingHistory(false)
     }
 
     const exportToCSV = async () => {
-        // Fetch ALL records for export
-        const allResult = await getSessionHistory({ limit: 10000, offset: 0 })
-        if (!('data' in allResult) || allResult.data.length === 0) return
+        // Fetch every session matching the current search for export
+        const allResult = await window.api.sessions.search(historyQuery())
+        if (!allResult.success || !allResult.data || allResult.data.items.length === 0) return
 
-        const headers = ['No', 'Session ID', 'Email', 'Print Count', 'Gallery URL', 'Date/Time']
-        const rows = allResult.data.map((item, index) => [
+        const headers = ['No', 'Session ID', 'Session No', 'Frame', 'Email', 'Print Count', 'Payment Order ID', 'Voucher', 'Gallery URL', 'Files', 'Folder', 'Date/Time']
+        const rows = allResult.data.items.map((item, index) => [
             index + 1,
-            item.session_id || item.id,
+            item.id,
+            item.number ?? '-',
+            item.frameName || '-',
             item.email || '-',
-            item.print_count,
-            item.gallery_url || '-',
-            new Date(item.created_at).toLocaleString('id-ID')
+            item.printCount,
+            item.paymentOrderId || '-',
+            item.voucher?.code || '-',
+            item.galleryUrl || '-',
+            item.files.length,
+            item.folder || '-',
+            new Date(item.createdAt).toLocaleString('id-ID')
         ])
 
         const csvContent = [headers, ...rows]
@@ -256,6 +629,59 @@ function AdminDashboard(): JSX.Element {
         }
     }
 
+    // Export frames to a package that another booth can import
+    const handleExportFrames = async (exportList: FrameConfig[]): Promise<void> => {
+        const result = await window.api.system.exportFrames(exportList)
+        if (!result.success) {
+            setFrameMessage(`Export failed: ${result.error}`)
+        } else if (result.data) {
+            setFrameMessage(`Exported ${exportList.length} frame${exportList.length !== 1 ? 's' : ''}`)
+        }
+    }
+
+    const handleImportFrames = async (): Promise<void> => {
+        const result = await window.api.system.importFrames()
+        if (!result.success || !result.data) {
+            setFrameMessage(`Import failed: ${result.error}`)
+            return
+        }
+        if (result.data.length === 0) return
+
+        importFrames(result.data)
+        setSelectedFrameId(result.data[0].id)
+        setFrameMessage(`Imported ${result.data.length} frame${result.data.length !== 1 ? 's' : ''}`)
+    }
+
+    // Booth configuration backup
+    const handleExportBackup = async (): Promise<void> => {
+        const result = await window.api.settings.exportBackup()
+        if (!result.success) {
+            setBackupMessage(`Export failed: ${result.error}`)
+        } else if (result.data) {
+            setBackupMessage(`Saved to ${result.data}`)
+        }
+    }
+
+    // Validate the chosen backup and show what it would overwrite before restoring
+    const handlePreviewBackup = async (): Promise<void> => {
+        const result = await window.api.settings.previewBackup()
+        setBackupPreview(result.success ? result.data ?? null : null)
+        setBackupMessage(result.success ? null : `Invalid backup: ${result.error}`)
+    }
+
+    const handleImportBackup = async (): Promise<void> => {
+        if (!backupPreview) return
+        const result = await window.api.settings.importBackup(backupPreview.path)
+        if (result.success) {
+            // Stores reload through settings:changed
+            setBackupPreview(null)
+            setSelectedFrameId(null)
+            setBackupMessage('Booth configuration restored')
+        } else {
+            setBackupMessage(`Import failed: ${result.error}`)
+        }
+    }
+
     // Handle filter upload
     const handleFilterUpload = async (): Promise<void> => {
         const result = await window.api.system.openFileDialog({
@@ -301,6 +727,54 @@ function AdminDashboard(): JSX.Element {
         }
     }
 
+    // Save the layer stack; frames without one get their default layers written out first
+    const setFrameLayers = (layers: FrameLayer[]): void => {
+        if (selectedFrame) {
+            updateFrame(selectedFrame.id, { layers })
+        }
+    }
+
+    const updateLayer = (layerId: string, updates: Partial<FrameTextLayer>): void => {
+        setFrameLayers(frameLayers.map(layer => layer.id === layerId ? { ...layer, ...updates } as FrameLayer : layer))
+    }
+
+    // Move a layer one step up (towards the top of the stack) or down
+    const moveLayer = (layerId: string, direction: 1 | -1): void => {
+        const index = frameLayers.findIndex(layer => layer.id === layerId)
+        const target = index + direction
+        if (index === -1 || target < 0 || target >= frameLayers.length) return
+
+        const layers = [...frameLayers]
+        const [layer] = layers.splice(index, 1)
+        layers.splice(target, 0, layer)
+        setFrameLayers(layers)
+    }
+
+    const deleteLayer = (layerId: string): void => {
+        setFrameLayers(frameLayers.filter(layer => layer.id !== layerId))
+        if (selectedLayerId === layerId) setSelectedLayerId(null)
+    }
+
+    const handleAddTextLayer = (): void => {
+        if (!selectedFrame) return
+        const layer = createTextLayer(uuidv4(), selectedFrame.canvasWidth, selectedFrame.canvasHeight)
+        setFrameLayers([...frameLayers, layer])
+        setSelectedLayerId(layer.id)
+    }
+
+    const handleAddImageLayer = async (): Promise<void> => {
+        const result = await window.api.system.openFileDialog({
+            title: 'Select Layer Image',
+            filters: [{ name: 'Images', extensions: ['png', 'jpg', 'jpeg'] }]
+        })
+
+        if (result.success && result.data && result.data.length > 0) {
+            const path = result.data[0]
+            const name = path.split(/[\\/]/).pop() || 'Image'
+            setFrameLayers([...frameLayers, { id: uuidv4(), name, type: 'image', path }])
+        }
+    }
+
     // Toggle frame as active (allows multiple active frames)
     const handleSetActive = (): void => {
         if (selectedFrame) {
@@ -364,12 +838,36 @@ function AdminDashboard(): JSX.Element {
                 >
                     🎨 Filters
                 </button>
+                <button
+                    className={`${styles.tab} ${activeTab === 'camera' ? styles.active : ''}`}
+                    onClick={() => setActiveTab('camera')}
+                >
+                    📷 Camera
+                </button>
                 <button
                     className={`${styles.tab} ${activeTab === 'payment' ? styles.active : ''}`}
                     onClick={() => setActiveTab('payment')}
                 >
                     💳 Payment
                 </button>
+                <button
+                    className={`${styles.tab} ${activeTab === 'prints' ? styles.active : ''}`}
+                    onClick={() => setActiveTab('prints')}
+                >
+                    🖨️ Prints
+                </button>
+                <button
+                    className={`${styles.tab} ${activeTab === 'sync' ? styles.active : ''}`}
+                    onClick={() => setActiveTab('sync')}
+                >
+                    ☁️ Sync
+                </button>
+                <button
+                    className={`${styles.tab} ${activeTab === 'vouchers' ? styles.active : ''}`}
+                    onClick={() => setActiveTab('vouchers')}
+                >
+                    🎟️ Vouchers
+                </button>
                 <button
                     className={`${styles.tab} ${activeTab === 'history' ? styles.active : ''}`}
                     onClick={() => setActiveTab('history')}
@@ -382,6 +880,12 @@ function AdminDashboard(): JSX.Element {
                 >
                     📡 Sharing
                 </button>
+                <button
+                    className={`${styles.tab} ${activeTab === 'backup' ? styles.active : ''}`}
+                    onClick={() => setActiveTab('backup')}
+                >
+                    💾 Backup
+                </button>
             </nav>
 
             {/* Content */}
@@ -433,6 +937,28 @@ function AdminDashboard(): JSX.Element {
                                     </div>
                                 )}
                             </div>
+
+                            {/* Frame packages */}
+                            <div className={styles.framePackageActions}>
+                                <button className={styles.addButton} onClick={handleImportFrames}>
+                                    Import
+                                </button>
+                                <button
+                                    className={styles.addButton}
+                                    onClick={() => selectedFrame && handleExportFrames([selectedFrame])}
+                                    disabled={!selectedFrame}
+                                >
+                                    Export
+                                </button>
+                                <button
+                                    className={styles.addButton}
+                                    onClick={() => handleExportFrames(frames)}
+                                    disabled={frames.length === 0}
+                                >
+                                    Export All
+                                </button>
+                                {frameMessage && <span className={styles.framePackageMessage}>{frameMessage}</span>}
+                            </div>
                         </aside>
 
                         {/* Canvas Editor */}
@@ -459,6 +985,50 @@ function AdminDashboard(): JSX.Element {
                                                 onChange={(e) => updateFrame(selectedFrame.id, { canvasHeight: parseInt(e.target.value) })}
                                             />
                                         </div>
+                                        <div className={styles.canvasSize}>
+                                            <label>Paper:</label>
+                                            <select
+                                                value={selectedFrame.paperProfileId || ''}
+                                                onChange={(e) => updateFrame(selectedFrame.id, { paperProfileId: e.target.value || undefined })}
+                                            >
+                                                <option value="">None (print as-is)</option>
+                                                {PAPER_PROFILES.map(profile => (
+                                                    <option key={profile.id} value={profile.id}>{profile.name}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                        <div className={styles.canvasSize}>
+                                            <label>Capture:</label>
+                                            <select
+                                                value={selectedFrame.captureMode || 'photo'}
+                                                onChange={(e) => updateFrame(selectedFrame.id, { captureMode: e.target.value as FrameCaptureMode })}
+                                            >
+                                                <option value="photo">Photo per slot</option>
+                                                <option value="burst">GIF / Burst</option>
+                                            </select>
+                                            {selectedFrame.captureMode === 'burst' && (
+                                                <>
+                                                    <input
+                                                        type="number"
+                                                        min={2}
+                                                        max={30}
+                                                        title="Frames per burst"
+                                                        value={selectedFrame.burstCount ?? 6}
+                                                        onChange={(e) => updateFrame(selectedFrame.id, { burstCount: parseInt(e.target.value) || 6 })}
+                                                    />
+                                                    <span>@</span>
+                                                    <input
+                                                        type="number"
+                                                        min={50}
+                                                        step={50}
+                                                        title="Milliseconds between frames"
+                                                        value={selectedFrame.burstInterval ?? 300}
+                                                        onChange={(e) => updateFrame(selectedFrame.id, { burstInterval: parseInt(e.target.value) || 300 })}
+                                                    />
+                                                    <span>ms</span>
+                                                </>
+                                            )}
+                                        </div>
                                         <button className={styles.addSlotButton} onClick={handleAddSlot}>
                                             + Add Photo Slot
                                         </button>
@@ -491,11 +1061,20 @@ function AdminDashboard(): JSX.Element {
                                             onMouseUp={handleCanvasMouseUp}
                                             onMouseLeave={handleCanvasMouseUp}
                                         >
-                                            {/* Frame overlay preview */}
-                                            <img
-                                                src={`file://${selectedFrame.overlayPath}`}
-                                                alt="Frame"
-                                                className={styles.frameOverlay}
+                                            {/* Frame layers under and over the slots */}
+                                            <FrameLayers
+                                                layers={editorLayers.under}
+                                                canvasWidth={selectedFrame.canvasWidth}
+                                                canvasHeight={selectedFrame.canvasHeight}
+                                                values={previewTextValues}
+                                                zIndex={1}
+                                            />
+                                            <FrameLayers
+                                                layers={editorLayers.over}
+                                                canvasWidth={selectedFrame.canvasWidth}
+                                                canvasHeight={selectedFrame.canvasHeight}
+                                                values={previewTextValues}
+                                                zIndex={10}
                                             />
 
                                             {/* Photo slots */}
@@ -673,74 +1252,242 @@ function AdminDashboard(): JSX.Element {
                                         </div>
                                     )}
                                 </div>
-                            </aside>
-                        )}
-                    </div>
-                )
-                }
 
-                {
-                    activeTab === 'timers' && (
-                        <div className={styles.timersTab}>
-                            <div className={styles.timerCard}>
-                                <h3>🎚️ Enable Countdown Timer</h3>
-                                <p>Toggle the countdown timer during photo capture sessions</p>
-                                <div className={styles.timerToggle}>
-                                    <label className={styles.toggleSwitch}>
+                                <div className={styles.sidebarHeader}>
+                                    <h3>🧱 Layers</h3>
+                                    <div className={styles.layerAddButtons}>
+                                        <button onClick={handleAddTextLayer}>+ Text</button>
+                                        <button onClick={handleAddImageLayer}>+ Image</button>
+                                    </div>
+                                </div>
+                                <div className={styles.slotListSidebar}>
+                                    <div className={styles.eventFields}>
                                         <input
-                                            type="checkbox"
-                                            checked={config.timerEnabled}
-                                            onChange={(e) => updateConfig({ timerEnabled: e.target.checked })}
+                                            type="text"
+                                            placeholder="Event name ({event})"
+                                            value={config.eventName}
+                                            onChange={(e) => updateConfig({ eventName: e.target.value })}
                                         />
-                                        <span className={styles.toggleSlider}></span>
-                                    </label>
-                                    <span className={styles.toggleLabel}>
-                                        {config.timerEnabled ? 'Timer Enabled' : 'Timer Disabled (Instant Capture)'}
-                                    </span>
-                                </div>
-                            </div>
-
-                            <div className={styles.timerCard}>
-                                <h3>⏱️ Countdown Duration</h3>
-                                <p>Time before photo capture (seconds)</p>
-                                <div className={styles.timerInput}>
-                                    <input
-                                        type="range"
-                                        min="3"
-                                        max="10"
-                                        value={config.countdownDuration}
-                                        onChange={(e) => updateConfig({ countdownDuration: parseInt(e.target.value) })}
-                                        disabled={!config.timerEnabled}
-                                    />
-                                    <span className={styles.timerValue}>{config.countdownDuration}s</span>
-                                </div>
-                            </div>
-
-                            <div className={styles.timerCard}>
-                                <h3>👁️ Preview Duration</h3>
-                                <p>Time to show captured photo (seconds)</p>
-                                <div className={styles.timerInput}>
-                                    <input
-                                        type="range"
-                                        min="1"
-                                        max="5"
-                                        value={config.previewDuration}
-                                        onChange={(e) => updateConfig({ previewDuration: parseInt(e.target.value) })}
-                                    />
-                                    <span className={styles.timerValue}>{config.previewDuration}s</span>
-                                </div>
-                            </div>
+                                        <input
+                                            type="text"
+                                            placeholder="Hashtag ({hashtag})"
+                                            value={config.eventHashtag}
+                                            onChange={(e) => updateConfig({ eventHashtag: e.target.value })}
+                                        />
+                                    </div>
 
-                            <div className={styles.timerCard}>
-                                <h3>⏰ Session Timeout</h3>
-                                <p>Auto-reset session after inactivity (seconds)</p>
-                                <div className={styles.timerInput}>
-                                    <input
-                                        type="range"
-                                        min="30"
-                                        max="300"
-                                        step="30"
-                                        value={config.sessionTimeout}
+                                    {/* Top of the stack first */}
+                                    {frameLayers.map((layer, index) => ({ layer, index })).reverse().map(({ layer, index }) => (
+                                        <div
+                                            key={layer.id}
+                                            className={`${styles.slotItemSidebar} ${selectedLayerId === layer.id ? styles.expanded : ''}`}
+                                            onClick={() => setSelectedLayerId(selectedLayerId === layer.id ? null : layer.id)}
+                                        >
+                                            <div className={styles.slotItemHeader}>
+                                                <span className={styles.slotIcon}>
+                                                    {layer.type === 'photos' ? '📷' : layer.type === 'image' ? '🖼️' : '🔤'}
+                                                </span>
+                                                <span className={`${styles.slotLabel} ${layer.hidden ? styles.layerHidden : ''}`}>
+                                                    {layer.type === 'text' ? layer.text || layer.name : layer.name}
+                                                </span>
+                                                <div className={styles.layerActions} onClick={(e) => e.stopPropagation()}>
+                                                    <button
+                                                        onClick={() => moveLayer(layer.id, 1)}
+                                                        disabled={index === frameLayers.length - 1}
+                                                        title="Move up"
+                                                    >
+                                                        ▲
+                                                    </button>
+                                                    <button
+                                                        onClick={() => moveLayer(layer.id, -1)}
+                                                        disabled={index === 0}
+                                                        title="Move down"
+                                                    >
+                                                        ▼
+                                                    </button>
+                                                    {layer.id !== PHOTOS_LAYER_ID && (
+                                                        <>
+                                                            <button
+                                                                onClick={() => updateLayer(layer.id, { hidden: !layer.hidden })}
+                                                                title={layer.hidden ? 'Show' : 'Hide'}
+                                                            >
+                                                                {layer.hidden ? '🚫' : '👁️'}
+                                                            </button>
+                                                            <button onClick={() => deleteLayer(layer.id)} title="Delete layer">
+                                                                ×
+                                                            </button>
+                                                        </>
+                                                    )}
+                                                </div>
+                                            </div>
+                                            {selectedLayerId === layer.id && layer.type === 'text' && (
+                                                <div className={styles.slotDetails} onClick={(e) => e.stopPropagation()}>
+                                                    <div className={styles.slotPropsGrid}>
+                                                        <label className={styles.duplicateLabel}>
+                                                            Text
+                                                            <input
+                                                                type="text"
+                                                                value={layer.text}
+                                                                onChange={(e) => updateLayer(layer.id, { text: e.target.value })}
+                                                            />
+                                                            <span>{'{event} {date} {time} {session} {hashtag}'}</span>
+                                                        </label>
+                                                        <label>
+                                                            X
+                                                            <input
+                                                                type="number"
+                                                                value={Math.round(layer.x)}
+                                                                onChange={(e) => updateLayer(layer.id, { x: parseInt(e.target.value) || 0 })}
+                                                            />
+                                                        </label>
+                                                        <label>
+                                                            Y
+                                                            <input
+                                                                type="number"
+                                                                value={Math.round(layer.y)}
+                                                                onChange={(e) => updateLayer(layer.id, { y: parseInt(e.target.value) || 0 })}
+                                                            />
+                                                        </label>
+                                                        <label>
+                                                            Width
+                                                            <input
+                                                                type="number"
+                                                                value={Math.round(layer.width)}
+                                                                onChange={(e) => updateLayer(layer.id, { width: parseInt(e.target.value) || 100 })}
+                                                            />
+                                                        </label>
+                                                        <label>
+                                                            Size
+                                                            <input
+                                                                type="number"
+                                                                min={8}
+                                                                value={layer.fontSize}
+                                                                onChange={(e) => updateLayer(layer.id, { fontSize: parseInt(e.target.value) || 48 })}
+                                                            />
+                                                        </label>
+                                                        <label>
+                                                            Font
+                                                            <select
+                                                                value={layer.fontFamily}
+                                                                onChange={(e) => updateLayer(layer.id, { fontFamily: e.target.value })}
+                                                            >
+                                                                {FRAME_FONTS.map(font => (
+                                                                    <option key={font} value={font}>{font}</option>
+                                                                ))}
+                                                            </select>
+                                                        </label>
+                                                        <label>
+                                                            Weight
+                                                            <select
+                                                                value={layer.fontWeight}
+                                                                onChange={(e) => updateLayer(layer.id, { fontWeight: e.target.value as FrameTextLayer['fontWeight'] })}
+                                                            >
+                                                                <option value="normal">Normal</option>
+                                                                <option value="bold">Bold</option>
+                                                            </select>
+                                                        </label>
+                                                        <label>
+                                                            Color
+                                                            <input
+                                                                type="color"
+                                                                value={layer.color}
+                                                                onChange={(e) => updateLayer(layer.id, { color: e.target.value })}
+                                                            />
+                                                        </label>
+                                                        <label>
+                                                            Align
+                                                            <select
+                                                                value={layer.align}
+                                                                onChange={(e) => updateLayer(layer.id, { align: e.target.value as FrameTextLayer['align'] })}
+                                                            >
+                                                                <option value="left">Left</option>
+                                                                <option value="center">Center</option>
+                                                                <option value="right">Right</option>
+                                                            </select>
+                                                        </label>
+                                                        <label className={styles.rotationLabel}>
+                                                            Rotation
+                                                            <input
+                                                                type="number"
+                                                                value={Math.round(layer.rotation)}
+                                                                onChange={(e) => updateLayer(layer.id, { rotation: parseInt(e.target.value) || 0 })}
+                                                            />
+                                                            <span>°</span>
+                                                        </label>
+                                                    </div>
+                                                </div>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            </aside>
+                        )}
+                    </div>
+                )
+                }
+
+                {
+                    activeTab === 'timers' && (
+                        <div className={styles.timersTab}>
+                            <div className={styles.timerCard}>
+                                <h3>🎚️ Enable Countdown Timer</h3>
+                                <p>Toggle the countdown timer during photo capture sessions</p>
+                                <div className={styles.timerToggle}>
+                                    <label className={styles.toggleSwitch}>
+                                        <input
+                                            type="checkbox"
+                                            checked={config.timerEnabled}
+                                            onChange={(e) => updateConfig({ timerEnabled: e.target.checked })}
+                                        />
+                                        <span className={styles.toggleSlider}></span>
+                                    </label>
+                                    <span className={styles.toggleLabel}>
+                                        {config.timerEnabled ? 'Timer Enabled' : 'Timer Disabled (Instant Capture)'}
+                                    </span>
+                                </div>
+                            </div>
+
+                            <div className={styles.timerCard}>
+                                <h3>⏱️ Countdown Duration</h3>
+                                <p>Time before photo capture (seconds)</p>
+                                <div className={styles.timerInput}>
+                                    <input
+                                        type="range"
+                                        min="3"
+                                        max="10"
+                                        value={config.countdownDuration}
+                                        onChange={(e) => updateConfig({ countdownDuration: parseInt(e.target.value) })}
+                                        disabled={!config.timerEnabled}
+                                    />
+                                    <span className={styles.timerValue}>{config.countdownDuration}s</span>
+                                </div>
+                            </div>
+
+                            <div className={styles.timerCard}>
+                                <h3>👁️ Preview Duration</h3>
+                                <p>Time to show captured photo (seconds)</p>
+                                <div className={styles.timerInput}>
+                                    <input
+                                        type="range"
+                                        min="1"
+                                        max="5"
+                                        value={config.previewDuration}
+                                        onChange={(e) => updateConfig({ previewDuration: parseInt(e.target.value) })}
+                                    />
+                                    <span className={styles.timerValue}>{config.previewDuration}s</span>
+                                </div>
+                            </div>
+
+                            <div className={styles.timerCard}>
+                                <h3>⏰ Session Timeout</h3>
+                                <p>Auto-reset session after inactivity (seconds)</p>
+                                <div className={styles.timerInput}>
+                                    <input
+                                        type="range"
+                                        min="30"
+                                        max="300"
+                                        step="30"
+                                        value={config.sessionTimeout}
                                         onChange={(e) => updateConfig({ sessionTimeout: parseInt(e.target.value) })}
                                     />
                                     <span className={styles.timerValue}>{config.sessionTimeout}s</span>
@@ -861,6 +1608,191 @@ function AdminDashboard(): JSX.Element {
                     )
                 }
 
+                {/* Camera Tab */}
+                {activeTab === 'camera' && (
+                    <div className={styles.timersTab}>
+                        <div className={styles.timerCard} style={{ gridColumn: '1 / -1' }}>
+                            <h3>📷 Camera Settings</h3>
+                            <p>
+                                {cameraConnected
+                                    ? 'Adjust the connected camera, then save the values as a named preset'
+                                    : 'No camera connected - connect one from the start screen to read or apply settings'}
+                            </p>
+                            <div className={styles.cameraSettingsGrid}>
+                                {CAMERA_SETTING_FIELDS.map(({ key, label }) => {
+                                    const options = cameraSettingOptions[key]
+                                    const value = cameraSettings[key] || ''
+                                    return (
+                                        <div key={key} className={styles.formGroup}>
+                                            <label>{label}</label>
+                                            {options && options.length > 0 ? (
+                                                <select
+                                                    value={value}
+                                                    onChange={(e) => setCameraSettings({ ...cameraSettings, [key]: e.target.value || undefined })}
+                                                    className={styles.input}
+                                                >
+                                                    <option value="">Unchanged</option>
+                                                    {!options.includes(value) && value && <option value={value}>{value}</option>}
+                                                    {options.map(option => (
+                                                        <option key={option} value={option}>{option}</option>
+                                                    ))}
+                                                </select>
+                                            ) : (
+                                                <input
+                                                    type="text"
+                                                    value={value}
+                                                    onChange={(e) => setCameraSettings({ ...cameraSettings, [key]: e.target.value || undefined })}
+                                                    placeholder="Unchanged"
+                                                    className={styles.input}
+                                                />
+                                            )}
+                                        </div>
+                                    )
+                                })}
+                            </div>
+                            <div className={styles.cameraActions}>
+                                <button className={styles.addButton} onClick={loadCameraSettings}>
+                                    🔄 Read from Camera
+                                </button>
+                                <button
+                                    className={styles.addButton}
+                                    onClick={() => applyCameraSettings(cameraSettings)}
+                                    disabled={!cameraConnected}
+                                >
+                                    ✓ Apply to Camera
+                                </button>
+                                {cameraMessage && <span className={styles.toggleLabel}>{cameraMessage}</span>}
+                            </div>
+                        </div>
+
+                        <div className={styles.timerCard}>
+                            <h3>🩺 Auto Reconnect</h3>
+                            <p>Watch the USB camera and reconnect automatically if it drops</p>
+                            <div className={styles.timerToggle}>
+                                <label className={styles.toggleSwitch}>
+                                    <input
+                                        type="checkbox"
+                                        checked={config.cameraWatchdogEnabled}
+                                        onChange={(e) => updateConfig({ cameraWatchdogEnabled: e.target.checked })}
+                                    />
+                                    <span className={styles.toggleSlider}></span>
+                                </label>
+                                <span className={styles.toggleLabel}>
+                                    {config.cameraWatchdogEnabled ? 'Monitoring Enabled' : 'Monitoring Disabled'}
+                                </span>
+                            </div>
+                        </div>
+
+                        <div className={styles.timerCard}>
+                            <h3>🔍 Health Check Interval</h3>
+                            <p>How often to check the camera is still attached (seconds)</p>
+                            <div className={styles.timerInput}>
+                                <input
+                                    type="range"
+                                    min="2"
+                                    max="30"
+                                    value={config.cameraPollInterval}
+                                    onChange={(e) => updateConfig({ cameraPollInterval: parseInt(e.target.value) })}
+                                    disabled={!config.cameraWatchdogEnabled}
+                                />
+                                <span className={styles.timerValue}>{config.cameraPollInterval}s</span>
+                            </div>
+                        </div>
+
+                        <div className={styles.timerCard}>
+                            <h3>🔁 Capture Retries</h3>
+                            <p>Extra attempts before falling back to the webcam</p>
+                            <div className={styles.timerInput}>
+                                <input
+                                    type="range"
+                                    min="0"
+                                    max="5"
+                                    value={config.cameraCaptureRetries}
+                                    onChange={(e) => updateConfig({ cameraCaptureRetries: parseInt(e.target.value) })}
+                                    disabled={!config.cameraWatchdogEnabled}
+                                />
+                                <span className={styles.timerValue}>{config.cameraCaptureRetries}</span>
+                            </div>
+                        </div>
+
+                        <div className={styles.timerCard} style={{ gridColumn: '1 / -1' }}>
+                            <h3>💾 Presets</h3>
+                            <p>The default preset is applied automatically whenever the camera connects</p>
+                            <div className={styles.cameraActions}>
+                                <input
+                                    type="text"
+                                    value={presetName}
+                                    onChange={(e) => setPresetName(e.target.value)}
+                                    placeholder="e.g. Indoor flash"
+                                    className={styles.input}
+                                />
+                                <button
+                                    className={styles.addButton}
+                                    onClick={handleSavePreset}
+                                    disabled={!presetName.trim()}
+                                >
+                                    + Save Current as Preset
+                                </button>
+                            </div>
+
+                            <div className={styles.presetList}>
+                                {config.cameraPresets.map(preset => (
+                                    <div key={preset.id} className={styles.presetRow}>
+                                        <input
+                                            type="radio"
+                                            name="activeCameraPreset"
+                                            checked={config.activeCameraPresetId === preset.id}
+                                            onChange={() => updateConfig({ activeCameraPresetId: preset.id })}
+                                            title="Apply on connect"
+                                        />
+                                        <div className={styles.presetInfo}>
+                                            <div className={styles.presetName}>{preset.name}</div>
+                                            <div className={styles.presetSummary}>
+                                                {CAMERA_SETTING_FIELDS
+                                                    .filter(({ key }) => preset.settings[key])
+                                                    .map(({ key, label }) => `${label}: ${preset.settings[key]}`)
+                                                    .join(' · ') || 'No settings'}
+                                            </div>
+                                        </div>
+                                        <button className={styles.addButton} onClick={() => setCameraSettings(preset.settings)}>
+                                            Load
+                                        </button>
+                                        <button
+                                            className={styles.addButton}
+                                            onClick={() => applyCameraSettings(preset.settings)}
+                                            disabled={!cameraConnected}
+                                        >
+                                            Apply Now
+                                        </button>
+                                        <button className={styles.presetDelete} onClick={() => handleDeletePreset(preset.id)}>
+                                            ×
+                                        </button>
+                                    </div>
+                                ))}
+
+                                {config.cameraPresets.length > 0 && (
+                                    <label className={styles.presetNone}>
+                                        <input
+                                            type="radio"
+                                            name="activeCameraPreset"
+                                            checked={!config.activeCameraPresetId}
+                                            onChange={() => updateConfig({ activeCameraPresetId: null })}
+                                        />
+                                        Don't change camera settings on connect
+                                    </label>
+                                )}
+
+                                {config.cameraPresets.length === 0 && (
+                                    <div className={styles.emptyState}>
+                                        <p>No presets saved</p>
+                                        <p>Save presets for each venue's lighting</p>
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                )}
+
                 {/* Payment Tab */}
                 {activeTab === 'payment' && (
                     <div className={styles.timersTab}>
@@ -882,26 +1814,134 @@ function AdminDashboard(): JSX.Element {
                             </div>
                         </div>
 
-                        <div className={styles.timerCard}>
-                            <h3>💰 Session Price</h3>
-                            <p>Base price for 1 session (includes 1 4R print)</p>
-                            <div className={styles.timerInput}>
-                                <input
-                                    type="number"
-                                    min="0"
-                                    step="1000"
-                                    value={config.sessionPrice}
-                                    onChange={(e) => updateConfig({ sessionPrice: parseInt(e.target.value) || 0 })}
+                        <div className={styles.timerCard} style={{ gridColumn: '1 / -1' }}>
+                            <h3>🏦 Payment Provider</h3>
+                            <p>Gateway used for QRIS charges (Mock settles without a real payment, for offline testing)</p>
+                            <div style={{ display: 'flex', gap: '12px', marginTop: '12px' }}>
+                                <select
+                                    value={config.paymentProvider}
+                                    onChange={(e) => updateConfig({ paymentProvider: e.target.value as PaymentProviderId })}
                                     disabled={!config.paymentEnabled}
-                                    style={{ width: '120px', padding: '8px', fontSize: '16px', borderRadius: '8px', border: '1px solid var(--color-border)' }}
-                                />
-                                <span className={styles.timerValue}>Rp {config.sessionPrice.toLocaleString('id-ID')}</span>
+                                    style={{ width: '100%', padding: '10px', fontSize: '14px', borderRadius: '8px', border: '1px solid var(--color-border)', background: 'var(--color-bg-tertiary)', color: 'white' }}
+                                >
+                                    <option value="midtrans">Midtrans</option>
+                                    <option value="mock">Mock (offline testing)</option>
+                                </select>
+                                {config.paymentProvider === 'mock' && (
+                                    <select
+                                        value={config.mockPaymentOutcome}
+                                        onChange={(e) => updateConfig({ mockPaymentOutcome: e.target.value as MockPaymentOutcome })}
+                                        disabled={!config.paymentEnabled}
+                                        style={{ width: '100%', padding: '10px', fontSize: '14px', borderRadius: '8px', border: '1px solid var(--color-border)', background: 'var(--color-bg-tertiary)', color: 'white' }}
+                                    >
+                                        <option value="settlement">Payments succeed</option>
+                                        <option value="expire">Payments expire</option>
+                                    </select>
+                                )}
+                            </div>
+                        </div>
+
+                        <div className={styles.timerCard} style={{ gridColumn: '1 / -1' }}>
+                            <h3>📦 Packages</h3>
+                            <p>Bundles guests choose from; each unlocks its prints and extras for the session</p>
+
+                            <div className={styles.presetList}>
+                                {config.pricingPackages.map(pkg => (
+                                    <div key={pkg.id} className={`${styles.presetRow} ${styles.packageRow}`}>
+                                        <div className={styles.presetInfo}>
+                                            <div className={styles.packageFields}>
+                                                <input
+                                                    className={styles.input}
+                                                    value={pkg.name}
+                                                    onChange={(e) => updatePackage(pkg.id, { name: e.target.value })}
+                                                    placeholder="Package name"
+                                                    disabled={!config.paymentEnabled}
+                                                />
+                                                <input
+                                                    className={styles.input}
+                                                    value={pkg.description || ''}
+                                                    onChange={(e) => updatePackage(pkg.id, { description: e.target.value || undefined })}
+                                                    placeholder="Description (optional)"
+                                                    disabled={!config.paymentEnabled}
+                                                />
+                                                <label>
+                                                    Rp
+                                                    <input
+                                                        className={styles.input}
+                                                        type="number"
+                                                        min="0"
+                                                        step="1000"
+                                                        value={pkg.price}
+                                                        onChange={(e) => updatePackage(pkg.id, { price: parseInt(e.target.value) || 0 })}
+                                                        disabled={!config.paymentEnabled}
+                                                    />
+                                                </label>
+                                            </div>
+                                            <div className={styles.packageFields}>
+                                                <label>
+                                                    Prints
+                                                    <input
+                                                        className={styles.input}
+                                                        type="number"
+                                                        min="0"
+                                                        value={pkg.prints ?? ''}
+                                                        onChange={(e) => updatePackage(pkg.id, { prints: Math.max(0, parseInt(e.target.value) || 0) })}
+                                                        disabled={!config.paymentEnabled || pkg.prints === null}
+                                                    />
+                                                </label>
+                                                <label>
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={pkg.prints === null}
+                                                        onChange={(e) => updatePackage(pkg.id, { prints: e.target.checked ? null : 1 })}
+                                                        disabled={!config.paymentEnabled}
+                                                    />
+                                                    Unlimited
+                                                </label>
+                                                {(['gif', 'liveVideo', 'email'] as const).map(key => (
+                                                    <label key={key}>
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={pkg.entitlements[key]}
+                                                            onChange={(e) => updatePackageEntitlement(pkg, key, e.target.checked)}
+                                                            disabled={!config.paymentEnabled}
+                                                        />
+                                                        {key === 'gif' ? 'GIF & Boomerang' : key === 'liveVideo' ? 'Live Video' : 'Email'}
+                                                    </label>
+                                                ))}
+                                            </div>
+                                        </div>
+                                        <button
+                                            className={styles.presetDelete}
+                                            onClick={() => handleDeletePackage(pkg.id)}
+                                            disabled={!config.paymentEnabled}
+                                        >
+                                            ×
+                                        </button>
+                                    </div>
+                                ))}
+
+                                {config.pricingPackages.length === 0 && (
+                                    <div className={styles.emptyState}>
+                                        <p>No packages</p>
+                                        <p>Add at least one package so guests can pay</p>
+                                    </div>
+                                )}
                             </div>
+
+                            <button
+                                className={styles.addButton}
+                                onClick={handleAddPackage}
+                                disabled={!config.paymentEnabled}
+                                style={{ marginTop: '12px' }}
+                            >
+                                + Add Package
+                            </button>
                         </div>
 
                         <div className={styles.timerCard}>
                             <h3>🖨️ Additional Print Price</h3>
-                            <p>Price per 2 additional prints</p>
+                            <p>Price per 2 additional prints, for packages with limited prints</p>
                             <div className={styles.timerInput}>
                                 <input
                                     type="number"
@@ -933,10 +1973,129 @@ function AdminDashboard(): JSX.Element {
                             </div>
                         </div>
 
+                        <div className={styles.timerCard}>
+                            <h3>🔒 Extra Print PIN</h3>
+                            <p>Staff PIN to print beyond the paid prints (clear it to disable)</p>
+                            <div className={styles.timerInput}>
+                                <input
+                                    type="password"
+                                    inputMode="numeric"
+                                    value={overridePinDraft}
+                                    onChange={(e) => setOverridePinDraft(e.target.value.trim())}
+                                    placeholder={paymentCredentials?.adminOverridePin ? '✓ Set' : 'e.g. 2468'}
+                                    disabled={!config.paymentEnabled}
+                                    autoComplete="off"
+                                    style={{ width: '120px', padding: '8px', fontSize: '16px', borderRadius: '8px', border: '1px solid var(--color-border)' }}
+                                />
+                                <button
+                                    className={styles.addButton}
+                                    onClick={() => handleSaveOverridePin(overridePinDraft)}
+                                    disabled={!config.paymentEnabled || !overridePinDraft}
+                                >
+                                    Save
+                                </button>
+                                {paymentCredentials?.adminOverridePin && (
+                                    <button
+                                        className={styles.addButton}
+                                        onClick={() => handleSaveOverridePin('')}
+                                        disabled={!config.paymentEnabled}
+                                    >
+                                        Clear
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+
+                        <div className={styles.timerCard} style={{ gridColumn: '1 / -1' }}>
+                            <h3>💵 Cash Payment</h3>
+                            <p>Let guests pay cash; an operator confirms with their PIN at the booth or from their phone</p>
+                            <div className={styles.timerToggle}>
+                                <label className={styles.toggleSwitch}>
+                                    <input
+                                        type="checkbox"
+                                        checked={config.cashPaymentEnabled}
+                                        onChange={(e) => updateConfig({ cashPaymentEnabled: e.target.checked })}
+                                        disabled={!config.paymentEnabled}
+                                    />
+                                    <span className={styles.toggleSlider}></span>
+                                </label>
+                                <span className={styles.toggleLabel}>
+                                    {config.cashPaymentEnabled ? 'Cash Accepted' : 'QRIS Only'}
+                                </span>
+                            </div>
+
+                            <div className={styles.presetList}>
+                                {config.cashOperators.map(operator => (
+                                    <div key={operator.id} className={styles.presetRow}>
+                                        <div className={styles.packageFields}>
+                                            <input
+                                                className={styles.input}
+                                                value={operator.name}
+                                                onChange={(e) => updateCashOperator(operator.id, { name: e.target.value })}
+                                                placeholder="Operator name"
+                                                disabled={!config.cashPaymentEnabled}
+                                            />
+                                            <input
+                                                className={styles.input}
+                                                type="password"
+                                                inputMode="numeric"
+                                                value={operatorPinDrafts[operator.id] || ''}
+                                                onChange={(e) => setOperatorPinDrafts(prev => ({ ...prev, [operator.id]: e.target.value.trim() }))}
+                                                placeholder={paymentCredentials?.cashOperatorPins.includes(operator.id) ? '✓ PIN set, enter a new one' : 'PIN'}
+                                                disabled={!config.cashPaymentEnabled}
+                                            />
+                                        </div>
+                                        <button
+                                            className={styles.addButton}
+                                            onClick={() => handleSaveOperatorPin(operator.id, operatorPinDrafts[operator.id] || '')}
+                                            disabled={!config.cashPaymentEnabled || !operatorPinDrafts[operator.id]}
+                                        >
+                                            Save PIN
+                                        </button>
+                                        <button
+                                            className={styles.presetDelete}
+                                            onClick={() => handleDeleteCashOperator(operator.id)}
+                                            disabled={!config.cashPaymentEnabled}
+                                        >
+                                            ×
+                                        </button>
+                                    </div>
+                                ))}
+
+                                {config.cashPaymentEnabled && !config.cashOperators.some(o => paymentCredentials?.cashOperatorPins.includes(o.id)) && (
+                                    <div className={styles.emptyState}>
+                                        <p>No operators</p>
+                                        <p>Add an operator with a PIN, cash isn't offered until then</p>
+                                    </div>
+                                )}
+                            </div>
+
+                            <button
+                                className={styles.addButton}
+                                onClick={handleAddCashOperator}
+                                disabled={!config.cashPaymentEnabled}
+                                style={{ marginTop: '12px' }}
+                            >
+                                + Add Operator
+                            </button>
+                        </div>
+
                         <div className={styles.timerCard} style={{ gridColumn: '1 / -1' }}>
                             <h3>🔑 Midtrans API Keys</h3>
                             <p>Enter your Midtrans Sandbox/Production keys</p>
                             <div style={{ display: 'flex', flexDirection: 'column', gap: '12px', marginTop: '12px' }}>
+                                <div>
+                                    <label style={{ display: 'block', fontSize: '14px', marginBottom: '4px', color: 'var(--color-text-secondary)' }}>Environment</label>
+                                    <select
+                                        value={config.midtransEnvironment}
+                                        onChange={(e) => updateConfig({ midtransEnvironment: e.target.value as MidtransEnvironment })}
+                                        disabled={!config.paymentEnabled || config.paymentProvider !== 'midtrans'}
+                                        style={{ width: '100%', padding: '10px', fontSize: '14px', borderRadius: '8px', border: '1px solid var(--color-border)', background: 'var(--color-bg-tertiary)', color: 'white' }}
+                                    >
+                                        <option value="sandbox">Sandbox</option>
+                                        <option value="production">Production</option>
+                                    </select>
+                                </div>
                                 <div>
                                     <label style={{ display: 'block', fontSize: '14px', marginBottom: '4px', color: 'var(--color-text-secondary)' }}>Client Key</label>
                                     <input
@@ -949,15 +2108,45 @@ function AdminDashboard(): JSX.Element {
                                     />
                                 </div>
                                 <div>
-                                    <label style={{ display: 'block', fontSize: '14px', marginBottom: '4px', color: 'var(--color-text-secondary)' }}>Server Key</label>
-                                    <input
-                                        type="password"
-                                        value={config.midtransServerKey}
-                                        onChange={(e) => updateConfig({ midtransServerKey: e.target.value })}
-                                        placeholder="SB-Mid-server-xxx"
-                                        disabled={!config.paymentEnabled}
-                                        style={{ width: '100%', padding: '10px', fontSize: '14px', borderRadius: '8px', border: '1px solid var(--color-border)', background: 'var(--color-bg-tertiary)', color: 'white' }}
-                                    />
+                                    <label style={{ display: 'block', fontSize: '14px', marginBottom: '4px', color: 'var(--color-text-secondary)' }}>
+                                        Server Key {paymentCredentials && (paymentCredentials.midtransServerKey ? '· ✓ Saved' : '· Not set')}
+                                    </label>
+                                    {/* Write-only: the saved key stays in the main process */}
+                                    <div style={{ display: 'flex', gap: '8px' }}>
+                                        <input
+                                            type="password"
+                                            value={serverKeyDraft}
+                                            onChange={(e) => setServerKeyDraft(e.target.value)}
+                                            placeholder={paymentCredentials?.midtransServerKey ? 'Enter a new key to replace the saved one' : 'SB-Mid-server-xxx'}
+                                            disabled={!config.paymentEnabled}
+                                            autoComplete="off"
+                                            style={{ width: '100%', padding: '10px', fontSize: '14px', borderRadius: '8px', border: '1px solid var(--color-border)', background: 'var(--color-bg-tertiary)', color: 'white' }}
+                                        />
+                                        <button
+                                            className={styles.addButton}
+                                            onClick={() => handleSaveServerKey(serverKeyDraft)}
+                                            disabled={!config.paymentEnabled || !serverKeyDraft.trim()}
+                                        >
+                                            Save
+                                        </button>
+                                        {paymentCredentials?.midtransServerKey && (
+                                            <button
+                                                className={styles.addButton}
+                                                onClick={() => handleSaveServerKey('')}
+                                                disabled={!config.paymentEnabled}
+                                            >
+                                                Clear
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                                <div>
+                                    <label style={{ display: 'block', fontSize: '14px', marginBottom: '4px', color: 'var(--color-text-secondary)' }}>Notification URL</label>
+                                    <code style={{ fontSize: '13px', userSelect: 'all' }}>http://{localIp || '<booth-address>'}:5050/payment/notification</code>
+                                    <p style={{ fontSize: '12px', marginTop: '4px' }}>
+                                        Set this as the Payment Notification URL in the Midtrans dashboard so payments confirm instantly.
+                                        Midtrans must be able to reach it (e.g. through a tunnel); the booth keeps checking status as a fallback.
+                                    </p>
                                 </div>
                             </div>
                         </div>
@@ -985,6 +2174,310 @@ function AdminDashboard(): JSX.Element {
                     </div>
                 )}
 
+                {/* Print Queue Tab */}
+                {activeTab === 'prints' && (
+                    <div className={styles.historyTab}>
+                        <div className={styles.historyHeader}>
+                            <h3>🖨️ Print Queue</h3>
+                            <span className={styles.historyCount}>
+                                {printJobs.filter(j => j.status === 'queued' || j.status === 'printing').length} pending · {printJobs.filter(j => j.status === 'failed').length} failed
+                            </span>
+                            <button className={styles.addButton} onClick={loadPrintJobs}>
+                                🔄 Refresh
+                            </button>
+                            {printQueueError && <span className={styles.jobError}>{printQueueError}</span>}
+                        </div>
+
+                        {printJobs.length > 0 ? (
+                            <div className={styles.historyTable}>
+                                <div className={`${styles.tableHeader} ${styles.printJobGrid}`}>
+                                    <span>Session</span>
+                                    <span>Copies</span>
+                                    <span>Status</span>
+                                    <span>Attempts</span>
+                                    <span>Date/Time</span>
+                                    <span></span>
+                                </div>
+                                {printJobs.map(job => (
+                                    <div key={job.id} className={`${styles.tableRow} ${styles.printJobGrid}`}>
+                                        <span className={styles.emailCell} title={job.sessionId}>
+                                            {job.sessionId ? job.sessionId.slice(0, 8) : <em style={{ opacity: 0.5 }}>No session</em>}
+                                        </span>
+                                        <span className={styles.printCell}>
+                                            {job.copiesPrinted}/{job.copies}
+                                        </span>
+                                        <span>
+                                            <span className={`${styles.jobStatus} ${styles[`job_${job.status}`]}`}>
+                                                {job.status}
+                                            </span>
+                                            {job.error && job.status !== 'completed' && (
+                                                <span className={styles.jobError} title={job.error}>{job.error}</span>
+                                            )}
+                                        </span>
+                                        <span className={styles.printCell}>{job.attempts}</span>
+                                        <span className={styles.dateCell}>
+                                            {new Date(job.createdAt).toLocaleString('id-ID', {
+                                                day: '2-digit',
+                                                month: 'short',
+                                                hour: '2-digit',
+                                                minute: '2-digit'
+                                            })}
+                                        </span>
+                                        <span className={styles.jobActions}>
+                                            {(job.status === 'failed' || job.status === 'cancelled') && (
+                                                <button onClick={() => handleRetryPrintJob(job.id)}>Retry</button>
+                                            )}
+                                            {(job.status === 'queued' || job.status === 'failed') && (
+                                                <button onClick={() => handleCancelPrintJob(job.id)}>Cancel</button>
+                                            )}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        ) : (
+                            <div className={styles.emptyState} style={{ padding: '60px 20px' }}>
+                                <p>No print jobs yet</p>
+                                <p>Prints from guest sessions will appear here</p>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {/* Sync Tab */}
+                {activeTab === 'sync' && (
+                    <div className={styles.historyTab}>
+                        <div className={styles.historyHeader}>
+                            <h3>☁️ Cloud Sync</h3>
+                            <span className={styles.historyCount}>
+                                {syncOnline ? '🟢 Online' : '🔴 Offline'} · {syncJobs.filter(j => j.status === 'pending' || j.status === 'uploading').length} pending · {syncJobs.filter(j => j.status === 'failed').length} failed
+                            </span>
+                            <button className={styles.addButton} onClick={loadSyncStatus}>
+                                🔄 Refresh
+                            </button>
+                            <button
+                                className={styles.addButton}
+                                onClick={() => handleRetrySync()}
+                                disabled={!syncJobs.some(j => j.status === 'pending' || j.status === 'failed')}
+                            >
+                                ⟳ Retry All
+                            </button>
+                            {syncError && <span className={styles.jobError}>{syncError}</span>}
+                        </div>
+
+                        {syncJobs.length > 0 ? (
+                            <div className={styles.historyTable}>
+                                <div className={`${styles.tableHeader} ${styles.syncJobGrid}`}>
+                                    <span>Session</span>
+                                    <span>Files</span>
+                                    <span>Status</span>
+                                    <span>Attempts</span>
+                                    <span>Next Retry</span>
+                                    <span></span>
+                                </div>
+                                {syncJobs.map(job => {
+                                    const totalBytes = job.files.reduce((sum, f) => sum + f.size, 0)
+                                    const uploadedBytes = job.files.reduce((sum, f) => sum + (f.url ? f.size : f.uploadedBytes), 0)
+                                    const progress = totalBytes ? Math.round(uploadedBytes / totalBytes * 100) : 0
+
+                                    return (
+                                        <div key={job.id} className={`${styles.tableRow} ${styles.syncJobGrid}`}>
+                                            <span className={styles.emailCell} title={job.sessionId}>
+                                                {job.sessionId.slice(0, 8)}
+                                                <small className={styles.syncTarget}>{job.target === 'drive' ? 'Google Drive' : 'Supabase'}</small>
+                                            </span>
+                                            <span>
+                                                {job.files.filter(f => f.url).length}/{job.files.length} · {progress}%
+                                                <span className={styles.syncProgress}>
+                                                    <span style={{ width: `${progress}%` }} />
+                                                </span>
+                                            </span>
+                                            <span>
+                                                <span className={`${styles.jobStatus} ${styles[`sync_${job.status}`]}`}>
+                                                    {job.status}
+                                                </span>
+                                                {job.error && job.status !== 'completed' && (
+                                                    <span className={styles.jobError} title={job.error}>{job.error}</span>
+                                                )}
+                                            </span>
+                                            <span className={styles.printCell}>{job.attempts}</span>
+                                            <span className={styles.dateCell}>
+                                                {job.status === 'completed' && job.completedAt
+                                                    ? `Done ${new Date(job.completedAt).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}`
+                                                    : job.status === 'pending' && job.nextAttemptAt
+                                                        ? new Date(job.nextAttemptAt).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+                                                        : '-'}
+                                            </span>
+                                            <span className={styles.jobActions}>
+                                                {(job.status === 'pending' || job.status === 'failed') && (
+                                                    <button onClick={() => handleRetrySync(job.id)}>Retry</button>
+                                                )}
+                                                {job.status === 'completed' && job.galleryUrl && (
+                                                    <a href={job.galleryUrl} target="_blank" rel="noopener noreferrer" className={styles.galleryLink}>
+                                                        🔗 View
+                                                    </a>
+                                                )}
+                                            </span>
+                                        </div>
+                                    )
+                                })}
+                            </div>
+                        ) : (
+                            <div className={styles.emptyState} style={{ padding: '60px 20px' }}>
+                                <p>Nothing to sync</p>
+                                <p>Sessions shared in cloud mode are uploaded from here</p>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {/* Vouchers Tab */}
+                {activeTab === 'vouchers' && (
+                    <div className={styles.historyTab}>
+                        <div className={styles.historyHeader}>
+                            <h3>🎟️ Vouchers</h3>
+                            <span className={styles.historyCount}>
+                                {vouchers.length} codes · {vouchers.reduce((sum, v) => sum + v.uses, 0)} redeemed
+                            </span>
+                            <button className={styles.addButton} onClick={loadVouchers}>
+                                🔄 Refresh
+                            </button>
+                            <button
+                                className={styles.addButton}
+                                onClick={exportVouchersToCSV}
+                                disabled={vouchers.length === 0}
+                            >
+                                📥 Export CSV
+                            </button>
+                            {voucherMessage && <span className={styles.historyCount}>{voucherMessage}</span>}
+                        </div>
+
+                        {/* Create form: a fixed code, or a batch of generated ones */}
+                        <div className={styles.historyFilters}>
+                            <input
+                                type="text"
+                                value={voucherForm.code}
+                                onChange={(e) => setVoucherForm(prev => ({ ...prev, code: e.target.value.toUpperCase() }))}
+                                placeholder="Code (blank to generate)"
+                            />
+                            {!voucherForm.code.trim() && (
+                                <>
+                                    <input
+                                        type="text"
+                                        value={voucherForm.prefix}
+                                        onChange={(e) => setVoucherForm(prev => ({ ...prev, prefix: e.target.value.toUpperCase() }))}
+                                        placeholder="Prefix, e.g. VIP-"
+                                        style={{ width: '120px' }}
+                                    />
+                                    <label>
+                                        Count
+                                        <input
+                                            type="number"
+                                            min="1"
+                                            max="500"
+                                            value={voucherForm.count}
+                                            onChange={(e) => setVoucherForm(prev => ({ ...prev, count: parseInt(e.target.value) || 1 }))}
+                                            style={{ width: '70px' }}
+                                        />
+                                    </label>
+                                </>
+                            )}
+                            <input
+                                type="text"
+                                value={voucherForm.label}
+                                onChange={(e) => setVoucherForm(prev => ({ ...prev, label: e.target.value }))}
+                                placeholder="Label, e.g. Sponsor name"
+                            />
+                            <select
+                                value={voucherForm.discountType}
+                                onChange={(e) => setVoucherForm(prev => ({ ...prev, discountType: e.target.value as VoucherDiscountType }))}
+                            >
+                                <option value="free">Free session</option>
+                                <option value="percent">Percent off</option>
+                                <option value="amount">Amount off (Rp)</option>
+                            </select>
+                            {voucherForm.discountType !== 'free' && (
+                                <input
+                                    type="number"
+                                    min="0"
+                                    max={voucherForm.discountType === 'percent' ? 100 : undefined}
+                                    step={voucherForm.discountType === 'percent' ? 5 : 1000}
+                                    value={voucherForm.discountValue}
+                                    onChange={(e) => setVoucherForm(prev => ({ ...prev, discountValue: parseInt(e.target.value) || 0 }))}
+                                    style={{ width: '100px' }}
+                                />
+                            )}
+                            <label>
+                                Max uses
+                                <input
+                                    type="number"
+                                    min="1"
+                                    value={voucherForm.maxUses}
+                                    onChange={(e) => setVoucherForm(prev => ({ ...prev, maxUses: e.target.value }))}
+                                    placeholder="∞"
+                                    style={{ width: '70px' }}
+                                />
+                            </label>
+                            <label>
+                                Expires
+                                <input
+                                    type="date"
+                                    value={voucherForm.expires}
+                                    onChange={(e) => setVoucherForm(prev => ({ ...prev, expires: e.target.value }))}
+                                />
+                            </label>
+                            <button className={styles.addButton} onClick={handleCreateVouchers}>
+                                + Create
+                            </button>
+                        </div>
+
+                        {vouchers.length > 0 ? (
+                            <div className={styles.historyTable}>
+                                <div className={`${styles.tableHeader} ${styles.voucherGrid}`}>
+                                    <span>Code</span>
+                                    <span>Discount</span>
+                                    <span>Uses</span>
+                                    <span>Expires</span>
+                                    <span>Status</span>
+                                    <span></span>
+                                </div>
+                                {vouchers.map(voucher => {
+                                    const expired = voucher.expiresAt !== undefined && Date.now() > voucher.expiresAt
+                                    const usedUp = voucher.maxUses !== null && voucher.uses >= voucher.maxUses
+
+                                    return (
+                                        <div key={voucher.code} className={`${styles.tableRow} ${styles.voucherGrid}`}>
+                                            <span className={styles.emailCell} title={voucher.code}>
+                                                <code>{voucher.code}</code>
+                                                {voucher.label && <small className={styles.syncTarget}>{voucher.label}</small>}
+                                            </span>
+                                            <span>{formatVoucherDiscount(voucher)}</span>
+                                            <span className={styles.printCell}>
+                                                {voucher.uses}/{voucher.maxUses ?? '∞'}
+                                            </span>
+                                            <span className={styles.dateCell}>
+                                                {voucher.expiresAt ? new Date(voucher.expiresAt).toLocaleDateString('id-ID', { day: '2-digit', month: 'short', year: 'numeric' }) : '-'}
+                                            </span>
+                                            <span>
+                                                <span className={`${styles.jobStatus} ${expired || usedUp ? '' : styles.job_completed}`}>
+                                                    {expired ? 'expired' : usedUp ? 'used' : 'active'}
+                                                </span>
+                                            </span>
+                                            <span className={styles.jobActions}>
+                                                <button onClick={() => handleDeleteVoucher(voucher.code)}>Delete</button>
+                                            </span>
+                                        </div>
+                                    )
+                                })}
+                            </div>
+                        ) : (
+                            <div className={styles.emptyState} style={{ padding: '60px 20px' }}>
+                                <p>No vouchers yet</p>
+                                <p>Create codes for VIPs and sponsors; guests enter or scan them on the payment screen</p>
+                            </div>
+                        )}
+                    </div>
+                )}
+
                 {/* History Tab */}
                 {activeTab === 'history' && (
                     <div className={styles.historyTab}>
@@ -1007,6 +2500,49 @@ function AdminDashboard(): JSX.Element {
                             </button>
                         </div>
 
+                        {/* Search & filters */}
+                        <div className={styles.historyFilters}>
+                            <input
+                                type="search"
+                                className={styles.historySearch}
+                                value={historyFilter.text}
+                                onChange={(e) => updateHistoryFilter({ text: e.target.value })}
+                                placeholder="Search session no., email, frame, order ID or voucher"
+                            />
+                            <select
+                                value={historyFilter.email}
+                                onChange={(e) => updateHistoryFilter({ email: e.target.value as HistoryFilter['email'] })}
+                            >
+                                <option value="all">Any email</option>
+                                <option value="with">With email</option>
+                                <option value="without">No email</option>
+                            </select>
+                            <select
+                                value={historyFilter.printed}
+                                onChange={(e) => updateHistoryFilter({ printed: e.target.value as HistoryFilter['printed'] })}
+                            >
+                                <option value="all">Any prints</option>
+                                <option value="yes">Printed</option>
+                                <option value="no">Not printed</option>
+                            </select>
+                            <label>
+                                From
+                                <input
+                                    type="date"
+                                    value={historyFilter.from}
+                                    onChange={(e) => updateHistoryFilter({ from: e.target.value })}
+                                />
+                            </label>
+                            <label>
+                                To
+                                <input
+                                    type="date"
+                                    value={historyFilter.to}
+                                    onChange={(e) => updateHistoryFilter({ to: e.target.value })}
+                                />
+                            </label>
+                        </div>
+
                         {isLoadingHistory ? (
                             <div className={styles.loadingState}>
                                 <div className={styles.spinner}></div>
@@ -1016,6 +2552,7 @@ function AdminDashboard(): JSX.Element {
                             <>
                                 <div className={styles.historyTable}>
                                     <div className={styles.tableHeader}>
+                                        <span>Session</span>
                                         <span>Email</span>
                                         <span>Prints</span>
                                         <span>Gallery</span>
@@ -1023,24 +2560,34 @@ function AdminDashboard(): JSX.Element {
                                     </div>
                                     {historyData.map(item => (
                                         <div key={item.id} className={styles.tableRow}>
+                                            <span className={styles.sessionCell}>
+                                                <strong>{item.number ? `#${item.number}` : item.id.slice(0, 8)}</strong>
+                                                <small>
+                                                    {[item.frameName, `${item.files.length} files`, item.paymentOrderId, item.voucher && `🎟️ ${item.voucher.code}`].filter(Boolean).join(' · ')}
+                                                </small>
+                                            </span>
                                             <span className={styles.emailCell}>
                                                 {item.email || <em style={{ opacity: 0.5 }}>No email</em>}
                                             </span>
                                             <span className={styles.printCell}>
-                                                🖨️ {item.print_count}
+                                                🖨️ {item.printCount}
                                             </span>
                                             <span className={styles.galleryCell}>
-                                                <a
-                                                    href={item.gallery_url}
-                                                    target="_blank"
-                                                    rel="noopener noreferrer"
-                                                    className={styles.galleryLink}
-                                                >
-                                                    🔗 View
-                                                </a>
+                                                {item.galleryUrl ? (
+                                                    <a
+                                                        href={item.galleryUrl}
+                                                        target="_blank"
+                                                        rel="noopener noreferrer"
+                                                        className={styles.galleryLink}
+                                                    >
+                                                        🔗 View
+                                                    </a>
+                                                ) : (
+                                                    <em style={{ opacity: 0.5 }}>Local only</em>
+                                                )}
                                             </span>
                                             <span className={styles.dateCell}>
-                                                {new Date(item.created_at).toLocaleString('id-ID', {
+                                                {new Date(item.createdAt).toLocaleString('id-ID', {
                                                     day: '2-digit',
                                                     month: 'short',
                                                     year: 'numeric',
@@ -1060,10 +2607,10 @@ function AdminDashboard(): JSX.Element {
                                     >
                                         ← Previous
                                     </button>
-                                    <span>Page {historyPage + 1} of {Math.ceil(historyTotal / 20)}</span>
+                                    <span>Page {historyPage + 1} of {Math.ceil(historyTotal / HISTORY_PAGE_SIZE)}</span>
                                     <button
                                         onClick={() => setHistoryPage(p => p + 1)}
-                                        disabled={(historyPage + 1) * 20 >= historyTotal}
+                                        disabled={(historyPage + 1) * HISTORY_PAGE_SIZE >= historyTotal}
                                     >
                                         Next →
                                     </button>
@@ -1071,8 +2618,14 @@ function AdminDashboard(): JSX.Element {
                             </>
                         ) : (
                             <div className={styles.emptyState} style={{ padding: '60px 20px' }}>
-                                <p>No session history yet</p>
-                                <p>Sessions will appear here after photos are taken</p>
+                                {historyFilter.text || historyFilter.email !== 'all' || historyFilter.printed !== 'all' || historyFilter.from || historyFilter.to ? (
+                                    <p>No sessions match this search</p>
+                                ) : (
+                                    <>
+                                        <p>No session history yet</p>
+                                        <p>Sessions will appear here after photos are taken</p>
+                                    </>
+                                )}
                             </div>
                         )}
                     </div>
@@ -1144,6 +2697,141 @@ function AdminDashboard(): JSX.Element {
                                 )}
                             </div>
                         </div>
+
+                        <div className={styles.timerCard}>
+                            <h3>✉️ Email & Google Drive</h3>
+                            <p>Account that emails guests their photos, and the Drive folder cloud galleries are uploaded to</p>
+                            <div style={{ display: 'flex', flexDirection: 'column', gap: '12px', marginTop: '12px' }}>
+                                <div className={styles.formGroup}>
+                                    <label>Gmail Address</label>
+                                    <input
+                                        type="email"
+                                        value={config.gmailUser}
+                                        onChange={e => updateConfig({ gmailUser: e.target.value.trim() })}
+                                        placeholder="booth@gmail.com"
+                                        className={styles.input}
+                                    />
+                                </div>
+                                <div className={styles.formGroup}>
+                                    <label>
+                                        Gmail App Password {emailCredentials && (emailCredentials.gmailAppPassword ? '· ✓ Saved' : '· Not set')}
+                                    </label>
+                                    {/* Write-only: the saved password stays in the main process */}
+                                    <div style={{ display: 'flex', gap: '8px' }}>
+                                        <input
+                                            type="password"
+                                            value={gmailPasswordDraft}
+                                            onChange={e => setGmailPasswordDraft(e.target.value)}
+                                            placeholder={emailCredentials?.gmailAppPassword ? 'Enter a new password to replace the saved one' : '16-character app password'}
+                                            autoComplete="off"
+                                            className={styles.input}
+                                        />
+                                        <button
+                                            className={styles.addButton}
+                                            onClick={() => handleSaveGmailPassword(gmailPasswordDraft)}
+                                            disabled={!gmailPasswordDraft.trim()}
+                                        >
+                                            Save
+                                        </button>
+                                        {emailCredentials?.gmailAppPassword && (
+                                            <button className={styles.addButton} onClick={() => handleSaveGmailPassword('')}>
+                                                Clear
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                                <div className={styles.formGroup}>
+                                    <label>Google Drive Folder ID</label>
+                                    <input
+                                        type="text"
+                                        value={config.googleDriveFolderId}
+                                        onChange={e => updateConfig({ googleDriveFolderId: e.target.value.trim() })}
+                                        placeholder="From the folder's URL, shared with the service account"
+                                        className={styles.input}
+                                    />
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {activeTab === 'backup' && (
+                    <div className={styles.timersTab}>
+                        <div className={styles.timerCard}>
+                            <h3>📤 Export Booth Configuration</h3>
+                            <p>Settings, prices, frames and LUT filters with all their files in one archive (keys and PINs are re-entered after restoring)</p>
+                            <div className={styles.backupActions}>
+                                <button className={styles.addButton} onClick={handleExportBackup}>
+                                    Export…
+                                </button>
+                            </div>
+                        </div>
+
+                        <div className={styles.timerCard}>
+                            <h3>📥 Import Booth Configuration</h3>
+                            <p>Replaces this booth's settings, frames and filters with a backup</p>
+                            <div className={styles.backupActions}>
+                                <button className={styles.addButton} onClick={handlePreviewBackup}>
+                                    Choose Backup…
+                                </button>
+                            </div>
+                        </div>
+
+                        {backupMessage && (
+                            <p className={styles.backupMessage}>{backupMessage}</p>
+                        )}
+
+                        {backupPreview && (
+                            <div className={`${styles.timerCard} ${styles.backupPreview}`}>
+                                <h3>Restore this backup?</h3>
+                                <p>
+                                    Exported {new Date(backupPreview.exportedAt).toLocaleString('id-ID')}
+                                    {backupPreview.appVersion && ` from Sebooth ${backupPreview.appVersion}`}
+                                </p>
+
+                                <dl className={styles.backupSummary}>
+                                    <dt>Frames in backup</dt>
+                                    <dd>{backupPreview.frames.join(', ') || 'None'}</dd>
+                                    <dt>Filters in backup</dt>
+                                    <dd>{backupPreview.filters.join(', ') || 'None'}</dd>
+                                    <dt>Settings that change</dt>
+                                    <dd>{backupPreview.changedSettings.join(', ') || 'None'}</dd>
+                                    {backupPreview.replacedFrames.length > 0 && (
+                                        <>
+                                            <dt className={styles.backupWarning}>Frames removed from this booth</dt>
+                                            <dd>{backupPreview.replacedFrames.join(', ')}</dd>
+                                        </>
+                                    )}
+                                    {backupPreview.replacedFilters.length > 0 && (
+                                        <>
+                                            <dt className={styles.backupWarning}>Filters removed from this booth</dt>
+                                            <dd>{backupPreview.replacedFilters.join(', ')}</dd>
+                                        </>
+                                    )}
+                                    {backupPreview.missingAssets.length > 0 && (
+                                        <>
+                                            <dt className={styles.backupWarning}>Files missing from the backup</dt>
+                                            <dd>{backupPreview.missingAssets.join(', ')}</dd>
+                                        </>
+                                    )}
+                                    {backupPreview.secretsNotIncluded.length > 0 && (
+                                        <>
+                                            <dt className={styles.backupWarning}>Not included, re-enter after restoring</dt>
+                                            <dd>{backupPreview.secretsNotIncluded.join(', ')}</dd>
+                                        </>
+                                    )}
+                                </dl>
+
+                                <div className={styles.backupActions}>
+                                    <button className={styles.addButton} onClick={() => setBackupPreview(null)}>
+                                        Cancel
+                                    </button>
+                                    <button className={styles.primaryButton} onClick={handleImportBackup}>
+                                        Restore
+                                    </button>
+                                </div>
+                            </div>
+                        )}
                     </div>
                 )}
             </main >
@@ -1151,4 +2839,10 @@ function AdminDashboard(): JSX.Element {
     )
 }
 
+function formatVoucherDiscount(voucher: Voucher): string {
+    if (voucher.discountType === 'free') return 'Free session'
+    if (voucher.discountType === 'percent') return `${voucher.discountValue}% off`
+    return `Rp ${voucher.discountValue.toLocaleString('id-ID')} off`
+}
+
 export default AdminDashboard
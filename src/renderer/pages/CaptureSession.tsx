@@ -3,6 +3,8 @@ import { useNavigate } from 'react-router-dom'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useFrameStore, useSessionStore, useAppConfig, useCameraStore } from '../stores'
 import { SessionTimer } from '../components/SessionTimer'
+import { CapturedPhoto } from '@shared/types'
+import { toFileUrl } from '@shared/fileUrl'
 import styles from './CaptureSession.module.css'
 
 type CaptureState = 'idle' | 'countdown' | 'capturing' | 'preview'
@@ -11,8 +13,8 @@ function CaptureSession(): JSX.Element {
     const navigate = useNavigate()
     const { frames, activeFrame } = useFrameStore()
     const { config } = useAppConfig()
-    const { photos, addPhoto, startSession, currentSession } = useSessionStore()
-    const { isConnected } = useCameraStore()
+    const { photos, addPhoto, setBurstPhotos, startSession, currentSession } = useSessionStore()
+    const { isConnected, connectionStatus } = useCameraStore()
 
     const [captureState, setCaptureState] = useState<CaptureState>('idle')
     const [countdown, setCountdown] = useState(config.countdownDuration)
@@ -20,6 +22,7 @@ function CaptureSession(): JSX.Element {
     const [lastCapturedImage, setLastCapturedImage] = useState<string | null>(null)
     const [isLoadingCamera, setIsLoadingCamera] = useState(true)
     const [cameraError, setCameraError] = useState<string | null>(null)
+    const [liveViewUrl, setLiveViewUrl] = useState<string | null>(null)
 
     const videoRef = useRef<HTMLVideoElement>(null)
     const canvasRef = useRef<HTMLCanvasElement>(null)
@@ -37,6 +40,11 @@ function CaptureSession(): JSX.Element {
     // Get only non-duplicate slots (these are the ones user needs to capture)
     const captureSlots = currentFrame?.slots.filter(s => !s.duplicateOfSlotId) || []
 
+    // Burst frames fire several shots per countdown and spread them across the slots
+    const isBurst = currentFrame?.captureMode === 'burst'
+    const burstCount = Math.max(2, currentFrame?.burstCount || 6)
+    const burstInterval = currentFrame?.burstInterval ?? 300
+
     // Derive aspect ratio from first capturable slot
     const slotAspectRatio = captureSlots[0]
         ? `${captureSlots[0].width} / ${captureSlots[0].height}`
@@ -105,6 +113,35 @@ function CaptureSession(): JSX.Element {
         }
     }, [])
 
+    // Stream DSLR live view when a tethered camera is connected
+    useEffect(() => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const windowApi = (window as any).api
+        if (!isConnected || !windowApi?.camera?.startLiveView) return
+
+        let currentUrl: string | null = null
+        const unsubscribe = windowApi.camera.onLiveViewFrame((frame: Uint8Array<ArrayBuffer>) => {
+            const url = URL.createObjectURL(new Blob([frame], { type: 'image/jpeg' }))
+            setLiveViewUrl(url)
+            // Release the previous frame once the new one has replaced it
+            if (currentUrl) URL.revokeObjectURL(currentUrl)
+            currentUrl = url
+        })
+
+        windowApi.camera.startLiveView().then((res: { success: boolean; error?: string }) => {
+            if (!res.success) {
+                console.warn('Live view unavailable, using webcam preview:', res.error)
+            }
+        })
+
+        return () => {
+            unsubscribe()
+            windowApi.camera.stopLiveView()
+            if (currentUrl) URL.revokeObjectURL(currentUrl)
+            setLiveViewUrl(null)
+        }
+    }, [isConnected])
+
     // Find next empty slot (skips duplicate slots)
     const getNextEmptySlot = useCallback(() => {
         if (!currentFrame) return null
@@ -142,6 +179,35 @@ function CaptureSession(): JSX.Element {
         return canvas.toDataURL('image/jpeg', 0.92)
     }, [])
 
+    // Shoot a burst - DSLR first, falling back to webcam grabs at the same interval
+    const captureBurstFrames = async (): Promise<string[]> => {
+        const cameraUnplugged = useCameraStore.getState().connectionStatus === 'disconnected'
+        try {
+            if (!cameraUnplugged) {
+                const burstRes = await window.api.camera.captureBurst(burstCount, burstInterval)
+                const paths = (burstRes.data || []).flatMap(result => result.imagePath ? [result.imagePath] : [])
+                if (burstRes.success && paths.length > 0) {
+                    return paths.map(toFileUrl)
+                }
+            }
+        } catch (e) {
+            console.warn('Native burst capture failed, falling back to webcam:', e)
+        }
+
+        const frames: string[] = []
+        for (let i = 0; i < burstCount; i++) {
+            const startedAt = Date.now()
+            const dataUrl = captureFromWebcam()
+            if (dataUrl) frames.push(dataUrl)
+
+            const wait = burstInterval - (Date.now() - startedAt)
+            if (wait > 0 && i < burstCount - 1) {
+                await new Promise(resolve => setTimeout(resolve, wait))
+            }
+        }
+        return frames
+    }
+
     // Handle countdown or immediate capture
     const startCountdown = useCallback((slotIndex: number) => {
         setCurrentSlotIndex(slotIndex)
@@ -225,13 +291,20 @@ function CaptureSession(): JSX.Element {
         const completeCapture = (videoUrl?: string) => {
             // Small delay for flash effect
             setTimeout(async () => {
+                if (isBurst) {
+                    completeBurst(videoUrl)
+                    return
+                }
+
                 let dataUrl: string | null = null;
 
-                // Attempt native DSLR capture first
+                // Attempt native DSLR capture first, unless the watchdog reports the camera unplugged
+                // (read from the store directly - this runs inside the countdown interval's closure)
+                const cameraUnplugged = useCameraStore.getState().connectionStatus === 'disconnected'
                 try {
                     // eslint-disable-next-line @typescript-eslint/no-explicit-any
                     const windowApi = (window as any).api;
-                    if (windowApi && windowApi.camera && windowApi.camera.capture) {
+                    if (windowApi && windowApi.camera && windowApi.camera.capture && !cameraUnplugged) {
                         const captureRes = await windowApi.camera.capture(slot?.id);
                         if (captureRes.success && captureRes.data && captureRes.data.imagePath) {
                             // Convert physical path to local file URL
@@ -274,6 +347,35 @@ function CaptureSession(): JSX.Element {
             }, 100)
         }
 
+        // One burst fills every slot, evenly sampled from first to last frame
+        const completeBurst = async (videoUrl?: string): Promise<void> => {
+            const frames = await captureBurstFrames()
+            if (frames.length === 0) {
+                console.error('Failed to capture burst')
+                setCaptureState('idle')
+                return
+            }
+
+            const timestamp = Date.now()
+            const burstPhotos: CapturedPhoto[] = frames.map((imagePath, index) => ({
+                slotId: `burst_${index}`,
+                imagePath,
+                timestamp: timestamp + index * burstInterval
+            }))
+            setBurstPhotos(burstPhotos)
+
+            captureSlots.forEach((captureSlot, index) => {
+                const frameIndex = captureSlots.length > 1
+                    ? Math.round(index * (frames.length - 1) / (captureSlots.length - 1))
+                    : 0
+                addPhoto(captureSlot.id, frames[frameIndex], index === 0 ? videoUrl : undefined)
+            })
+
+            setLastCapturedImage(frames[0])
+            setCaptureState('preview')
+            setTimeout(() => setCaptureState('idle'), config.previewDuration * 1000)
+        }
+
         // Stop video recording and get video data URL
         if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
             const recorder = mediaRecorderRef.current
@@ -396,17 +498,27 @@ function CaptureSession(): JSX.Element {
                     className={styles.viewfinder}
                     style={{ aspectRatio: slotAspectRatio }}
                 >
-                    {/* Camera Feed */}
+                    {/* Camera Feed - webcam stays mounted for Live Photo recording */}
                     <video
                         ref={videoRef}
                         autoPlay
                         playsInline
                         muted
                         className={styles.video}
+                        style={liveViewUrl ? { display: 'none' } : undefined}
                     />
 
+                    {/* DSLR Live View */}
+                    {liveViewUrl && (
+                        <img
+                            src={liveViewUrl}
+                            alt="Live view"
+                            className={styles.liveView}
+                        />
+                    )}
+
                     {/* Loading Overlay */}
-                    {isLoadingCamera && (
+                    {isLoadingCamera && !liveViewUrl && (
                         <div className={styles.loadingOverlay}>
                             <div className={styles.spinner}></div>
                             <p>Initializing camera...</p>
@@ -414,7 +526,7 @@ function CaptureSession(): JSX.Element {
                     )}
 
                     {/* Camera Error Overlay */}
-                    {cameraError && (
+                    {cameraError && !liveViewUrl && (
                         <div className={styles.errorOverlay}>
                             <span className={styles.errorIcon}>📷</span>
                             <h3>Camera Error</h3>
@@ -428,6 +540,14 @@ function CaptureSession(): JSX.Element {
                         </div>
                     )}
 
+                    {/* Camera Reconnecting Overlay */}
+                    {connectionStatus === 'reconnecting' && (
+                        <div className={styles.loadingOverlay}>
+                            <div className={styles.spinner}></div>
+                            <p>Reconnecting camera...</p>
+                        </div>
+                    )}
+
                     {/* Countdown Overlay */}
                     <AnimatePresence>
                         {captureState === 'countdown' && (
@@ -448,7 +568,9 @@ function CaptureSession(): JSX.Element {
                                     {countdown}
                                 </motion.span>
                                 <span className={styles.slotIndicator}>
-                                    Photo {captureSlots.findIndex(s => s.id === currentFrame.slots[currentSlotIndex]?.id) + 1} of {captureSlots.length}
+                                    {isBurst
+                                        ? `Burst of ${burstCount} - keep moving!`
+                                        : `Photo ${captureSlots.findIndex(s => s.id === currentFrame.slots[currentSlotIndex]?.id) + 1} of ${captureSlots.length}`}
                                 </span>
                             </motion.div>
                         )}
@@ -483,7 +605,9 @@ function CaptureSession(): JSX.Element {
                                 />
                                 <div className={styles.previewBadge}>
                                     <span className={styles.checkmark}>✓</span>
-                                    Photo {captureSlots.findIndex(s => s.id === currentFrame.slots[currentSlotIndex]?.id) + 1} saved!
+                                    {isBurst
+                                        ? `${currentSession?.burstPhotos.length ?? burstCount} frames saved!`
+                                        : `Photo ${captureSlots.findIndex(s => s.id === currentFrame.slots[currentSlotIndex]?.id) + 1} saved!`}
                                 </div>
                             </motion.div>
                         )}
@@ -498,7 +622,9 @@ function CaptureSession(): JSX.Element {
                         whileHover={{ scale: 1.05 }}
                         whileTap={{ scale: 0.95 }}
                     >
-                        📸 {allSlotsFilled ? 'Retake Photo' : 'Take Photo'}
+                        📸 {isBurst
+                            ? (allSlotsFilled ? 'Retake Burst' : 'Start Burst')
+                            : (allSlotsFilled ? 'Retake Photo' : 'Take Photo')}
                     </motion.button>
                 )}
             </div>
@@ -557,7 +683,9 @@ function CaptureSession(): JSX.Element {
                 {/* Connection Status */}
                 <div className={styles.connectionStatus}>
                     <span className={`${styles.statusDot} ${isConnected ? styles.connected : ''}`} />
-                    {isConnected ? 'Camera Connected' : 'Using Webcam'}
+                    {connectionStatus === 'reconnecting'
+                        ? 'Reconnecting Camera...'
+                        : isConnected ? 'Camera Connected' : 'Using Webcam'}
                 </div>
             </aside>
         </motion.div>
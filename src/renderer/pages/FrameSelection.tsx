@@ -3,6 +3,8 @@ import { useNavigate } from 'react-router-dom'
 import { motion } from 'framer-motion'
 import { useFrameStore, useAppConfig, useSessionStore } from '../stores'
 import { SessionTimer } from '../components/SessionTimer'
+import { FrameLayers } from '../components/FrameLayers'
+import { getFrameLayers, splitFrameLayers, buildFrameTextValues } from '@shared/frameLayers'
 import styles from './FrameSelection.module.css'
 
 function FrameSelection(): JSX.Element {
@@ -22,6 +24,9 @@ function FrameSelection(): JSX.Element {
         ? frames.filter(f => config.activeFrameIds.includes(f.id))
         : frames
 
+    // Text layers preview with the values the next session will get
+    const previewTextValues = buildFrameTextValues(config, { number: config.sessionCounter + 1, createdAt: Date.now() })
+
     const handleSelectFrame = (frameId: string): void => {
         setActiveFrame(frameId)
         // Navigate to payment if enabled, otherwise go directly to capture
@@ -89,6 +94,15 @@ function FrameSelection(): JSX.Element {
                                     className={styles.framePreview}
                                     style={{ aspectRatio: `${frame.canvasWidth} / ${frame.canvasHeight}` }}
                                 >
+                                    {/* Background layers */}
+                                    <FrameLayers
+                                        layers={splitFrameLayers(getFrameLayers(frame)).under}
+                                        canvasWidth={frame.canvasWidth}
+                                        canvasHeight={frame.canvasHeight}
+                                        values={previewTextValues}
+                                        zIndex={1}
+                                    />
+
                                     {/* Colored slot indicators behind overlay */}
                                     {frame.slots.map((slot) => {
                                         const slotColors = ['#ef4444', '#3b82f6', '#22c55e', '#f97316', '#eab308', '#a855f7', '#ec4899', '#14b8a6']
@@ -131,11 +145,13 @@ function FrameSelection(): JSX.Element {
                                             </div>
                                         )
                                     })}
-                                    {/* Frame overlay on top */}
-                                    <img
-                                        src={`file://${frame.overlayPath}`}
-                                        alt={frame.name}
-                                        className={styles.frameOverlayImage}
+                                    {/* Frame layers on top */}
+                                    <FrameLayers
+                                        layers={splitFrameLayers(getFrameLayers(frame)).over}
+                                        canvasWidth={frame.canvasWidth}
+                                        canvasHeight={frame.canvasHeight}
+                                        values={previewTextValues}
+                                        zIndex={10}
                                     />
                                 </div>
                                 <div className={styles.frameInfo}>
@@ -19,6 +19,9 @@ function Landing(): JSX.Element {
     const [holdProgress, setHoldProgress] = useState(0)
     const [holdTimer, setHoldTimer] = useState<NodeJS.Timeout | null>(null)
 
+    // Camera preset applied automatically on connect
+    const activeCameraPreset = config.cameraPresets.find(p => p.id === config.activeCameraPresetId)
+
     // Fetch cameras on mount
     useEffect(() => {
         const fetchCameras = async (): Promise<void> => {
@@ -69,7 +72,7 @@ function Landing(): JSX.Element {
             selectCamera(camera)
 
             // Try to connect
-            const result = await window.api.camera.connect(cameraId)
+            const result = await window.api.camera.connect(cameraId, activeCameraPreset?.settings)
             setConnected(result.success && result.data === true)
         }
     }
@@ -81,7 +84,7 @@ function Landing(): JSX.Element {
         try {
             // Connect to camera if not connected
             if (!isConnected && selectedCamera) {
-                const result = await window.api.camera.connect(selectedCamera.id)
+                const result = await window.api.camera.connect(selectedCamera.id, activeCameraPreset?.settings)
                 if (!result.success) {
                     console.error('Failed to connect to camera:', result.error)
                 }
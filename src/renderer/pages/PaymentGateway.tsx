@@ -1,11 +1,20 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { motion } from 'framer-motion'
 import QRCode from 'react-qr-code'
 import { useFrameStore, useAppConfig, useSessionStore } from '../stores'
 import { SessionTimer } from '../components/SessionTimer'
+import { PinModal } from '../components/PinModal'
+import {
+    APIResponse, PaymentCredentialsStatus, PaymentOrder, PaymentStatus, PriceSelection, PricingPackage, SessionStartOptions, VoucherQuote, VoucherRedemption
+} from '@shared/types'
 import styles from './PaymentGateway.module.css'
 
+// Polling is only a fallback, the payment webhook normally reports first
+const STATUS_POLL_MS = 5000
+
+type PaymentMethod = 'qris' | 'cash'
+
 interface PaymentState {
     status: 'idle' | 'pending' | 'success' | 'failed' | 'expired'
     orderId: string | null
@@ -19,6 +28,7 @@ function PaymentGateway(): JSX.Element {
     const { config } = useAppConfig()
     const { startSession } = useSessionStore()
 
+    const [packageId, setPackageId] = useState<string | null>(config.pricingPackages[0]?.id ?? null)
     const [additionalPrints, setAdditionalPrints] = useState(0)
     const [payment, setPayment] = useState<PaymentState>({
         status: 'idle',
@@ -27,148 +37,287 @@ function PaymentGateway(): JSX.Element {
         transactionId: null
     })
     const [isCreatingOrder, setIsCreatingOrder] = useState(false)
-    const [pollInterval, setPollInterval] = useState<ReturnType<typeof setInterval> | null>(null)
+    const [method, setMethod] = useState<PaymentMethod>('qris')
+    const [showCashPin, setShowCashPin] = useState(false)
+    const [localIp, setLocalIp] = useState<string | null>(null)
+    // Operators with a PIN set; the PINs themselves stay in main
+    const [cashOperatorIds, setCashOperatorIds] = useState<string[]>([])
+    const [voucherCode, setVoucherCode] = useState('')
+    const [voucher, setVoucher] = useState<VoucherQuote | null>(null)
+    const [voucherError, setVoucherError] = useState<string | null>(null)
+    const [isCheckingVoucher, setIsCheckingVoucher] = useState(false)
+    const pollRef = useRef<ReturnType<typeof setInterval> | null>(null)
+    // Order that already finished, so a late poll or webhook event can't act on it twice
+    const finishedOrderRef = useRef<string | null>(null)
+    // Voucher main took off the current order, handed to the session once it's paid
+    const orderVoucherRef = useRef<VoucherRedemption | undefined>(undefined)
+
+    const selectedPackage = config.pricingPackages.find(p => p.id === packageId) ?? config.pricingPackages[0] ?? null
+    // Extra prints only make sense on top of a limited print allowance
+    const canAddPrints = !!selectedPackage && selectedPackage.prints !== null
+    const cashAvailable = config.cashPaymentEnabled && config.cashOperators.some(o => cashOperatorIds.includes(o.id))
+    const payByCash = cashAvailable && method === 'cash'
 
     // Calculate total price
-    const totalPrice = config.sessionPrice + (additionalPrints * config.additionalPrintPrice)
+    const subtotal = (selectedPackage?.price ?? 0) + (canAddPrints ? additionalPrints * config.additionalPrintPrice : 0)
+    const totalPrice = voucher ? voucher.total : subtotal
+    const printsAllowed = selectedPackage?.prints === null ? null : (selectedPackage?.prints ?? 0) + additionalPrints
+    // Main prices orders from the same selection, the total above is only for display
+    const selection: PriceSelection = { packageId: selectedPackage?.id ?? '', additionalPrints }
+
+    // What the session gets once it's paid for
+    const sessionOptions = (paymentOrderId?: string, redemption?: VoucherRedemption): SessionStartOptions => ({
+        printsAllowed,
+        paymentOrderId,
+        packageId: selectedPackage?.id,
+        entitlements: selectedPackage?.entitlements,
+        voucher: redemption
+    })
+
+    // Check a typed or scanned voucher code against the current price
+    const applyVoucher = async (code: string = voucherCode): Promise<void> => {
+        if (!code.trim()) return
+        setIsCheckingVoucher(true)
+        setVoucherError(null)
+
+        try {
+            const result = await window.api.vouchers.quote(code, selection)
+            if (!result.success || !result.data) {
+                throw new Error(result.error || 'Voucher tidak valid')
+            }
+            setVoucher(result.data)
+            setVoucherCode(result.data.code)
+        } catch (err) {
+            setVoucher(null)
+            setVoucherError((err as Error).message)
+        } finally {
+            setIsCheckingVoucher(false)
+        }
+    }
+
+    const removeVoucher = (): void => {
+        setVoucher(null)
+        setVoucherCode('')
+        setVoucherError(null)
+    }
+
+    // Re-quote when the package or prints change, percent discounts depend on the price
+    useEffect(() => {
+        if (voucher && voucher.subtotal !== subtotal) {
+            applyVoucher(voucher.code)
+        }
+    }, [subtotal])
+
+    // A voucher that covers the whole price skips QRIS entirely
+    const startFreeSession = async (): Promise<void> => {
+        if (!voucher || !activeFrame) return
+        setIsCreatingOrder(true)
+
+        try {
+            const result = await window.api.vouchers.redeem(voucher.code, selection)
+            if (!result.success || !result.data) {
+                throw new Error(result.error || 'Failed to redeem voucher')
+            }
+            startSession(activeFrame.id, sessionOptions(undefined, result.data))
+            navigate('/capture')
+        } catch (err) {
+            // The voucher may have changed since it was quoted, show what it's worth now
+            console.error('Voucher redeem error:', err)
+            await applyVoucher(voucher.code)
+        } finally {
+            setIsCreatingOrder(false)
+        }
+    }
+
+    const handlePackageSelect = (pkg: PricingPackage): void => {
+        setPackageId(pkg.id)
+        if (pkg.prints === null) setAdditionalPrints(0)
+    }
 
     // Handle print quantity change (multiples of 2)
     const handlePrintChange = (delta: number): void => {
         setAdditionalPrints(prev => Math.max(0, prev + delta))
     }
 
-    // Create Midtrans QRIS order
+    // Create QRIS charge through the configured payment provider, or a cash order for the operator
     const createOrder = async (): Promise<void> => {
-        if (!config.midtransServerKey) {
-            alert('Midtrans Server Key belum dikonfigurasi di Admin Panel')
+        if (!selectedPackage) {
+            alert('Paket harga belum dikonfigurasi di Admin Panel')
+            return
+        }
+        if (payByCash) {
+            await createCashOrder()
             return
         }
 
         setIsCreatingOrder(true)
-        const orderId = `SEBOOTH-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
 
         try {
-            // Create Midtrans transaction
-            const auth = btoa(`${config.midtransServerKey}:`)
-            const response = await fetch('https://api.sandbox.midtrans.com/v2/charge', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Basic ${auth}`,
-                    'Accept': 'application/json'
-                },
-                body: JSON.stringify({
-                    payment_type: 'qris',
-                    transaction_details: {
-                        order_id: orderId,
-                        gross_amount: totalPrice
-                    },
-                    qris: {
-                        acquirer: 'gopay'
-                    }
-                })
+            const result = await window.api.payment.createCharge({ ...selection, voucherCode: voucher?.code })
+            if (!result.success || !result.data) {
+                throw new Error(result.error || 'Failed to create order')
+            }
+
+            const charge = result.data
+            orderVoucherRef.current = charge.voucher
+            setPayment({
+                status: 'pending',
+                orderId: charge.orderId,
+                qrisUrl: charge.qrImageUrl || charge.qrString || null,
+                transactionId: charge.transactionId || null
             })
 
-            const data = await response.json()
-
-            if (data.actions && data.actions[0]) {
-                const qrisAction = data.actions.find((a: { name: string }) => a.name === 'generate-qr-code')
-                setPayment({
-                    status: 'pending',
-                    orderId: orderId,
-                    qrisUrl: qrisAction?.url || data.actions[0].url,
-                    transactionId: data.transaction_id
-                })
-
-                // Start polling for payment status
-                startPolling(orderId)
-            } else if (data.status_code === '201' || data.status_code === '200') {
-                // For some responses, QR code might be in different format
-                setPayment({
-                    status: 'pending',
-                    orderId: orderId,
-                    qrisUrl: data.qr_string || null,
-                    transactionId: data.transaction_id
-                })
-                startPolling(orderId)
-            } else {
-                throw new Error(data.status_message || 'Failed to create order')
-            }
+            // Start polling for payment status
+            startPolling(charge.orderId)
         } catch (err) {
             console.error('Payment error:', err)
             setPayment(prev => ({ ...prev, status: 'failed' }))
             alert('Gagal membuat pembayaran: ' + (err as Error).message)
+            if (voucher) await applyVoucher(voucher.code)
+        } finally {
+            setIsCreatingOrder(false)
+        }
+    }
+
+    // Cash orders settle when an operator confirms them, pushed back through payment:updated
+    const createCashOrder = async (): Promise<void> => {
+        setIsCreatingOrder(true)
+
+        try {
+            const result = await window.api.payment.createCash({ ...selection, voucherCode: voucher?.code })
+            if (!result.success || !result.data) {
+                throw new Error(result.error || 'Failed to create order')
+            }
+            orderVoucherRef.current = result.data.voucher
+            setPayment({ status: 'pending', orderId: result.data.orderId, qrisUrl: null, transactionId: null })
+        } catch (err) {
+            console.error('Cash payment error:', err)
+            setPayment(prev => ({ ...prev, status: 'failed' }))
+            alert('Gagal membuat pembayaran: ' + (err as Error).message)
+            if (voucher) await applyVoucher(voucher.code)
         } finally {
             setIsCreatingOrder(false)
         }
     }
 
-    // Poll for payment status
+    // Operator PIN at the booth; main checks it and records who confirmed,
+    // and the settled order comes back through payment:updated
+    const confirmCash = async (pin: string): Promise<boolean> => {
+        const orderId = payment.orderId
+        if (!orderId) return false
+
+        const result = await window.api.payment.confirmCash(orderId, pin)
+        if (!result.success && result.error !== 'Wrong PIN') {
+            alert('Gagal konfirmasi pembayaran: ' + result.error)
+        }
+        return result.success
+    }
+
+    // Whether any operator can take cash
+    useEffect(() => {
+        if (!config.cashPaymentEnabled) return
+
+        window.api.payment.credentials().then((result: APIResponse<PaymentCredentialsStatus>) => {
+            if (result.success && result.data) setCashOperatorIds(result.data.cashOperatorPins)
+        })
+    }, [config.cashPaymentEnabled])
+
+    // Booth address for the operator's phone confirmation page
+    useEffect(() => {
+        if (!payByCash || localIp) return
+
+        window.api.system.getLocalIp().then((result: APIResponse<string | null>) => {
+            if (result.success) setLocalIp(result.data || null)
+        })
+    }, [payByCash])
+
+    const stopPolling = (): void => {
+        if (pollRef.current) clearInterval(pollRef.current)
+        pollRef.current = null
+    }
+
+    // Act on a status reported by the webhook event or by polling
+    const handleStatus = (orderId: string, status: PaymentStatus): void => {
+        if (status === 'pending' || finishedOrderRef.current === orderId) return
+        finishedOrderRef.current = orderId
+        stopPolling()
+
+        if (status === 'settled') {
+            setPayment(prev => ({ ...prev, status: 'success' }))
+
+            // Start session and navigate to capture
+            const redemption = orderVoucherRef.current
+            setTimeout(() => {
+                if (activeFrame) {
+                    startSession(activeFrame.id, sessionOptions(orderId, redemption))
+                }
+                navigate('/capture')
+            }, 2000)
+        } else if (status === 'expired' || status === 'cancelled') {
+            setPayment(prev => ({ ...prev, status: 'expired' }))
+        } else {
+            setPayment(prev => ({ ...prev, status: 'failed' }))
+        }
+    }
+
+    // Poll for payment status, in case the webhook can't reach the booth
     const startPolling = (orderId: string): void => {
-        if (pollInterval) clearInterval(pollInterval)
+        stopPolling()
 
-        const interval = setInterval(async () => {
+        pollRef.current = setInterval(async () => {
             try {
-                const auth = btoa(`${config.midtransServerKey}:`)
-                const response = await fetch(
-                    `https://api.sandbox.midtrans.com/v2/${orderId}/status`,
-                    {
-                        headers: {
-                            'Authorization': `Basic ${auth}`,
-                            'Accept': 'application/json'
-                        }
-                    }
-                )
-                const data = await response.json()
-
-                if (data.transaction_status === 'settlement' || data.transaction_status === 'capture') {
-                    clearInterval(interval)
-                    setPollInterval(null)
-                    setPayment(prev => ({ ...prev, status: 'success' }))
-
-                    // Start session and navigate to capture
-                    setTimeout(() => {
-                        if (activeFrame) {
-                            startSession(activeFrame.id)
-                        }
-                        navigate('/capture')
-                    }, 2000)
-                } else if (data.transaction_status === 'expire' || data.transaction_status === 'cancel') {
-                    clearInterval(interval)
-                    setPollInterval(null)
-                    setPayment(prev => ({ ...prev, status: 'expired' }))
+                const result = await window.api.payment.status(orderId)
+                if (!result.success || !result.data) {
+                    throw new Error(result.error || 'Failed to check payment')
                 }
+                handleStatus(orderId, result.data.status)
             } catch (err) {
                 console.error('Status check error:', err)
             }
-        }, 3000) // Check every 3 seconds
-
-        setPollInterval(interval)
+        }, STATUS_POLL_MS)
     }
 
-    // Cleanup polling on unmount
+    // Payment updates pushed by the main process (webhook notifications)
     useEffect(() => {
-        return () => {
-            if (pollInterval) clearInterval(pollInterval)
+        const orderId = payment.orderId
+        if (!orderId) return
+
+        return window.api.payment.onUpdated((order: PaymentOrder) => {
+            if (order.orderId === orderId) {
+                handleStatus(orderId, order.status)
+            }
+        })
+    }, [payment.orderId])
+
+    // Stop polling and cancel the charge if the guest leaves before paying
+    const abandonPayment = useCallback((): void => {
+        stopPolling()
+        if (payment.status === 'pending' && payment.orderId) {
+            window.api.payment.cancel(payment.orderId).catch((err: Error) => console.error('Cancel payment error:', err))
         }
-    }, [pollInterval])
+    }, [payment.status, payment.orderId])
+
+    // Cleanup polling on unmount
+    useEffect(() => {
+        return () => stopPolling()
+    }, [])
 
     // Handle timeout
     const handleTimeout = useCallback((): void => {
-        if (pollInterval) clearInterval(pollInterval)
+        abandonPayment()
         navigate('/')
-    }, [pollInterval, navigate])
+    }, [abandonPayment, navigate])
 
     // Handle back
     const handleBack = (): void => {
-        if (pollInterval) clearInterval(pollInterval)
+        abandonPayment()
         navigate('/frames')
     }
 
     // Handle skip (for testing)
     const handleSkip = (): void => {
         if (activeFrame) {
-            startSession(activeFrame.id)
+            startSession(activeFrame.id, sessionOptions())
         }
         navigate('/capture')
     }
@@ -209,34 +358,100 @@ function PaymentGateway(): JSX.Element {
                 <div className={styles.mainContent}>
                     {/* Left - Price Summary */}
                     <div className={styles.priceSection}>
-                        <h2>Order Summary</h2>
-
-                        <div className={styles.priceItem}>
-                            <span>Session (1x 4R print)</span>
-                            <span>Rp {config.sessionPrice.toLocaleString('id-ID')}</span>
-                        </div>
+                        <h2>Choose a Package</h2>
 
-                        <div className={styles.printSelector}>
-                            <span>Additional Prints (per 2)</span>
-                            <div className={styles.quantityControls}>
+                        <div className={styles.packageList}>
+                            {config.pricingPackages.map(pkg => (
                                 <button
-                                    onClick={() => handlePrintChange(-2)}
-                                    disabled={additionalPrints === 0}
+                                    key={pkg.id}
+                                    className={`${styles.packageOption} ${selectedPackage?.id === pkg.id ? styles.selected : ''}`}
+                                    onClick={() => handlePackageSelect(pkg)}
+                                    disabled={payment.status !== 'idle'}
                                 >
-                                    −
+                                    <div className={styles.packageInfo}>
+                                        <strong>{pkg.name}</strong>
+                                        {pkg.description && <span>{pkg.description}</span>}
+                                        <span className={styles.packageIncludes}>
+                                            {[
+                                                pkg.prints === null ? 'Unlimited prints' : pkg.prints > 0 ? `${pkg.prints} print${pkg.prints > 1 ? 's' : ''}` : 'Digital only',
+                                                pkg.entitlements.gif && 'GIF',
+                                                pkg.entitlements.liveVideo && 'Live video',
+                                                pkg.entitlements.email && 'Email'
+                                            ].filter(Boolean).join(' · ')}
+                                        </span>
+                                    </div>
+                                    <span className={styles.packagePrice}>Rp {pkg.price.toLocaleString('id-ID')}</span>
                                 </button>
-                                <span>{additionalPrints}</span>
-                                <button onClick={() => handlePrintChange(2)}>+</button>
-                            </div>
+                            ))}
                         </div>
 
-                        {additionalPrints > 0 && (
+                        {canAddPrints && (
+                            <div className={styles.printSelector}>
+                                <span>Additional Prints (per 2)</span>
+                                <div className={styles.quantityControls}>
+                                    <button
+                                        onClick={() => handlePrintChange(-2)}
+                                        disabled={additionalPrints === 0 || payment.status !== 'idle'}
+                                    >
+                                        −
+                                    </button>
+                                    <span>{additionalPrints}</span>
+                                    <button
+                                        onClick={() => handlePrintChange(2)}
+                                        disabled={payment.status !== 'idle'}
+                                    >
+                                        +
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+
+                        {canAddPrints && additionalPrints > 0 && (
                             <div className={styles.priceItem}>
                                 <span>Extra prints ({additionalPrints}x)</span>
                                 <span>Rp {(additionalPrints * config.additionalPrintPrice).toLocaleString('id-ID')}</span>
                             </div>
                         )}
 
+                        <div className={styles.voucherSection}>
+                            {voucher ? (
+                                <div className={styles.priceItem}>
+                                    <span>
+                                        Voucher {voucher.code}
+                                        {payment.status === 'idle' && (
+                                            <button className={styles.voucherRemove} onClick={removeVoucher}>✕</button>
+                                        )}
+                                    </span>
+                                    <span>− Rp {voucher.discount.toLocaleString('id-ID')}</span>
+                                </div>
+                            ) : (
+                                <form
+                                    className={styles.voucherForm}
+                                    onSubmit={(e) => {
+                                        e.preventDefault()
+                                        applyVoucher()
+                                    }}
+                                >
+                                    {/* Barcode scanners type the code and press Enter */}
+                                    <input
+                                        type="text"
+                                        value={voucherCode}
+                                        onChange={(e) => setVoucherCode(e.target.value)}
+                                        placeholder="Voucher code"
+                                        disabled={payment.status !== 'idle'}
+                                        autoCapitalize="characters"
+                                    />
+                                    <button
+                                        type="submit"
+                                        disabled={!voucherCode.trim() || isCheckingVoucher || payment.status !== 'idle'}
+                                    >
+                                        {isCheckingVoucher ? '...' : 'Apply'}
+                                    </button>
+                                </form>
+                            )}
+                            {voucherError && <p className={styles.voucherError}>{voucherError}</p>}
+                        </div>
+
                         <div className={styles.priceDivider}></div>
 
                         <div className={styles.totalPrice}>
@@ -244,15 +459,40 @@ function PaymentGateway(): JSX.Element {
                             <span>Rp {totalPrice.toLocaleString('id-ID')}</span>
                         </div>
 
-                        {payment.status === 'idle' && (
+                        {payment.status === 'idle' && cashAvailable && !(voucher && voucher.total === 0) && (
+                            <div className={styles.methodToggle}>
+                                <button
+                                    className={method === 'qris' ? styles.selected : ''}
+                                    onClick={() => setMethod('qris')}
+                                >
+                                    📱 QRIS
+                                </button>
+                                <button
+                                    className={method === 'cash' ? styles.selected : ''}
+                                    onClick={() => setMethod('cash')}
+                                >
+                                    💵 Cash
+                                </button>
+                            </div>
+                        )}
+
+                        {payment.status === 'idle' && (voucher && voucher.total === 0 ? (
+                            <button
+                                className={styles.payButton}
+                                onClick={startFreeSession}
+                                disabled={isCreatingOrder || !selectedPackage}
+                            >
+                                {isCreatingOrder ? 'Redeeming...' : 'Start Free Session'}
+                            </button>
+                        ) : (
                             <button
                                 className={styles.payButton}
                                 onClick={createOrder}
-                                disabled={isCreatingOrder}
+                                disabled={isCreatingOrder || !selectedPackage}
                             >
-                                {isCreatingOrder ? 'Creating Order...' : 'Generate QR Code'}
+                                {isCreatingOrder ? 'Creating Order...' : payByCash ? 'Pay with Cash' : 'Generate QR Code'}
                             </button>
-                        )}
+                        ))}
                     </div>
 
                     {/* Right - QR Code / Status */}
@@ -260,7 +500,7 @@ function PaymentGateway(): JSX.Element {
                         {payment.status === 'idle' && (
                             <div className={styles.qrPlaceholder}>
                                 <span>📱</span>
-                                <p>Click "Generate QR Code" to start payment</p>
+                                <p>{payByCash ? 'Click "Pay with Cash" and hand the amount to our operator' : 'Click "Generate QR Code" to start payment'}</p>
                             </div>
                         )}
 
@@ -284,6 +524,31 @@ function PaymentGateway(): JSX.Element {
                             </div>
                         )}
 
+                        {payment.status === 'pending' && payByCash && (
+                            <div className={styles.qrDisplay}>
+                                <h3>💵 Pay with Cash</h3>
+                                <div className={styles.cashAmount}>Rp {totalPrice.toLocaleString('id-ID')}</div>
+                                <div className={styles.instructions}>
+                                    <p>Please hand the amount to our operator. Your session starts as soon as they confirm.</p>
+                                </div>
+                                <button className={styles.payButton} onClick={() => setShowCashPin(true)}>
+                                    Operator Confirm
+                                </button>
+                                {localIp && payment.orderId && (
+                                    <div className={styles.cashPhone}>
+                                        <div className={styles.qrWrapper}>
+                                            <QRCode value={`http://${localIp}:5050/cash/${payment.orderId}`} size={96} />
+                                        </div>
+                                        <span>Operators can also scan this to confirm from their phone</span>
+                                    </div>
+                                )}
+                                <div className={styles.spinner}>
+                                    <span></span>
+                                    Waiting for operator...
+                                </div>
+                            </div>
+                        )}
+
                         {payment.status === 'success' && (
                             <div className={styles.successDisplay}>
                                 <span className={styles.successIcon}>✓</span>
@@ -314,6 +579,15 @@ function PaymentGateway(): JSX.Element {
                     </div>
                 </div>
 
+                {/* Operator PIN for cash payments */}
+                <PinModal
+                    isOpen={showCashPin}
+                    title="💵 Confirm Cash"
+                    message={`Operator: enter your PIN once you've received Rp ${totalPrice.toLocaleString('id-ID')}.`}
+                    onClose={() => setShowCashPin(false)}
+                    onSubmit={confirmCash}
+                />
+
                 {/* Skip for testing */}
                 {import.meta.env.DEV && (
                     <button onClick={handleSkip} className={styles.skipBtn}>
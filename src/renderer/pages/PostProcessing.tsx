@@ -2,31 +2,36 @@ import { useState, useEffect, useRef } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useFrameStore, useSessionStore, useFilterStore, useAppConfig } from '../stores'
-import { uploadFile, saveGallery } from '../lib/supabase'
-// @ts-ignore
-import { GIFEncoder, quantize, applyPalette } from 'gifenc'
+import { saveGallery, incrementPrintCount } from '../lib/supabase'
 import { sendPhotoEmail } from '../lib/email'
 import { EmailModal } from '../components/EmailModal'
 import { QRCodeModal } from '../components/QRCodeModal'
+import { PinModal } from '../components/PinModal'
+import { CropAdjuster } from '../components/CropAdjuster'
+import { FrameLayers } from '../components/FrameLayers'
 import { SessionTimer } from '../components/SessionTimer'
+import { PrintJob, ImageFilterOptions, BoomerangResult, PhotoCrop } from '@shared/types'
+import { getFrameLayers, splitFrameLayers, buildFrameTextValues } from '@shared/frameLayers'
+import { toFileUrl } from '@shared/fileUrl'
 import styles from './PostProcessing.module.css'
 
 type FilterType = 'none' | 'grayscale' | 'sepia' | 'warm' | 'cool' | 'vintage'
-type MediaType = 'photo' | 'gif' | 'live'
-
-const FILTERS: { id: FilterType; name: string; style: React.CSSProperties; filterStr: string }[] = [
-    { id: 'none', name: 'Original', style: {}, filterStr: 'none' },
-    { id: 'grayscale', name: 'B&W', style: { filter: 'grayscale(100%)' }, filterStr: 'grayscale(100%)' },
-    { id: 'sepia', name: 'Sepia', style: { filter: 'sepia(80%)' }, filterStr: 'sepia(80%)' },
-    { id: 'warm', name: 'Warm', style: { filter: 'saturate(1.3) hue-rotate(-10deg)' }, filterStr: 'saturate(1.3) hue-rotate(-10deg)' },
-    { id: 'cool', name: 'Cool', style: { filter: 'saturate(1.1) hue-rotate(10deg)' }, filterStr: 'saturate(1.1) hue-rotate(10deg)' },
-    { id: 'vintage', name: 'Vintage', style: { filter: 'contrast(1.1) brightness(0.9) sepia(30%)' }, filterStr: 'contrast(1.1) brightness(0.9) sepia(30%)' }
+type MediaType = 'photo' | 'gif' | 'live' | 'boomerang'
+
+// adjustments mirror each CSS filter for images rendered in the main process
+const FILTERS: { id: FilterType; name: string; style: React.CSSProperties; filterStr: string; adjustments: ImageFilterOptions }[] = [
+    { id: 'none', name: 'Original', style: {}, filterStr: 'none', adjustments: {} },
+    { id: 'grayscale', name: 'B&W', style: { filter: 'grayscale(100%)' }, filterStr: 'grayscale(100%)', adjustments: { grayscale: true } },
+    { id: 'sepia', name: 'Sepia', style: { filter: 'sepia(80%)' }, filterStr: 'sepia(80%)', adjustments: { sepia: true } },
+    { id: 'warm', name: 'Warm', style: { filter: 'saturate(1.3) hue-rotate(-10deg)' }, filterStr: 'saturate(1.3) hue-rotate(-10deg)', adjustments: { saturation: 1.3, hue: -10 } },
+    { id: 'cool', name: 'Cool', style: { filter: 'saturate(1.1) hue-rotate(10deg)' }, filterStr: 'saturate(1.1) hue-rotate(10deg)', adjustments: { saturation: 1.1, hue: 10 } },
+    { id: 'vintage', name: 'Vintage', style: { filter: 'contrast(1.1) brightness(0.9) sepia(30%)' }, filterStr: 'contrast(1.1) brightness(0.9) sepia(30%)', adjustments: { contrast: 1.1, brightness: 0.9, sepia: 0.3 } }
 ]
 
 function PostProcessing(): JSX.Element {
     const navigate = useNavigate()
     const { frames, activeFrame } = useFrameStore()
-    const { photos, currentSession, setCompositePath, setEmail, endSession } = useSessionStore()
+    const { photos, currentSession, setCompositePath, setEmail, endSession, recordPrint, updatePhoto } = useSessionStore()
     const { filters: lutFilters } = useFilterStore()
     const { config } = useAppConfig()
 
@@ -36,10 +41,18 @@ function PostProcessing(): JSX.Element {
         : activeFrame
 
     const [selectedFilter, setSelectedFilter] = useState<FilterType>('none')
+    const [selectedLutId, setSelectedLutId] = useState<string | null>(null)
+    const [lutPhotoPaths, setLutPhotoPaths] = useState<Record<string, string>>({})
+    const [isApplyingLut, setIsApplyingLut] = useState(false)
     const [activeTab, setActiveTab] = useState<MediaType>('photo')
     const [isPrinting, setIsPrinting] = useState(false)
+    const [printJobId, setPrintJobId] = useState<string | null>(null)
+    const [showOverridePin, setShowOverridePin] = useState(false)
+    // Whether staff can authorise extra prints; the PIN itself is only checked in main
+    const [hasOverridePin, setHasOverridePin] = useState(false)
+    const [cropSlotId, setCropSlotId] = useState<string | null>(null)
     const [showSuccess, setShowSuccess] = useState(false)
-    const [compositeDataUrl, setCompositeDataUrl] = useState<string | null>(null)
+    const [compositeUrl, setCompositeUrl] = useState<string | null>(null)
     const [error, setError] = useState<string | null>(null)
     const [showEmailModal, setShowEmailModal] = useState(false)
     const [lastEmail, setLastEmail] = useState('')
@@ -51,26 +64,152 @@ function PostProcessing(): JSX.Element {
     const [photoStripUrl, setPhotoStripUrl] = useState<string | null>(null)
     const [gifUrl, setGifUrl] = useState<string | null>(null)
     const [uploadedPhotoUrls, setUploadedPhotoUrls] = useState<string[]>([])
+    const [boomerang, setBoomerang] = useState<BoomerangResult | null>(null)
+    const [isGeneratingBoomerang, setIsGeneratingBoomerang] = useState(false)
 
     // For GIF/Live preview
     const [previewIndex, setPreviewIndex] = useState(0)
 
-    const canvasRef = useRef<HTMLCanvasElement>(null)
+    const renderRequestRef = useRef(0)
     const previewIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null)
 
+    const selectedLut = lutFilters.find(f => f.id === selectedLutId) || null
+
+    // Paid prints left in this session (null when printing isn't metered)
+    const printsRemaining = currentSession && currentSession.printsAllowed !== null
+        ? Math.max(0, currentSession.printsAllowed - currentSession.printsUsed)
+        : null
+
+    // Extras included in the session's package
+    const gifEntitled = currentSession?.entitlements.gif ?? true
+    const liveVideoEntitled = currentSession?.entitlements.liveVideo ?? true
+    const emailEntitled = currentSession?.entitlements.email ?? true
+
+    // Photo source to render: the LUT-graded copy when a LUT is selected
+    const getPhotoSource = (photo: { slotId: string; imagePath: string }): string =>
+        lutPhotoPaths[photo.slotId] || photo.imagePath
+
+    useEffect(() => {
+        window.api.payment.credentials().then(result => {
+            if (result.success && result.data) setHasOverridePin(result.data.adminOverridePin)
+        })
+    }, [])
+
+    // Grade every photo with the selected LUT in the main process
+    useEffect(() => {
+        // A run cancelled by this change no longer clears the flag itself
+        if (!selectedLut) {
+            setLutPhotoPaths({})
+            setIsApplyingLut(false)
+            return
+        }
+
+        let cancelled = false
+        const applySelectedLut = async (): Promise<void> => {
+            setIsApplyingLut(true)
+            const paths: Record<string, string> = {}
+
+            try {
+                for (const photo of photos) {
+                    if (cancelled) return
+                    const result = await window.api.image.applyLut({
+                        inputPath: photo.imagePath,
+                        cubePath: selectedLut.cubePath
+                    })
+                    if (result.success && result.data) {
+                        paths[photo.slotId] = toFileUrl(result.data)
+                    } else {
+                        console.error('Failed to apply LUT:', result.error)
+                        setError(`Failed to apply ${selectedLut.name}`)
+                    }
+                }
+
+                if (!cancelled) {
+                    setLutPhotoPaths(paths)
+                }
+            } catch (err) {
+                console.error('Failed to apply LUT:', err)
+                if (!cancelled) setError(`Failed to apply ${selectedLut.name}`)
+            } finally {
+                if (!cancelled) setIsApplyingLut(false)
+            }
+        }
+
+        applySelectedLut()
+        return () => { cancelled = true }
+    }, [selectedLut?.id, selectedLut?.cubePath, photos])
+
     // Generate composite when photos, frame, or filter changes
     useEffect(() => {
-        if (photos.length > 0 && sessionFrame) {
+        if (photos.length > 0 && sessionFrame && !isApplyingLut) {
             generateCompositeFromPhotos()
         }
-    }, [photos, sessionFrame, selectedFilter])
+    }, [photos, sessionFrame, selectedFilter, lutPhotoPaths, isApplyingLut])
+
+    // Photo (and its slot) being reframed in the crop adjuster
+    const cropPhoto = photos.find(p => p.slotId === cropSlotId)
+    const cropSlot = sessionFrame?.slots.find(s => s.id === cropSlotId)
+
+    // Burst sessions animate every captured frame rather than one per slot
+    const burstPhotos = currentSession?.burstPhotos ?? []
+    const gifPhotos = burstPhotos.length > 1 ? burstPhotos : photos
+    const gifDelay = burstPhotos.length > 1 ? (sessionFrame?.burstInterval ?? 300) : 500
+
+    // Boomerang source: burst frames, then the first saved pre-capture clip, otherwise the stills
+    const boomerangClip = burstPhotos.length > 1
+        ? undefined
+        : photos.find(p => p.videoPath && !p.videoPath.startsWith('blob:'))?.videoPath
+    const canMakeBoomerang = gifEntitled && (!!boomerangClip || gifPhotos.length >= 2)
+
+    // Render the boomerang (MP4 + GIF) in the main process
+    const generateBoomerang = async (): Promise<BoomerangResult | null> => {
+        if (boomerang) return boomerang
+        if (!canMakeBoomerang) return null
+
+        setIsGeneratingBoomerang(true)
+        try {
+            const result = await window.api.image.generateBoomerang({
+                videoPath: boomerangClip,
+                imagePaths: boomerangClip ? undefined : gifPhotos.map(getPhotoSource),
+                filter: FILTERS.find(f => f.id === selectedFilter)?.adjustments
+            })
+            if (result.success && result.data) {
+                setBoomerang(result.data)
+                return result.data
+            }
+            console.error('Failed to generate boomerang:', result.error)
+            return null
+        } finally {
+            setIsGeneratingBoomerang(false)
+        }
+    }
+
+    // Re-render the boomerang when the filter or photos change
+    useEffect(() => {
+        setBoomerang(null)
+    }, [selectedFilter, photos])
+
+    // Build the boomerang when its tab is opened
+    useEffect(() => {
+        if (activeTab === 'boomerang' && !boomerang && !isGeneratingBoomerang) {
+            generateBoomerang()
+        }
+    }, [activeTab, boomerang])
+
+    // Keep the gallery link (local, Drive or cloud) in the local session history
+    useEffect(() => {
+        if (currentSession && galleryUrl) {
+            window.api.sessions.update(currentSession.id, { galleryUrl })
+        }
+    }, [galleryUrl])
 
     // Handle GIF/Live preview animation
     useEffect(() => {
         if (activeTab === 'gif' || activeTab === 'live') {
-            const intervalTime = activeTab === 'gif' ? 500 : 200 // Faster for live/boomerang
+            const intervalTime = activeTab === 'gif' ? gifDelay : 200 // Faster for live/boomerang
+            const frameCount = activeTab === 'gif' ? gifPhotos.length : photos.length
             previewIntervalRef.current = setInterval(() => {
-                setPreviewIndex(prev => (prev + 1) % photos.length)
+                setPreviewIndex(prev => (prev + 1) % frameCount)
             }, intervalTime)
         } else {
             setPreviewIndex(0)
@@ -80,169 +219,161 @@ function PostProcessing(): JSX.Element {
         return () => {
             if (previewIntervalRef.current) clearInterval(previewIntervalRef.current)
         }
-    }, [activeTab, photos.length])
+    }, [activeTab, photos.length, gifPhotos.length, gifDelay])
 
-    // Generate composite from photos using canvas
+    // Render the strip in the main process at the frame's full resolution
     const generateCompositeFromPhotos = async (): Promise<void> => {
-        if (!sessionFrame || photos.length === 0 || !canvasRef.current) return
-
-        const canvas = canvasRef.current
-        const ctx = canvas.getContext('2d')
-        if (!ctx) return
-
-        // Set canvas size to frame dimensions
-        canvas.width = sessionFrame.canvasWidth
-        canvas.height = sessionFrame.canvasHeight
-
-        // Fill background
-        ctx.fillStyle = '#ffffff'
-        ctx.fillRect(0, 0, canvas.width, canvas.height)
-
-        const loadImage = (src: string): Promise<HTMLImageElement> => {
-            return new Promise((resolve, reject) => {
-                const img = new Image()
-                img.crossOrigin = 'anonymous'
-                img.onload = () => resolve(img)
-                img.onerror = reject
-                img.src = src
-            })
-        }
+        if (!sessionFrame || !currentSession || photos.length === 0) return
 
+        const request = ++renderRequestRef.current
         try {
-            // Apply Filter to Context BEFORE drawing photos
-            // The user requested the filter to apply to photos. 
-            // If they want it on the overlay too, we keep it enabled.
-            // As per "Filter only applies to photo", we should ensure it applies to what they expect.
-            // Baking it into the canvas ensures WYSIWYG for print/email.
-            const filterDef = FILTERS.find(f => f.id === selectedFilter)
-            if (filterDef && filterDef.id !== 'none') {
-                ctx.filter = filterDef.filterStr
-            } else {
-                ctx.filter = 'none'
-            }
-
-            // Draw photos to all slots (including duplicates)
-            for (const slot of sessionFrame.slots) {
-                // For duplicate slots, find the source slot's photo
-                const sourceSlotId = slot.duplicateOfSlotId || slot.id
-                const photo = photos.find(p => p.slotId === sourceSlotId)
-                if (!photo) continue
-
-                try {
-                    const img = await loadImage(photo.imagePath)
-
-                    ctx.save()
-                    // Translate to CENTER of slot
-                    ctx.translate(slot.x + slot.width / 2, slot.y + slot.height / 2)
-                    ctx.rotate((slot.rotation * Math.PI) / 180)
-
-                    // Create clipping path to constrain photo to slot bounds
-                    ctx.beginPath()
-                    ctx.rect(-slot.width / 2, -slot.height / 2, slot.width, slot.height)
-                    ctx.clip()
-
-                    // Cover fit: scale to fill entire slot, crop excess
-                    const imgAspect = img.width / img.height
-                    const slotAspect = slot.width / slot.height
-                    let drawWidth, drawHeight
-
-                    if (imgAspect > slotAspect) {
-                        // Image is wider: match height, let width overflow and get clipped
-                        drawHeight = slot.height
-                        drawWidth = slot.height * imgAspect
-                    } else {
-                        // Image is taller: match width, let height overflow and get clipped
-                        drawWidth = slot.width
-                        drawHeight = slot.width / imgAspect
-                    }
-
-                    ctx.drawImage(img, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight)
-                    ctx.restore()
-                } catch (err) {
-                    console.error('Failed to load photo:', err)
-                }
-            }
-
-            // Draw frame overlay
-            try {
-                // Reset filter before drawing overlay - filter only applies to photos
-                ctx.filter = 'none'
-
-                const frameImg = await loadImage(`file://${sessionFrame.overlayPath}`)
-
-                // Draw Frame using "Contain" logic to prevent stretching if aspects mismatch
-                // Ideally frame matches canvas size exactly.
-                const frameAspect = frameImg.width / frameImg.height
-                const canvasAspect = canvas.width / canvas.height
-
-                let fw = canvas.width
-                let fh = canvas.height
-                let fx = 0
-                let fy = 0
-
-                // If massive mismatch, center contain
-                if (Math.abs(frameAspect - canvasAspect) > 0.01) {
-                    if (frameAspect > canvasAspect) {
-                        // Frame wider than canvas -> Fit Width
-                        fw = canvas.width
-                        fh = canvas.width / frameAspect
-                        fy = (canvas.height - fh) / 2
-                    } else {
-                        // Frame taller -> Fit Height
-                        fh = canvas.height
-                        fw = canvas.height * frameAspect
-                        fx = (canvas.width - fw) / 2
-                    }
-                }
+            const result = await window.api.image.renderSession({
+                session: {
+                    id: currentSession.id,
+                    photos: photos.map(photo => ({ ...photo, imagePath: getPhotoSource(photo) }))
+                },
+                frame: sessionFrame,
+                filter: FILTERS.find(f => f.id === selectedFilter)?.adjustments,
+                textValues: buildFrameTextValues(config, currentSession)
+            })
 
-                ctx.drawImage(frameImg, fx, fy, fw, fh)
+            // A newer render (filter/LUT change) has started since this one
+            if (request !== renderRequestRef.current) return
 
-            } catch (err) {
-                console.error('Failed to load frame overlay:', err)
+            if (result.success && result.data) {
+                setCompositeUrl(toFileUrl(result.data.stripPath))
+                setCompositePath(result.data.stripPath)
+            } else {
+                console.error('Failed to generate composite:', result.error)
+                setError('Failed to generate composite image')
             }
-
-            // Get composite as data URL
-            const dataUrl = canvas.toDataURL('image/jpeg', 0.95)
-            setCompositeDataUrl(dataUrl)
-            setCompositePath(dataUrl)
         } catch (error) {
             console.error('Failed to generate composite:', error)
             setError('Failed to generate composite image')
         }
     }
 
-    // Handle print - need to save first
-    const handlePrint = async (): Promise<void> => {
-        if (!compositeDataUrl) return
+    // Follow the queued print job until it completes or gives up
+    useEffect(() => {
+        if (!printJobId) return
+
+        return window.api.printer.onJobUpdated((job: PrintJob) => {
+            if (job.id !== printJobId) return
+            if (job.status === 'completed' || job.status === 'cancelled') {
+                setIsPrinting(false)
+                setPrintJobId(null)
+            } else if (job.status === 'failed') {
+                setError(`Print failed: ${job.error || 'unknown error'}. Please ask staff for help.`)
+                setIsPrinting(false)
+                setPrintJobId(null)
+            }
+        })
+    }, [printJobId])
+
+    // Handle print - need to save first, then hand off to the print queue.
+    // Paid sessions print every remaining copy at once; once the allowance is
+    // used up, staff can authorise single extra prints with the override PIN.
+    const handlePrint = async (override = false): Promise<void> => {
+        if (!compositeUrl) return
+
+        if (!override && printsRemaining === 0) {
+            if (hasOverridePin) {
+                setShowOverridePin(true)
+            } else {
+                setError('All paid prints have been used')
+            }
+            return
+        }
+        const copies = override || printsRemaining === null ? 1 : printsRemaining
 
         setIsPrinting(true)
         setError(null)
 
         try {
-            // Save data URL to temp file for printing
-            const saveResult = await window.api.system.saveDataUrl(
-                compositeDataUrl,
-                `print_${Date.now()}.jpg`
-            )
+            const stripPath = currentSession?.compositePath
+            if (stripPath) {
+                let filePath = stripPath
+                let media: string | undefined
+
+                // Lay the strip out on the frame's paper (bleed, 2-up strips, etc.)
+                if (sessionFrame?.paperProfileId) {
+                    const layoutResult = await window.api.image.renderPrintLayout({
+                        inputPath: stripPath,
+                        paperProfileId: sessionFrame.paperProfileId,
+                        format: 'pdf'
+                    })
+                    if (!layoutResult.success || !layoutResult.data) {
+                        setError(layoutResult.error || 'Failed to lay out print')
+                        setIsPrinting(false)
+                        return
+                    }
+                    filePath = layoutResult.data.path
+                    media = layoutResult.data.media
+                }
 
-            if (saveResult.success && saveResult.data) {
-                const result = await window.api.printer.print(saveResult.data)
-                if (!result.success) {
+                const result = await window.api.printer.enqueue({
+                    filePath,
+                    sessionId: currentSession?.id,
+                    copies,
+                    media
+                })
+                if (result.success && result.data) {
+                    setPrintJobId(result.data.id)
+                    recordPrint({
+                        jobId: result.data.id,
+                        copies,
+                        override,
+                        timestamp: Date.now()
+                    })
+                    if (currentSession) {
+                        incrementPrintCount(currentSession.id, copies).catch(console.error)
+                        window.api.sessions.update(currentSession.id, { printCount: currentSession.printsUsed + copies })
+                    }
+                } else {
                     setError(result.error || 'Print failed')
+                    setIsPrinting(false)
                 }
             } else {
-                setError('Failed to save image for printing')
+                setError('The photo strip is not ready yet')
+                setIsPrinting(false)
             }
         } catch (err) {
             setError('Print failed: ' + (err as Error).message)
-        } finally {
             setIsPrinting(false)
         }
     }
 
-    // Handle QR code generation - save locally, upload to Google Drive, and fallback to Supabase if needed
+    // Point the QR code at the booth's own gallery server (port 5050), serving the saved session folder.
+    // Returns the gallery's file URLs, or null when the booth has no local IP.
+    const shareOnLocalWifi = async (
+        sessionId: string,
+        savedFiles: { path: string; filename: string; mimeType: string }[]
+    ): Promise<{ photoStripUrl?: string; gifUrl?: string; livePhotoUrl?: string; photoUrls: string[] } | null> => {
+        const ipRes = await window.api.system.getLocalIp()
+        if (!ipRes.success || !ipRes.data) return null
+
+        const baseUrl = `http://${ipRes.data}:5050`
+        const localUrl = `${baseUrl}/gallery/${sessionId}`
+        setQrPhotoUrl(localUrl)
+        setGalleryUrl(localUrl)
+
+        // The Express server serves these exact filenames directly out of the sessionId folder
+        const fileUrl = (prefix: string) => {
+            const file = savedFiles.find(f => f.filename.startsWith(prefix))
+            return file ? `${baseUrl}/Session_${sessionId}/${file.filename}` : undefined
+        }
+        const photoUrls = savedFiles.filter(f => f.filename.startsWith('photo_')).map(f => `${baseUrl}/Session_${sessionId}/${f.filename}`)
+
+        setPhotoStripUrl(fileUrl('strip_') || null)
+        setGifUrl(fileUrl('gif_') || null)
+        setUploadedPhotoUrls(photoUrls)
+
+        return { photoStripUrl: fileUrl('strip_'), gifUrl: fileUrl('gif_'), livePhotoUrl: fileUrl('live_video_'), photoUrls }
+    }
+
+    // Handle QR code generation - save locally, then share over WiFi or upload via the sync outbox
     const handleGenerateQR = async (): Promise<void> => {
-        if (!compositeDataUrl || !currentSession || !window.api.drive || !window.api.system.saveSessionLocally) return
+        if (!compositeUrl || !currentSession || !window.api.sync || !window.api.system.saveSessionLocally) return
 
         setIsGeneratingQR(true)
         setQrPhotoUrl(null)
@@ -252,91 +383,42 @@ function PostProcessing(): JSX.Element {
             const sessionId = currentSession.id
             const timestamp = Date.now()
 
-            // 0. Generate GIF data URL
-            let gifDataUrl = ''
-            if (photos.length > 0) {
-                try {
-                    const gifCanvas = document.createElement('canvas')
-
-                    // High-Quality GIF: Use the first photo's native dimensions or frame aspect ratio
-                    const firstSlot = sessionFrame?.slots?.[0]
-                    const slotAspect = firstSlot ? (firstSlot.width / firstSlot.height) : 1.5
-
-                    // Maximize resolution, typically photobooths run at 1080p width
-                    gifCanvas.width = 1080
-                    gifCanvas.height = Math.round(1080 / slotAspect)
-
-                    // Force high-quality interpolation
-                    const gctx = gifCanvas.getContext('2d', { willReadFrequently: true, alpha: false })
-                    if (gctx) {
-                        gctx.imageSmoothingEnabled = true
-                        gctx.imageSmoothingQuality = 'high'
-
-                        // Apply active filter
-                        const filterDef = FILTERS.find(f => f.id === selectedFilter)
-                        if (filterDef && filterDef.id !== 'none') {
-                            gctx.filter = filterDef.filterStr
-                        } else {
-                            gctx.filter = 'none'
-                        }
-
-                        const framesBase64: string[] = []
-
-                        for (const photo of photos) {
-                            const img = new Image()
-                            img.crossOrigin = 'anonymous'
-                            img.src = photo.imagePath
-                            await new Promise(r => img.onload = r)
-
-                            // Cover fit onto canvas exactly as shot
-                            const imgAspect = img.width / img.height
-                            const canvasAspect = gifCanvas.width / gifCanvas.height
-                            let dw = gifCanvas.width, dh = gifCanvas.height, dx = 0, dy = 0
-
-                            if (imgAspect > canvasAspect) {
-                                dh = gifCanvas.height
-                                dw = gifCanvas.height * imgAspect
-                                dx = (gifCanvas.width - dw) / 2
-                            } else {
-                                dw = gifCanvas.width
-                                dh = gifCanvas.width / imgAspect
-                                dy = (gifCanvas.height - dh) / 2
-                            }
-
-                            gctx.fillStyle = '#ffffff'
-                            gctx.fillRect(0, 0, gifCanvas.width, gifCanvas.height)
-                            gctx.drawImage(img, dx, dy, dw, dh)
-
-                            // Push frame as high-quality JPEG base64
-                            const frameDataUrl = gifCanvas.toDataURL('image/jpeg', 0.95)
-                            framesBase64.push(frameDataUrl)
-                        }
-
-                        // Generate true GIF using FFmpeg in backend
-                        if (window.api.system.generateHqGif) {
-                            const hqGifResult = await window.api.system.generateHqGif(framesBase64, 500)
-                            if (hqGifResult.success && hqGifResult.data) {
-                                gifDataUrl = hqGifResult.data
-                            } else {
-                                console.error('FFmpeg GIF Gen Failed:', hqGifResult.error)
-                            }
-                        }
-                    }
-                } catch (e) {
-                    console.error('Failed to generate GIF:', e)
+            // 0. Render the animated GIF in the main process
+            let gifPath: string | undefined
+            if (gifEntitled && gifPhotos.length > 0) {
+                // Match the frame's photo slot aspect ratio at 1080px wide
+                const firstSlot = sessionFrame?.slots?.[0]
+                const slotAspect = firstSlot ? (firstSlot.width / firstSlot.height) : 1.5
+
+                const gifResult = await window.api.image.generateGif({
+                    imagePaths: gifPhotos.map(getPhotoSource),
+                    width: 1080,
+                    height: Math.round(1080 / slotAspect),
+                    delay: gifDelay,
+                    crops: gifPhotos.map(photo => photo.crop),
+                    filter: FILTERS.find(f => f.id === selectedFilter)?.adjustments
+                })
+                if (gifResult.success && gifResult.data) {
+                    gifPath = gifResult.data
+                } else {
+                    console.error('Failed to generate GIF:', gifResult.error)
                 }
             }
 
+            // 0b. Boomerang (reuses the one already shown in the preview)
+            const boomerangResult = await generateBoomerang()
+
             // 1. Collect file references from the frontend
             const photoRefs = photos.map((p, i) => ({
-                path: p.imagePath,
+                path: getPhotoSource(p),
                 filename: `photo_${sessionId}_${i}_${timestamp}.jpg`
             }))
 
-            const videoRefs: { path: string; filename: string }[] = []
+            const videoRefs: { path: string; filename: string; crop?: PhotoCrop }[] = []
             let hasVideoRecordings = false;
 
-            if (sessionFrame) {
+            // Live video is only composed when the package includes it
+            if (liveVideoEntitled && sessionFrame) {
                 // Map videos to each slot exactly, supporting duplicates
                 for (const slot of sessionFrame.slots) {
                     const sourceSlotId = slot.duplicateOfSlotId || slot.id
@@ -346,13 +428,14 @@ function PostProcessing(): JSX.Element {
                         hasVideoRecordings = true;
                         videoRefs.push({
                             path: photoInfo.videoPath,
-                            filename: `video_${sessionId}_${slot.id}_${timestamp}.webm`
+                            filename: `video_${sessionId}_${slot.id}_${timestamp}.webm`,
+                            crop: photoInfo.crop
                         })
                     } else {
                         videoRefs.push({ path: '', filename: '' }) // Maintain array alignment with slots
                     }
                 }
-            } else {
+            } else if (liveVideoEntitled) {
                 // Fallback mapping if no sessionFrame 
                 const uniqueVideos = new Set<string>()
                 for (const photo of photos) {
@@ -374,16 +457,30 @@ function PostProcessing(): JSX.Element {
             // 2. Save everything locally first! 
             const localSaveRes = await window.api.system.saveSessionLocally({
                 sessionId,
-                stripDataUrl: compositeDataUrl,
-                gifDataUrl: gifDataUrl || undefined,
+                stripPath: currentSession.compositePath,
+                gifPath,
+                boomerang: boomerangResult || undefined,
                 photos: photoRefs,
                 videos: videoRefs,
                 overlay: overlayRef,
+                lutPath: selectedLut?.cubePath,
                 frameConfig: sessionFrame ? {
                     width: sessionFrame.canvasWidth,
                     height: sessionFrame.canvasHeight,
-                    slots: sessionFrame.slots.map(s => ({ width: s.width, height: s.height, x: s.x, y: s.y, rotation: s.rotation || 0 }))
-                } : undefined
+                    slots: sessionFrame.slots.map(s => ({ width: s.width, height: s.height, x: s.x, y: s.y, rotation: s.rotation || 0 })),
+                    layers: sessionFrame.layers
+                } : undefined,
+                textValues: buildFrameTextValues(config, currentSession),
+                session: {
+                    number: currentSession.number,
+                    frameId: currentSession.frameId,
+                    frameName: sessionFrame?.name,
+                    createdAt: currentSession.createdAt,
+                    email: currentSession.email,
+                    printCount: currentSession.printsUsed,
+                    paymentOrderId: currentSession.paymentOrderId,
+                    voucher: currentSession.voucher
+                }
             })
 
             if (!localSaveRes.success || !localSaveRes.data) {
@@ -395,133 +492,39 @@ function PostProcessing(): JSX.Element {
             // LOCAL WIFI (OFFLINE) ROUTING 📶
             if (config.sharingMode === 'local') {
                 console.log('Using Local WiFi Sharing mode.')
-                const ipRes = await window.api.system.getLocalIp()
-                if (ipRes.success && ipRes.data) {
-                    const localIp = ipRes.data
-                    const localUrl = `http://${localIp}:5050/gallery/${sessionId}`
-
-                    setQrPhotoUrl(localUrl)
-                    setGalleryUrl(localUrl)
-
-                    // The Express server serves these exact filenames directly out of the sessionId folder
-                    const uploadedStrip = savedLocalFiles.find((f: { filename: string }) => f.filename.startsWith('strip_'))
-                    setPhotoStripUrl(uploadedStrip ? `http://${localIp}:5050/Session_${sessionId}/${uploadedStrip.filename}` : null)
-
-                    const uploadedGif = savedLocalFiles.find((f: { filename: string }) => f.filename.startsWith('gif_'))
-                    setGifUrl(uploadedGif ? `http://${localIp}:5050/Session_${sessionId}/${uploadedGif.filename}` : null)
-
-                    const videoFile = savedLocalFiles.find((f: { filename: string }) => f.filename.startsWith('live_video_'))
-
-                    const uploadedPhotos = savedLocalFiles.filter((f: { filename: string }) => f.filename.startsWith('photo_')).map((f: { filename: string }) => `http://${localIp}:5050/Session_${sessionId}/${f.filename}`)
-                    setUploadedPhotoUrls(uploadedPhotos)
-
-                    await saveGallery({
-                        sessionId,
-                        photoStripUrl: uploadedStrip ? `http://${localIp}:5050/Session_${sessionId}/${uploadedStrip.filename}` : undefined,
-                        gifUrl: uploadedGif ? `http://${localIp}:5050/Session_${sessionId}/${uploadedGif.filename}` : undefined,
-                        livePhotoUrl: videoFile ? `http://${localIp}:5050/Session_${sessionId}/${videoFile.filename}` : undefined,
-                        photoUrls: uploadedPhotos
-                    })
-
-                    setIsGeneratingQR(false)
+                const localGallery = await shareOnLocalWifi(sessionId, savedLocalFiles)
+                if (localGallery) {
+                    await saveGallery({ sessionId, ...localGallery, printCount: currentSession.printsUsed })
                     return // Done successfully without cloud uploads!
-                } else {
-                    console.warn('Failed to get local IP for WiFi sharing, falling back to cloud.', ipRes.error)
                 }
+                console.warn('Failed to get local IP for WiFi sharing, falling back to cloud.')
             }
 
-            // 3. Try uploading to Google Drive
-            try {
-                const driveRes = await window.api.drive.uploadSession({ sessionId, files: savedLocalFiles })
-
-                if (driveRes.success && driveRes.folderUrl) {
-                    // Google Drive upload succeeded!
-                    const driveFolderUrl = driveRes.folderUrl
-                    setQrPhotoUrl(driveFolderUrl)
-                    setGalleryUrl(driveFolderUrl)
-
-                    const uploadedStrip = driveRes.files?.find((f: { filename: string; url: string; id: string }) => f.filename.startsWith('strip_'))
-                    setPhotoStripUrl(uploadedStrip?.url || null)
-
-                    const uploadedGif = driveRes.files?.find((f: { filename: string; url: string; id: string }) => f.filename.startsWith('gif_'))
-                    setGifUrl(uploadedGif?.url || null)
-
-                    const uploadedVideo = driveRes.files?.find((f: { filename: string; url: string; id: string }) => f.filename.startsWith('live_video_'))
-
-                    const uploadedPhotos = driveRes.files?.filter((f: { filename: string; url: string; id: string }) => f.filename.startsWith('photo_')).map((f: { filename: string; url: string; id: string }) => f.url) || []
-                    setUploadedPhotoUrls(uploadedPhotos)
+            // 3. Upload through the sync outbox (Google Drive, falling back to Supabase Storage).
+            // If this attempt doesn't finish, the outbox keeps retrying in the background.
+            const syncRes = await window.api.sync.uploadSession({
+                sessionId,
+                files: savedLocalFiles,
+                printCount: currentSession.printsUsed
+            })
+            const job = syncRes.data
 
-                    await saveGallery({
-                        sessionId,
-                        photoStripUrl: uploadedStrip?.url,
-                        gifUrl: uploadedGif?.url,
-                        livePhotoUrl: uploadedVideo?.url,
-                        photoUrls: uploadedPhotos
-                    })
+            if (job?.status === 'completed' && job.galleryUrl) {
+                const uploadedUrl = (prefix: string) => job.files.find(f => f.filename.startsWith(prefix))?.url
 
-                    setIsGeneratingQR(false)
-                    return // Done successfully
-                } else {
-                    console.warn('Drive upload failed, falling back to Supabase:', driveRes.error)
-                }
-            } catch (driveErr) {
-                console.warn('Drive upload threw error, falling back to Supabase:', driveErr)
+                setQrPhotoUrl(job.galleryUrl)
+                setGalleryUrl(job.galleryUrl)
+                setPhotoStripUrl(uploadedUrl('strip_') || null)
+                setGifUrl(uploadedUrl('gif_') || null)
+                setUploadedPhotoUrls(job.files.filter(f => f.filename.startsWith('photo_') && f.url).map(f => f.url!))
+                return
             }
 
-            // 4. Fallback to Supabase if Google Drive failed (e.g. 403 Forbidden)
-            console.log('Running Supabase upload fallback...')
-            let photoStripUrl: string | undefined
-            let gifFallbackUrl: string | undefined
-            let videoFallbackUrl: string | undefined
-            const photoUrls: string[] = []
-
-            for (const file of savedLocalFiles) {
-                try {
-                    // Read file securely via IPC bridge instead of browser fetch(file://) 
-                    const base64Res = await window.api.system.readFileAsBase64(file.path)
-                    if (!base64Res.success || !base64Res.data) {
-                        console.error('Failed to read file for Supabase fallback upload:', base64Res.error)
-                        continue
-                    }
-
-                    const fetchRes = await fetch(`data:${file.mimeType};base64,${base64Res.data}`)
-                    const blob = await fetchRes.blob()
-
-                    const uploadResult = await uploadFile('exports', file.filename, blob)
-
-                    if (uploadResult && 'url' in uploadResult) {
-                        if (file.filename.startsWith('strip_')) {
-                            photoStripUrl = uploadResult.url
-                        } else if (file.filename.startsWith('gif_')) {
-                            gifFallbackUrl = uploadResult.url
-                        } else if (file.filename.startsWith('live_video_')) {
-                            videoFallbackUrl = uploadResult.url
-                        } else if (file.filename.startsWith('photo_')) {
-                            photoUrls.push(uploadResult.url)
-                        }
-                    }
-                } catch (e) {
-                    console.error('Fallback upload failed for file:', file.filename, e)
-                }
+            // 4. Still uploading (offline or the cloud is failing): hand out the booth's WiFi gallery meanwhile
+            console.warn('Cloud upload pending, sharing over local WiFi:', syncRes.error || job?.error)
+            if (!await shareOnLocalWifi(sessionId, savedLocalFiles)) {
+                setQrPhotoUrl(null)
             }
-
-            // Fallback to direct photo strip URL since Vercel gallery is down
-            const fallbackUrl = photoStripUrl || photoUrls[0] || ''
-
-            setQrPhotoUrl(fallbackUrl)
-            setGalleryUrl(fallbackUrl)
-            setPhotoStripUrl(photoStripUrl || null)
-            setGifUrl(gifFallbackUrl || null)
-            setUploadedPhotoUrls(photoUrls)
-
-            await saveGallery({
-                sessionId,
-                photoStripUrl,
-                gifUrl: gifFallbackUrl,
-                livePhotoUrl: videoFallbackUrl,
-                photoUrls
-            })
-
         } catch (err) {
             console.error('QR generation error:', err)
             setQrPhotoUrl(null)
@@ -547,8 +550,9 @@ function PostProcessing(): JSX.Element {
             })
 
             if (result.success) {
-                // Save email to session store
+                // Save email to session store and the local session history
                 setEmail(email)
+                window.api.sessions.update(currentSession.id, { email })
                 setLastEmail(email)
             }
 
@@ -768,7 +772,11 @@ function PostProcessing(): JSX.Element {
     }
 
     // Handle done / restart
-    const handleDone = (): void => {
+    const handleDone = async (): Promise<void> => {
+        // Guests always get what they paid for, even if they never pressed Print
+        if (printsRemaining && compositeUrl && !isPrinting) {
+            await handlePrint()
+        }
         endSession()
         navigate('/')
     }
@@ -811,9 +819,9 @@ function PostProcessing(): JSX.Element {
     // Render Preview Logic
     const renderPreview = () => {
         if (activeTab === 'photo') {
-            return compositeDataUrl ? (
+            return compositeUrl ? (
                 <img
-                    src={compositeDataUrl}
+                    src={compositeUrl}
                     alt="Composite Preview"
                     className={styles.previewImage}
                 />
@@ -825,11 +833,11 @@ function PostProcessing(): JSX.Element {
             )
         } else if (activeTab === 'gif') {
             // GIF Preview - Slideshow of individual photos
-            const currentPhoto = photos[previewIndex]
+            const currentPhoto = gifPhotos[previewIndex]
             return currentPhoto ? (
                 <>
                     <img
-                        src={currentPhoto.imagePath}
+                        src={getPhotoSource(currentPhoto)}
                         alt="GIF Frame"
                         className={styles.previewImage}
                         style={{
@@ -837,7 +845,7 @@ function PostProcessing(): JSX.Element {
                         }}
                     />
                     <div className={styles.previewOverlayMode}>
-                        GIF Preview ({previewIndex + 1}/{photos.length})
+                        GIF Preview ({previewIndex + 1}/{gifPhotos.length})
                     </div>
                 </>
             ) : (
@@ -846,6 +854,36 @@ function PostProcessing(): JSX.Element {
                     No photos for GIF
                 </div>
             )
+        } else if (activeTab === 'boomerang') {
+            return boomerang ? (
+                <>
+                    <video
+                        src={toFileUrl(boomerang.mp4Path)}
+                        className={styles.previewImage}
+                        autoPlay
+                        loop
+                        muted
+                        playsInline
+                    />
+                    <div className={styles.previewOverlayMode}>
+                        Boomerang
+                    </div>
+                </>
+            ) : (
+                <div className={styles.loadingPreview}>
+                    {isGeneratingBoomerang ? (
+                        <>
+                            <span className={styles.spinner} />
+                            Creating boomerang...
+                        </>
+                    ) : (
+                        <>
+                            <span>🔁</span>
+                            No boomerang available
+                        </>
+                    )}
+                </div>
+            )
         } else {
             // Live Photo Preview - Harry Potter style: videos playing within frame slots
             if (!sessionFrame) return null
@@ -853,10 +891,10 @@ function PostProcessing(): JSX.Element {
             const hasVideos = photos.some(p => p.videoPath)
             if (!hasVideos) {
                 // Fallback to static composite if no videos available
-                return compositeDataUrl ? (
+                return compositeUrl ? (
                     <>
                         <img
-                            src={compositeDataUrl}
+                            src={compositeUrl}
                             alt="Live Photo Preview"
                             className={styles.previewImage}
                         />
@@ -873,6 +911,8 @@ function PostProcessing(): JSX.Element {
             }
 
             // Show videos playing within frame template like Harry Potter paintings
+            const montageLayers = splitFrameLayers(getFrameLayers(sessionFrame))
+            const textValues = buildFrameTextValues(config, currentSession)
             return (
                 <div
                     className={styles.livePhotoMontage}
@@ -882,6 +922,15 @@ function PostProcessing(): JSX.Element {
                         height: '100%'
                     }}
                 >
+                    {/* Frame layers behind the clips */}
+                    <FrameLayers
+                        layers={montageLayers.under}
+                        canvasWidth={sessionFrame.canvasWidth}
+                        canvasHeight={sessionFrame.canvasHeight}
+                        values={textValues}
+                        zIndex={1}
+                    />
+
                     {/* Videos positioned in ALL slots (behind overlay) - duplicates use source video */}
                     {sessionFrame.slots.map(slot => {
                         // For duplicate slots, find the source slot's photo
@@ -907,16 +956,18 @@ function PostProcessing(): JSX.Element {
                                     transformOrigin: 'center center',
                                     filter: FILTERS.find(f => f.id === selectedFilter)?.filterStr || 'none'
                                 }}
-                                poster={photo.imagePath}
+                                poster={getPhotoSource(photo)}
                             />
                         )
                     })}
 
-                    {/* Frame overlay on top */}
-                    <img
-                        src={`file://${sessionFrame.overlayPath}`}
-                        alt="Frame"
-                        className={styles.montageOverlay}
+                    {/* Frame layers on top */}
+                    <FrameLayers
+                        layers={montageLayers.over}
+                        canvasWidth={sessionFrame.canvasWidth}
+                        canvasHeight={sessionFrame.canvasHeight}
+                        values={textValues}
+                        zIndex={10}
                     />
 
                     <div className={styles.previewOverlayMode}>
@@ -942,9 +993,6 @@ function PostProcessing(): JSX.Element {
                 label="Post Processing"
             />
 
-            {/* Hidden canvas for compositing */}
-            <canvas ref={canvasRef} style={{ display: 'none' }} />
-
             {/* Left Toolbar (Mode Toggles) */}
             <aside className={styles.leftToolbar}>
                 <button
@@ -954,20 +1002,34 @@ function PostProcessing(): JSX.Element {
                     <span className={styles.modeIcon}>📷</span>
                     Photo
                 </button>
-                <button
-                    className={`${styles.modeBtn} ${activeTab === 'gif' ? styles.active : ''}`}
-                    onClick={() => setActiveTab('gif')}
-                >
-                    <span className={styles.modeIcon}>🎞️</span>
-                    GIF
-                </button>
-                <button
-                    className={`${styles.modeBtn} ${activeTab === 'live' ? styles.active : ''}`}
-                    onClick={() => setActiveTab('live')}
-                >
-                    <span className={styles.modeIcon}>⚡</span>
-                    Live
-                </button>
+                {gifEntitled && (
+                    <button
+                        className={`${styles.modeBtn} ${activeTab === 'gif' ? styles.active : ''}`}
+                        onClick={() => setActiveTab('gif')}
+                    >
+                        <span className={styles.modeIcon}>🎞️</span>
+                        GIF
+                    </button>
+                )}
+                {liveVideoEntitled && (
+                    <button
+                        className={`${styles.modeBtn} ${activeTab === 'live' ? styles.active : ''}`}
+                        onClick={() => setActiveTab('live')}
+                    >
+                        <span className={styles.modeIcon}>⚡</span>
+                        Live
+                    </button>
+                )}
+                {gifEntitled && (
+                    <button
+                        className={`${styles.modeBtn} ${activeTab === 'boomerang' ? styles.active : ''}`}
+                        onClick={() => setActiveTab('boomerang')}
+                        disabled={!canMakeBoomerang}
+                    >
+                        <span className={styles.modeIcon}>🔁</span>
+                        Boomerang
+                    </button>
+                )}
             </aside>
 
             {/* Preview Section */}
@@ -992,9 +1054,14 @@ function PostProcessing(): JSX.Element {
                     <h3>Your Photos</h3>
                     <div className={styles.photoGrid}>
                         {photos.map((photo, index) => (
-                            <div key={photo.slotId} className={styles.photoThumb}>
+                            <button
+                                key={photo.slotId}
+                                className={styles.photoThumb}
+                                onClick={() => setCropSlotId(photo.slotId)}
+                                title="Tap to adjust framing"
+                            >
                                 <img src={photo.imagePath} alt={`Photo ${index + 1}`} />
-                            </div>
+                            </button>
                         ))}
                     </div>
                 </div>
@@ -1006,8 +1073,11 @@ function PostProcessing(): JSX.Element {
                         {FILTERS.map(filter => (
                             <button
                                 key={filter.id}
-                                className={`${styles.filterBtn} ${selectedFilter === filter.id ? styles.selected : ''}`}
-                                onClick={() => setSelectedFilter(filter.id)}
+                                className={`${styles.filterBtn} ${!selectedLut && selectedFilter === filter.id ? styles.selected : ''}`}
+                                onClick={() => {
+                                    setSelectedLutId(null)
+                                    setSelectedFilter(filter.id)
+                                }}
                             >
                                 <div className={styles.filterPreview} style={filter.style}>
                                     {photos[0] && <img src={photos[0].imagePath} alt={filter.name} />}
@@ -1015,6 +1085,27 @@ function PostProcessing(): JSX.Element {
                                 <span>{filter.name}</span>
                             </button>
                         ))}
+                        {/* Imported .cube LUTs (graded in the main process) */}
+                        {lutFilters.map(lut => (
+                            <button
+                                key={lut.id}
+                                className={`${styles.filterBtn} ${selectedLutId === lut.id ? styles.selected : ''}`}
+                                onClick={() => {
+                                    setSelectedFilter('none')
+                                    setSelectedLutId(lut.id)
+                                }}
+                                disabled={isApplyingLut}
+                            >
+                                <div className={styles.filterPreview}>
+                                    {lut.previewPath ? (
+                                        <img src={`file://${lut.previewPath}`} alt={lut.name} />
+                                    ) : (
+                                        photos[0] && <img src={getPhotoSource(photos[0])} alt={lut.name} />
+                                    )}
+                                </div>
+                                <span>{selectedLutId === lut.id && isApplyingLut ? 'Applying...' : lut.name}</span>
+                            </button>
+                        ))}
                     </div>
                 </div>
 
@@ -1022,28 +1113,36 @@ function PostProcessing(): JSX.Element {
                 <div className={styles.sidebarActions}>
                     {error && <div className={styles.errorMessage}>{error}</div>}
 
-                    <button
-                        className={styles.actionBtn}
-                        onClick={() => setShowEmailModal(true)}
-                        disabled={!compositeDataUrl}
-                    >
-                        📧 Send to Email
-                    </button>
+                    {emailEntitled && (
+                        <button
+                            className={styles.actionBtn}
+                            onClick={() => setShowEmailModal(true)}
+                            disabled={!compositeUrl}
+                        >
+                            📧 Send to Email
+                        </button>
+                    )}
 
                     <button
                         className={styles.actionBtn}
                         onClick={handleGenerateQR}
-                        disabled={!compositeDataUrl || isGeneratingQR}
+                        disabled={!compositeUrl || isGeneratingQR}
                     >
                         {isGeneratingQR ? 'Generating...' : '📱 QR Code'}
                     </button>
 
                     <button
                         className={styles.actionBtn}
-                        onClick={handlePrint}
-                        disabled={isPrinting || !compositeDataUrl}
+                        onClick={() => handlePrint()}
+                        disabled={isPrinting || !compositeUrl || (printsRemaining === 0 && !hasOverridePin)}
                     >
-                        {isPrinting ? 'Printing...' : '🖨️ Print Photo'}
+                        {isPrinting
+                            ? 'Printing...'
+                            : printsRemaining === null
+                                ? '🖨️ Print Photo'
+                                : printsRemaining > 0
+                                    ? `🖨️ Print ${printsRemaining} Photo${printsRemaining > 1 ? 's' : ''}`
+                                    : '🔒 Extra Print (Staff)'}
                     </button>
 
                     <button onClick={handleDone} className={`${styles.actionBtn} ${styles.primary}`}>
@@ -1059,6 +1158,34 @@ function PostProcessing(): JSX.Element {
                 onSubmit={async (email) => { await handleSendEmail(email) }}
             />
 
+            {/* Pan/zoom a photo within its slot */}
+            {cropPhoto && (
+                <CropAdjuster
+                    isOpen={!!cropPhoto}
+                    imageSrc={getPhotoSource(cropPhoto)}
+                    aspect={cropSlot ? cropSlot.width / cropSlot.height : 1}
+                    crop={cropPhoto.crop}
+                    filterStyle={FILTERS.find(f => f.id === selectedFilter)?.filterStr}
+                    onClose={() => setCropSlotId(null)}
+                    onSave={(crop) => updatePhoto(cropPhoto.slotId, { crop })}
+                />
+            )}
+
+            {/* Staff PIN for prints beyond the paid allowance */}
+            <PinModal
+                isOpen={showOverridePin}
+                title="🔒 Extra Print"
+                message="All paid prints have been used. Enter the staff PIN to print another copy."
+                onClose={() => setShowOverridePin(false)}
+                onSubmit={async (pin) => {
+                    const result = await window.api.payment.verifyOverridePin(pin)
+                    if (!result.success) setError(result.error || 'Failed to check PIN')
+                    if (!result.success || !result.data) return false
+                    handlePrint(true)
+                    return true
+                }}
+            />
+
             {/* QR Code Modal (2-Step for Offline Sharing) */}
             <QRCodeModal
                 isOpen={showQRModal}
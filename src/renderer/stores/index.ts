@@ -5,11 +5,16 @@ import {
     PhotoSlot,
     CapturedPhoto,
     SessionData,
+    SessionPrint,
+    SessionStartOptions,
+    SessionEntitlements,
     AppConfig,
     LUTFilter,
-    CameraDevice
+    CameraDevice,
+    CameraConnectionStatus
 } from '@shared/types'
 import { v4 as uuidv4 } from 'uuid'
+import { createSettingsStorage } from '../lib/settings'
 
 // ================================
 // App Config Store
@@ -33,13 +38,62 @@ const defaultConfig: AppConfig = {
     sessionTimerEnabled: true,
     // Payment Gateway
     paymentEnabled: false,
-    sessionPrice: 25000, // IDR 25,000 base price
+    pricingPackages: [
+        {
+            id: 'digital',
+            name: 'Digital Only',
+            description: 'Photos and GIF by QR code and email',
+            price: 15000,
+            prints: 0,
+            entitlements: { gif: true, liveVideo: false, email: true }
+        },
+        {
+            id: 'one-strip',
+            name: '1 Strip',
+            description: 'One 4R print',
+            price: 25000,
+            prints: 1,
+            entitlements: { gif: false, liveVideo: false, email: true }
+        },
+        {
+            id: 'two-strips-gif',
+            name: '2 Strips + GIF',
+            description: 'Two 4R prints and an animated GIF',
+            price: 40000,
+            prints: 2,
+            entitlements: { gif: true, liveVideo: false, email: true }
+        },
+        {
+            id: 'unlimited',
+            name: 'Unlimited Prints',
+            description: 'Print as many as you like, plus GIF and live video',
+            price: 75000,
+            prints: null,
+            entitlements: { gif: true, liveVideo: true, email: true }
+        }
+    ],
     additionalPrintPrice: 5000, // IDR 5,000 per 2 additional prints
+    paymentProvider: 'midtrans',
+    midtransEnvironment: 'sandbox',
     midtransClientKey: '',
-    midtransServerKey: '',
+    mockPaymentOutcome: 'settlement',
     paymentInstructions: 'Scan QR code dengan aplikasi e-wallet atau mobile banking Anda. Pembayaran akan terkonfirmasi otomatis.',
     paymentTimeout: 300, // 5 minutes
-    sharingMode: 'cloud' // Can be 'cloud' or 'local'
+    cashPaymentEnabled: false,
+    cashOperators: [],
+    sharingMode: 'cloud', // Can be 'cloud' or 'local'
+    gmailUser: '',
+    googleDriveFolderId: '',
+    // Event details for frame text layers
+    eventName: '',
+    eventHashtag: '',
+    sessionCounter: 0,
+    // Camera
+    cameraPresets: [],
+    activeCameraPresetId: null,
+    cameraWatchdogEnabled: true,
+    cameraPollInterval: 5,
+    cameraCaptureRetries: 2
 }
 
 export const useAppConfig = create<AppConfigState>()(
@@ -53,16 +107,12 @@ export const useAppConfig = create<AppConfigState>()(
         }),
         {
             name: 'sebooth-config',
+            storage: createSettingsStorage(),
+            onRehydrateStorage: () => reportHydrationError('sebooth-config'),
             // Merge persisted state with defaults to handle missing new fields
+            // (schema migrations run in the main-process SettingsStore)
             merge: (persistedState, currentState) => {
-                const persisted = persistedState as { config?: Partial<AppConfig> & { activeFrameId?: string } } | undefined
-                if (persisted?.config) {
-                    // Migrate old activeFrameId to activeFrameIds
-                    if ('activeFrameId' in persisted.config && persisted.config.activeFrameId) {
-                        persisted.config.activeFrameIds = [persisted.config.activeFrameId]
-                        delete persisted.config.activeFrameId
-                    }
-                }
+                const persisted = persistedState as { config?: Partial<AppConfig> } | undefined
                 return {
                     ...currentState,
                     config: {
@@ -85,6 +135,7 @@ interface FrameState {
     history: FrameConfig[][]
     future: FrameConfig[][]
     addFrame: (frame: Omit<FrameConfig, 'id'>) => string
+    importFrames: (frames: FrameConfig[]) => void
     updateFrame: (id: string, updates: Partial<FrameConfig>) => void
     deleteFrame: (id: string) => void
     setActiveFrame: (id: string | null) => void
@@ -129,6 +180,12 @@ export const useFrameStore = create<FrameState>()(
                     return id
                 },
 
+                // Frames from a package already carry fresh ids from the main process
+                importFrames: (frames) => set((state) => ({
+                    ...saveToHistory(),
+                    frames: [...state.frames, ...frames]
+                })),
+
                 updateFrame: (id, updates) => set((state) => ({
                     ...saveToHistory(),
                     frames: state.frames.map(f => f.id === id ? { ...f, ...updates } : f),
@@ -220,6 +277,8 @@ export const useFrameStore = create<FrameState>()(
         },
         {
             name: 'sebooth-frames',
+            storage: createSettingsStorage(),
+            onRehydrateStorage: () => reportHydrationError('sebooth-frames'),
             // Don't persist history/future to avoid large storage
             partialize: (state) => ({ frames: state.frames, activeFrame: state.activeFrame })
         }
@@ -229,14 +288,19 @@ export const useFrameStore = create<FrameState>()(
 // ================================
 // Session Store
 // ================================
+// Free sessions (payment disabled) get every extra
+const ALL_ENTITLEMENTS: SessionEntitlements = { gif: true, liveVideo: true, email: true }
+
 interface SessionState {
     currentSession: SessionData | null
     photos: CapturedPhoto[]
-    startSession: (frameId: string) => void
+    startSession: (frameId: string, options?: SessionStartOptions) => void
     endSession: () => void
+    recordPrint: (print: SessionPrint) => void
     addPhoto: (slotId: string, imagePath: string, videoPath?: string) => void
     updatePhoto: (slotId: string, updates: Partial<CapturedPhoto>) => void
     removePhoto: (slotId: string) => void
+    setBurstPhotos: (photos: CapturedPhoto[]) => void
     setCompositePath: (path: string) => void
     setEmail: (email: string) => void
 }
@@ -245,21 +309,47 @@ export const useSessionStore = create<SessionState>((set) => ({
     currentSession: null,
     photos: [],
 
-    startSession: (frameId) => set({
-        currentSession: {
-            id: uuidv4(),
-            frameId,
-            photos: [],
-            createdAt: Date.now()
-        },
-        photos: []
-    }),
+    startSession: (frameId, options = {}) => {
+        // Hand out the next booth-wide session number
+        const { config, updateConfig } = useAppConfig.getState()
+        const number = config.sessionCounter + 1
+        updateConfig({ sessionCounter: number })
+
+        set({
+            currentSession: {
+                id: uuidv4(),
+                frameId,
+                number,
+                photos: [],
+                createdAt: Date.now(),
+                printsAllowed: options.printsAllowed ?? null,
+                printsUsed: 0,
+                prints: [],
+                burstPhotos: [],
+                paymentOrderId: options.paymentOrderId,
+                packageId: options.packageId,
+                entitlements: options.entitlements ?? ALL_ENTITLEMENTS,
+                voucher: options.voucher
+            },
+            photos: []
+        })
+    },
 
     endSession: () => set({
         currentSession: null,
         photos: []
     }),
 
+    recordPrint: (print) => set((state) => ({
+        currentSession: state.currentSession
+            ? {
+                ...state.currentSession,
+                printsUsed: state.currentSession.printsUsed + print.copies,
+                prints: [...state.currentSession.prints, print]
+            }
+            : null
+    })),
+
     addPhoto: (slotId, imagePath, videoPath) => set((state) => {
         const newPhoto: CapturedPhoto = {
             slotId,
@@ -282,6 +372,12 @@ export const useSessionStore = create<SessionState>((set) => ({
         photos: state.photos.filter(p => p.slotId !== slotId)
     })),
 
+    setBurstPhotos: (photos) => set((state) => ({
+        currentSession: state.currentSession
+            ? { ...state.currentSession, burstPhotos: photos }
+            : null
+    })),
+
     setCompositePath: (path) => set((state) => ({
         currentSession: state.currentSession
             ? { ...state.currentSession, compositePath: path }
@@ -303,10 +399,12 @@ interface CameraState {
     selectedCamera: CameraDevice | null
     isConnected: boolean
     isCapturing: boolean
+    connectionStatus: CameraConnectionStatus | null // Last watchdog report, null until one arrives
     setCameras: (cameras: CameraDevice[]) => void
     selectCamera: (camera: CameraDevice | null) => void
     setConnected: (connected: boolean) => void
     setCapturing: (capturing: boolean) => void
+    setConnectionStatus: (status: CameraConnectionStatus) => void
 }
 
 export const useCameraStore = create<CameraState>((set) => ({
@@ -314,11 +412,16 @@ export const useCameraStore = create<CameraState>((set) => ({
     selectedCamera: null,
     isConnected: false,
     isCapturing: false,
+    connectionStatus: null,
 
     setCameras: (cameras) => set({ cameras }),
     selectCamera: (camera) => set({ selectedCamera: camera }),
     setConnected: (connected) => set({ isConnected: connected }),
-    setCapturing: (capturing) => set({ isCapturing: capturing })
+    setCapturing: (capturing) => set({ isCapturing: capturing }),
+    setConnectionStatus: (status) => set({
+        connectionStatus: status,
+        isConnected: status === 'connected'
+    })
 }))
 
 // ================================
@@ -356,6 +459,60 @@ export const useFilterStore = create<FilterState>()(
                 set({ activeFilter: filter || null })
             }
         }),
-        { name: 'sebooth-filters' }
+        {
+            name: 'sebooth-filters',
+            storage: createSettingsStorage(),
+            onRehydrateStorage: () => reportHydrationError('sebooth-filters')
+        }
     )
 )
+
+// ================================
+// Settings hydration
+// ================================
+const persistedStores = [useAppConfig, useFrameStore, useFilterStore]
+
+// Stores whose load failed; zustand never finishes their hydration, they keep their defaults
+const failedHydrations = new Set<string>()
+const hydrationFailureListeners = new Set<(name: string) => void>()
+
+/**
+ * onRehydrateStorage callback: log a failed load and stop waitForSettings waiting on it
+ */
+function reportHydrationError<S>(name: string): (state?: S, error?: unknown) => void {
+    return (_state, error) => {
+        if (!error) return
+        console.error(`Failed to load ${name}, using defaults:`, error)
+        failedHydrations.add(name)
+        hydrationFailureListeners.forEach(listener => listener(name))
+    }
+}
+
+/**
+ * Resolves once every persisted store has loaded from the settings store (or failed to)
+ */
+export function waitForSettings(): Promise<void> {
+    return Promise.all(persistedStores.map(store => new Promise<void>(resolve => {
+        const name = store.persist.getOptions().name
+        if (store.persist.hasHydrated() || (name && failedHydrations.has(name))) {
+            resolve()
+            return
+        }
+
+        const done = (): void => {
+            unsubscribe()
+            hydrationFailureListeners.delete(onFailure)
+            resolve()
+        }
+        const onFailure = (failed: string): void => {
+            if (failed === name) done()
+        }
+        const unsubscribe = store.persist.onFinishHydration(done)
+        hydrationFailureListeners.add(onFailure)
+    }))).then(() => undefined)
+}
+
+// Reload a store when another window (or the main process) changes it
+window.api.settings.subscribe(({ key }) => {
+    persistedStores.find(store => store.persist.getOptions().name === key)?.persist.rehydrate()
+})
@@ -0,0 +1,49 @@
+import { PhotoCrop } from './types'
+
+export const DEFAULT_CROP: PhotoCrop = { offsetX: 0.5, offsetY: 0.5, scale: 1 }
+
+// Closest a guest can zoom in on a photo
+export const MAX_CROP_SCALE = 4
+
+/**
+ * Region of a source image shown in a slot with the given aspect ratio.
+ * The largest region with that aspect is the cover fit; scale shrinks it
+ * and the offsets pan it across whatever is left over.
+ */
+export function getCropRect(
+    sourceWidth: number,
+    sourceHeight: number,
+    targetAspect: number,
+    crop: PhotoCrop = DEFAULT_CROP
+): { left: number; top: number; width: number; height: number } {
+    const coverWidth = sourceWidth / sourceHeight > targetAspect
+        ? sourceHeight * targetAspect
+        : sourceWidth
+    const coverHeight = coverWidth / targetAspect
+
+    const scale = clamp(crop.scale, 1, MAX_CROP_SCALE)
+    const width = Math.max(1, Math.min(sourceWidth, Math.round(coverWidth / scale)))
+    const height = Math.max(1, Math.min(sourceHeight, Math.round(coverHeight / scale)))
+
+    return {
+        left: Math.round((sourceWidth - width) * clamp(crop.offsetX, 0, 1)),
+        top: Math.round((sourceHeight - height) * clamp(crop.offsetY, 0, 1)),
+        width,
+        height
+    }
+}
+
+/**
+ * Keep a crop within the ranges getCropRect accepts
+ */
+export function normalizeCrop(crop: PhotoCrop): PhotoCrop {
+    return {
+        offsetX: clamp(crop.offsetX, 0, 1),
+        offsetY: clamp(crop.offsetY, 0, 1),
+        scale: clamp(crop.scale, 1, MAX_CROP_SCALE)
+    }
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, Number.isFinite(value) ? value : min))
+}
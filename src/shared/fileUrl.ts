@@ -0,0 +1,7 @@
+/**
+ * Convert a filesystem path to a file:/// URL usable by the renderer
+ * (shared so the renderer can show files the main process wrote)
+ */
+export function toFileUrl(filePath: string): string {
+    return `file:///${filePath.replace(/\\/g, '/').replace(/^\/+/, '')}`
+}
@@ -0,0 +1,85 @@
+import { FrameConfig, FrameLayer, FrameTextLayer, FrameTextValues } from './types'
+
+export const PHOTOS_LAYER_ID = 'photos'
+
+// Fonts offered in the frame editor; the compositor resolves them through the system's fontconfig
+export const FRAME_FONTS = ['Arial', 'Helvetica', 'Georgia', 'Times New Roman', 'Courier New', 'Verdana', 'Impact']
+
+export const TEXT_TOKENS: (keyof FrameTextValues)[] = ['event', 'date', 'time', 'session', 'hashtag']
+
+/**
+ * A frame's layers bottom to top. Frames saved before layers existed are
+ * their photos with the overlay drawn on top.
+ */
+export function getFrameLayers(frame: Pick<FrameConfig, 'overlayPath' | 'layers'>): FrameLayer[] {
+    if (frame.layers && frame.layers.length > 0) {
+        return frame.layers
+    }
+
+    const layers: FrameLayer[] = [{ id: PHOTOS_LAYER_ID, name: 'Photos', type: 'photos' }]
+    if (frame.overlayPath) {
+        layers.push({ id: 'overlay', name: 'Overlay', type: 'image', path: frame.overlayPath })
+    }
+    return layers
+}
+
+/**
+ * Split the visible layers into those drawn under and over the photos
+ */
+export function splitFrameLayers(layers: FrameLayer[]): { under: FrameLayer[]; over: FrameLayer[] } {
+    const visible = layers.filter(layer => !layer.hidden)
+    const photosIndex = visible.findIndex(layer => layer.type === 'photos')
+    if (photosIndex === -1) {
+        return { under: [], over: visible }
+    }
+    return { under: visible.slice(0, photosIndex), over: visible.slice(photosIndex + 1) }
+}
+
+/**
+ * Replace {token}s in a text layer; unknown tokens are left as typed
+ */
+export function fillTextTokens(text: string, values?: Partial<FrameTextValues>): string {
+    return text.replace(/\{(\w+)\}/g, (match, token: string) => {
+        if (!TEXT_TOKENS.includes(token as keyof FrameTextValues)) return match
+        return values?.[token as keyof FrameTextValues] ?? ''
+    })
+}
+
+/**
+ * Token values for a session
+ */
+export function buildFrameTextValues(
+    event: { eventName: string; eventHashtag: string },
+    session?: { number: number; createdAt: number } | null
+): FrameTextValues {
+    const at = new Date(session?.createdAt ?? Date.now())
+    return {
+        event: event.eventName,
+        date: at.toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' }),
+        time: at.toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' }),
+        session: session ? String(session.number).padStart(4, '0') : '',
+        hashtag: event.eventHashtag
+    }
+}
+
+/**
+ * Text layer with sensible defaults, centred on the canvas
+ */
+export function createTextLayer(id: string, canvasWidth: number, canvasHeight: number): FrameTextLayer {
+    const width = Math.round(canvasWidth * 0.8)
+    return {
+        id,
+        name: 'Text',
+        type: 'text',
+        text: '{event}',
+        x: Math.round((canvasWidth - width) / 2),
+        y: Math.round(canvasHeight * 0.9),
+        width,
+        fontFamily: FRAME_FONTS[0],
+        fontSize: Math.round(canvasWidth / 20),
+        fontWeight: 'bold',
+        color: '#ffffff',
+        align: 'center',
+        rotation: 0
+    }
+}
@@ -0,0 +1,71 @@
+import { PaperProfile } from './types'
+
+/**
+ * Paper profiles available to frames
+ * Sizes are portrait; media names follow the CUPS/Gutenprint convention (w<pt>h<pt>)
+ * used by dye-sub photo printers such as the DNP DS-RX1 and DS620. Windows
+ * drivers don't know those names, so each profile also carries the paper name
+ * the DNP Windows driver lists for it.
+ */
+export const PAPER_PROFILES: PaperProfile[] = [
+    {
+        id: '4x6',
+        name: '4R (4×6")',
+        widthInches: 4,
+        heightInches: 6,
+        dpi: 300,
+        bleedInches: 0.05,
+        marginInches: 0,
+        copiesPerSheet: 1,
+        cropMarks: false,
+        media: 'w288h432',
+        windowsPaperSize: '(4x6)'
+    },
+    {
+        id: '5x7',
+        name: '5R (5×7")',
+        widthInches: 5,
+        heightInches: 7,
+        dpi: 300,
+        bleedInches: 0.05,
+        marginInches: 0,
+        copiesPerSheet: 1,
+        cropMarks: false,
+        media: 'w360h504',
+        windowsPaperSize: '(5x7)'
+    },
+    {
+        id: '6x8',
+        name: '6×8"',
+        widthInches: 6,
+        heightInches: 8,
+        dpi: 300,
+        bleedInches: 0.05,
+        marginInches: 0,
+        copiesPerSheet: 1,
+        cropMarks: false,
+        media: 'w432h576',
+        windowsPaperSize: '(6x8)'
+    },
+    {
+        id: '2x6-duplicated',
+        name: '2×6" Strips (2 per 4×6 sheet)',
+        widthInches: 4,
+        heightInches: 6,
+        dpi: 300,
+        bleedInches: 0.05,
+        marginInches: 0,
+        copiesPerSheet: 2,
+        cropMarks: true,
+        // "div2" asks the printer's cutter to split the sheet down the middle
+        media: 'w288h432-div2',
+        windowsPaperSize: '(2x6x2)'
+    }
+]
+
+/**
+ * Look up a paper profile by id
+ */
+export function getPaperProfile(id: string | undefined): PaperProfile | undefined {
+    return PAPER_PROFILES.find(profile => profile.id === id)
+}
@@ -0,0 +1,19 @@
+import { AppConfig, PriceSelection, PricingPackage } from './types'
+
+/**
+ * Price of a payment-screen selection, before any voucher.
+ * Shared so the screen shows the same total the main process charges.
+ */
+export function priceSelection(
+    config: Pick<AppConfig, 'pricingPackages' | 'additionalPrintPrice'>,
+    selection: PriceSelection
+): { pkg: PricingPackage; subtotal: number } {
+    const pkg = config.pricingPackages.find(p => p.id === selection.packageId)
+    if (!pkg) {
+        throw new Error('Package not found')
+    }
+
+    // Extra prints only make sense on top of a limited print allowance
+    const additionalPrints = pkg.prints === null ? 0 : Math.max(0, Math.floor(selection.additionalPrints || 0))
+    return { pkg, subtotal: pkg.price + additionalPrints * config.additionalPrintPrice }
+}
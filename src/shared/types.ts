@@ -17,6 +17,41 @@ export interface CaptureResult {
     timestamp: number
 }
 
+// Exposure/colour settings, values use the camera's own notation (e.g. '400', '5.6', '1/125')
+export interface CameraSettings {
+    iso?: string
+    aperture?: string
+    shutterSpeed?: string
+    whiteBalance?: string
+    exposureCompensation?: string
+}
+
+export type CameraSettingKey = keyof CameraSettings
+
+// Values the connected camera accepts for each setting
+export type CameraSettingOptions = Partial<Record<CameraSettingKey, string[]>>
+
+export interface CameraPreset {
+    id: string
+    name: string // e.g. "Indoor flash", "Outdoor daylight"
+    settings: CameraSettings
+}
+
+// Connection health reported by the camera watchdog
+export type CameraConnectionStatus = 'connected' | 'disconnected' | 'reconnecting'
+
+export interface CameraStatusEvent {
+    status: CameraConnectionStatus
+    camera: CameraDevice | null
+    error?: string
+}
+
+export interface CameraWatchdogOptions {
+    enabled: boolean
+    pollInterval: number // seconds between health checks
+    captureRetries: number // extra capture attempts after a failure
+}
+
 export interface CameraHandler {
     listCameras(): Promise<CameraDevice[]>
     connect(cameraId: string): Promise<boolean>
@@ -34,6 +69,48 @@ export interface PrinterDevice {
 export interface PrintResult {
     success: boolean
     error?: string
+    jobId?: string // OS spooler job id, when the backend reports one
+}
+
+// A job waiting in the operating system's print spooler
+export interface PrinterQueueEntry {
+    jobId: string
+    printer: string
+    user?: string
+    size?: number // bytes
+    submittedAt?: string
+}
+
+export interface PrinterStatus {
+    printer: PrinterDevice | null
+    jobs: PrinterQueueEntry[]
+}
+
+export type PrintJobStatus = 'queued' | 'printing' | 'completed' | 'failed' | 'cancelled'
+
+export interface PrintJob {
+    id: string
+    sessionId?: string
+    filePath: string // Copy owned by the queue, safe from temp cleanup
+    copies: number
+    copiesPrinted: number // Retries resume from here instead of reprinting
+    spoolerJobIds?: string[] // OS spooler job ids, when the backend reports them
+    printer?: string
+    media?: string
+    status: PrintJobStatus
+    attempts: number
+    error?: string
+    createdAt: number
+    updatedAt: number
+    completedAt?: number
+}
+
+export interface PrintJobRequest {
+    filePath: string
+    sessionId?: string
+    copies?: number
+    printer?: string
+    media?: string // Driver paper size, from the frame's paper profile
 }
 
 // Frame & Photo Slot Types
@@ -54,6 +131,154 @@ export interface FrameConfig {
     slots: PhotoSlot[]
     canvasWidth: number
     canvasHeight: number
+    paperProfileId?: string // Print layout target, see PAPER_PROFILES (prints as-is when unset)
+    captureMode?: FrameCaptureMode // 'burst' fires burstCount shots per countdown for GIF sessions
+    burstCount?: number // Frames per burst (default 6)
+    burstInterval?: number // ms between burst frames, also used as the GIF frame delay (default 300)
+    layers?: FrameLayer[] // Drawn bottom to top; when unset the photos sit under overlayPath
+}
+
+export type FrameCaptureMode = 'photo' | 'burst'
+
+// Frame Layer Types
+interface FrameLayerBase {
+    id: string
+    name: string
+    hidden?: boolean
+}
+
+// Where the photo slots are drawn in the stack (one per frame)
+export interface FramePhotosLayer extends FrameLayerBase {
+    type: 'photos'
+}
+
+// Full-canvas artwork, contained like the overlay (backgrounds, borders, stickers)
+export interface FrameImageLayer extends FrameLayerBase {
+    type: 'image'
+    path: string
+}
+
+export interface FrameTextLayer extends FrameLayerBase {
+    type: 'text'
+    text: string // May contain {event}, {date}, {time}, {session} and {hashtag}
+    x: number // Top-left of the text box, in canvas pixels
+    y: number
+    width: number // Alignment happens within this width
+    fontFamily: string
+    fontSize: number
+    fontWeight: 'normal' | 'bold'
+    color: string
+    align: 'left' | 'center' | 'right'
+    rotation: number // Degrees, about the box centre
+}
+
+export type FrameLayer = FramePhotosLayer | FrameImageLayer | FrameTextLayer
+
+// Values substituted into text layer tokens
+export interface FrameTextValues {
+    event: string
+    date: string
+    time: string
+    session: string
+    hashtag: string
+}
+
+// Print Layout Types
+export interface PaperProfile {
+    id: string
+    name: string
+    widthInches: number // Trimmed sheet size
+    heightInches: number
+    dpi: number
+    bleedInches: number // Extra image past the trim edge on each side, for borderless printers
+    marginInches: number // Blank border inside the trim edge
+    copiesPerSheet: number // Side-by-side copies, e.g. two 2x6 strips on one 4x6 sheet
+    cropMarks: boolean // Draw cut guides between copies / at the trim edge
+    media: string // Media name passed to the printer driver (CUPS)
+    windowsPaperSize?: string // Paper name in the Windows driver; the driver default is used when omitted
+}
+
+export type PrintLayoutRotation = 'auto' | 0 | 90 | 180 | 270
+
+export interface PrintLayoutOptions {
+    inputPath: string
+    paperProfileId: string
+    outputPath?: string
+    format?: 'jpeg' | 'pdf'
+    rotation?: PrintLayoutRotation // 'auto' turns the image to match each copy's orientation
+    cropMarks?: boolean // Overrides the profile default
+}
+
+export interface PrintLayoutResult {
+    path: string
+    widthPx: number
+    heightPx: number
+    media: string
+}
+
+// Image Processing Types
+// Mirrors the CSS filter functions of the on-screen preview
+export interface ImageFilterOptions {
+    brightness?: number
+    contrast?: number
+    saturation?: number
+    hue?: number // Degrees, like hue-rotate()
+    grayscale?: boolean
+    sepia?: boolean | number // true for a full sepia tint, or the sepia() amount (0-1)
+}
+
+export type GifDither = 'none' | 'bayer' | 'floyd_steinberg' | 'sierra2_4a'
+
+export interface GifOptions {
+    delay?: number | number[] // ms per frame; an array sets each frame's delay (last value repeats)
+    loop?: number // 0 loops forever, -1 plays once, N repeats N extra times
+    width?: number
+    height?: number
+    dither?: GifDither
+    maxBytes?: number // Downscale until the file fits, e.g. for email attachment limits
+    overlayPath?: string // Transparent PNG drawn over every frame
+    filter?: ImageFilterOptions
+    crops?: (PhotoCrop | undefined)[] // Per-frame pan/zoom, matching the input order
+}
+
+export interface BoomerangOptions {
+    videoPath?: string // Pre-capture clip; the last clipSeconds are used
+    imagePaths?: string[] // Burst of stills, used when there is no clip
+    outputDir?: string
+    clipSeconds?: number
+    fps?: number // MP4 frame rate (the GIF uses half)
+    loops?: number // Forward+reverse cycles in the MP4; the GIF loops forever
+    width?: number
+    filter?: ImageFilterOptions
+}
+
+export interface BoomerangResult {
+    mp4Path: string
+    gifPath: string
+}
+
+// Session Render Types
+export interface RenderSessionOptions {
+    session: Pick<SessionData, 'id' | 'photos'> // Photo imagePaths may be data URLs, file:/// URLs or paths
+    frame: FrameConfig
+    filter?: ImageFilterOptions // Applied to the photos only, never the overlay
+    textValues?: FrameTextValues // Fills {event}, {date}, ... in text layers
+    outputDir?: string // Defaults to userData/temp/session_<id>
+    thumbnailWidth?: number // Default 400
+}
+
+export interface RenderedSlot {
+    slotId: string
+    path: string // Full-resolution photo cropped to the slot's aspect ratio
+    thumbnailPath: string
+}
+
+export interface SessionRenderResult {
+    stripPath: string // Composite at the frame's canvas size
+    stripThumbnailPath: string
+    width: number
+    height: number
+    slots: RenderedSlot[]
 }
 
 // Session Types
@@ -63,6 +288,13 @@ export interface CapturedPhoto {
     timestamp: number
     filter?: string
     videoPath?: string  // 5-second video before capture for Live Photo
+    crop?: PhotoCrop // Guest's pan/zoom within the slot; centred cover fit when unset
+}
+
+export interface PhotoCrop {
+    offsetX: number // 0 = left edge, 0.5 = centred, 1 = right edge of the spare width
+    offsetY: number // 0 = top edge, 0.5 = centred, 1 = bottom edge of the spare height
+    scale: number // 1 = cover fit, 2 = twice as close
 }
 
 export interface SessionData {
@@ -71,7 +303,72 @@ export interface SessionData {
     photos: CapturedPhoto[]
     email?: string
     createdAt: number
+    number: number // Sequential session number for this booth, shown by {session} text
     compositePath?: string
+    printsAllowed: number | null // Paid print allowance; null when printing isn't metered (payment disabled)
+    printsUsed: number
+    prints: SessionPrint[]
+    burstPhotos: CapturedPhoto[] // Every frame of a burst capture, in order (empty outside burst mode)
+    paymentOrderId?: string // Order that paid for this session
+    packageId?: string // Package bought for this session
+    entitlements: SessionEntitlements // What PostProcessing offers; prints are metered by printsAllowed
+    voucher?: VoucherRedemption // Voucher redeemed at the payment step
+}
+
+export interface SessionPrint {
+    jobId: string
+    copies: number
+    override: boolean // Printed past the allowance with the admin override PIN
+    timestamp: number
+}
+
+export interface SessionStartOptions {
+    printsAllowed?: number | null
+    paymentOrderId?: string
+    packageId?: string
+    entitlements?: SessionEntitlements // Everything when omitted
+    voucher?: VoucherRedemption
+}
+
+// A session in the local session index (userData/session-index.json)
+export interface SessionRecord {
+    id: string
+    number?: number
+    frameId?: string
+    frameName?: string
+    createdAt: number
+    savedAt?: number // When the files were saved to the session folder
+    email?: string
+    printCount: number
+    paymentOrderId?: string
+    voucher?: VoucherRedemption
+    galleryUrl?: string
+    folder?: string // Documents/Sebooth/Sessions/Session_<id>
+    files: SessionFile[]
+}
+
+export interface SessionFile {
+    path: string
+    filename: string
+    mimeType: string
+}
+
+// Fields the renderer fills in as a session goes on
+export type SessionRecordUpdate = Partial<Omit<SessionRecord, 'id' | 'files' | 'folder' | 'savedAt'>>
+
+export interface SessionSearchQuery {
+    text?: string // Matches session id, number, email, frame name or order id
+    from?: number // createdAt range, inclusive
+    to?: number
+    hasEmail?: boolean
+    printed?: boolean
+    offset?: number
+    limit?: number
+}
+
+export interface SessionSearchResult {
+    items: SessionRecord[] // Newest first
+    total: number // Matches before paging
 }
 
 // Config Types
@@ -88,15 +385,33 @@ export interface AppConfig {
     sessionTimerEnabled: boolean // Enable/disable per-session timers
     // Payment Gateway
     paymentEnabled: boolean // Enable/disable payment before capture
-    sessionPrice: number // Base price for 1 session (includes 1 4R print)
-    additionalPrintPrice: number // Price per 2 additional prints
+    pricingPackages: PricingPackage[] // Bundles offered on the payment screen
+    additionalPrintPrice: number // Price per 2 additional prints (packages with limited prints)
+    paymentProvider: PaymentProviderId // Who handles QRIS charges (mock simulates payments offline)
+    midtransEnvironment: MidtransEnvironment
     midtransClientKey: string // Midtrans client key for QRIS
-    midtransServerKey: string // Midtrans server key for API
+    mockPaymentOutcome: MockPaymentOutcome // How mock charges end, to test each path
     paymentInstructions: string // Payment instructions displayed to user
     paymentTimeout: number // seconds - timeout for payment page
+    cashPaymentEnabled: boolean // Offer cash next to QRIS, confirmed by an operator
+    cashOperators: CashOperator[] // Staff who can confirm cash payments with their PIN
 
     // Sharing
     sharingMode: 'cloud' | 'local' // Cloud (Drive/Supabase) or Local WiFi (DSLRBooth mode)
+    gmailUser: string // Gmail account that sends guest emails (its app password is kept in main)
+    googleDriveFolderId: string // Drive folder that gets a subfolder per session
+
+    // Event details for frame text layers
+    eventName: string // {event}
+    eventHashtag: string // {hashtag}
+    sessionCounter: number // Last session number handed out ({session})
+
+    // Camera
+    cameraPresets: CameraPreset[] // Named ISO/aperture/shutter/WB presets
+    activeCameraPresetId: string | null // Preset applied when the camera connects
+    cameraWatchdogEnabled: boolean // Auto-reconnect the camera if it drops
+    cameraPollInterval: number // seconds between camera health checks
+    cameraCaptureRetries: number // extra capture attempts after a failure
 }
 
 export interface LUTFilter {
@@ -117,23 +432,283 @@ export type CameraIPCChannels =
     | 'camera:connect'
     | 'camera:disconnect'
     | 'camera:capture'
+    | 'camera:capture-burst'
     | 'camera:status'
+    | 'camera:start-live-view'
+    | 'camera:stop-live-view'
+    | 'camera:get-settings'
+    | 'camera:set-settings'
+    | 'camera:list-setting-options'
+    | 'camera:configure-watchdog'
+
+// Events pushed from main to renderer
+export type CameraIPCEvents =
+    | 'camera:live-view-frame'
+    | 'camera:status-changed'
 
 export type PrinterIPCChannels =
     | 'printer:list'
     | 'printer:print'
     | 'printer:status'
+    | 'printer:enqueue'
+    | 'printer:jobs'
+    | 'printer:retry'
+    | 'printer:cancel'
+
+// Events pushed from main to renderer
+export type PrinterIPCEvents =
+    | 'printer:job-updated'
 
 export type SystemIPCChannels =
     | 'system:open-file-dialog'
     | 'system:get-temp-path'
     | 'system:save-file'
-    | 'system:generate-hq-gif'
+    | 'system:export-frames'
+    | 'system:import-frames'
+
+export type SettingsIPCChannels =
+    | 'settings:get'
+    | 'settings:set'
+    | 'settings:remove'
+    | 'settings:export-backup'
+    | 'settings:preview-backup'
+    | 'settings:import-backup'
+
+// Pushed to other windows when a persisted store changes
+export type SettingsIPCEvents =
+    | 'settings:changed'
+
+export interface SettingsChangeEvent {
+    key: string // zustand persist name, e.g. 'sebooth-config'
+    value: unknown // null when removed
+}
+
+// What importing a booth backup would change, shown before anything is overwritten
+export interface BoothBackupPreview {
+    path: string
+    exportedAt: number
+    appVersion: string
+    frames: string[] // Frame names in the backup
+    filters: string[] // LUT filter names in the backup
+    replacedFrames: string[] // Current frames that the import removes
+    replacedFilters: string[]
+    changedSettings: (keyof AppConfig)[] // Settings whose value differs from this booth's
+    missingAssets: string[] // Files the backup references but does not contain
+    secretsNotIncluded: string[] // Credentials set on the exporting booth, to re-enter after import
+}
+
+export type SessionsIPCChannels =
+    | 'sessions:search'
+    | 'sessions:update'
+
+// Cloud sync outbox: sessions waiting to be uploaded to Google Drive or Supabase
+export type SyncJobStatus = 'pending' | 'uploading' | 'completed' | 'failed'
+
+export type SyncTarget = 'drive' | 'supabase'
+
+export interface SyncFile {
+    path: string
+    filename: string
+    mimeType: string
+    size: number
+    uploadedBytes: number
+    url?: string // Set once uploaded; retries skip these files
+    error?: string
+}
+
+export interface SyncJob {
+    id: string
+    sessionId: string
+    target: SyncTarget // Drive when configured; Supabase Storage as the fallback
+    files: SyncFile[]
+    printCount?: number
+    folderId?: string // Drive session folder, reused by retries
+    galleryUrl?: string // Link for the guest once uploaded
+    status: SyncJobStatus
+    attempts: number // Attempts made while online; offline time doesn't count
+    nextAttemptAt?: number
+    error?: string
+    createdAt: number
+    updatedAt: number
+    completedAt?: number
+}
+
+export interface SyncRequest {
+    sessionId: string
+    files: SessionFile[]
+    printCount?: number
+}
+
+export interface SyncStatus {
+    online: boolean
+    jobs: SyncJob[] // Newest first
+}
+
+export type SyncIPCChannels =
+    | 'sync:status'
+    | 'sync:retry'
+    | 'sync:upload-session'
+
+// Events pushed from main to renderer
+export type SyncIPCEvents =
+    | 'sync:job-updated'
+
+// Payment Types
+export type PaymentProviderId = 'midtrans' | 'mock' | 'cash'
+
+export type MidtransEnvironment = 'sandbox' | 'production'
+
+export type MockPaymentOutcome = 'settlement' | 'expire'
+
+export type PaymentStatus = 'pending' | 'settled' | 'expired' | 'cancelled' | 'failed' | 'refunded'
+
+// PINs are kept hashed in main, see payment:set-operator-pin
+export interface CashOperator {
+    id: string
+    name: string
+}
+
+// Extras a package unlocks besides prints
+export interface SessionEntitlements {
+    gif: boolean // Animated GIF and boomerang
+    liveVideo: boolean // Live photo strip video
+    email: boolean
+}
+
+export interface PricingPackage {
+    id: string
+    name: string
+    description?: string
+    price: number // IDR
+    prints: number | null // Included prints; null for unlimited
+    entitlements: SessionEntitlements
+}
+
+// What the guest picked on the payment screen; the main process prices it from the admin config
+export interface PriceSelection {
+    packageId: string
+    additionalPrints: number // Only counted for packages with limited prints
+}
+
+// Voucher Types
+export type VoucherDiscountType = 'percent' | 'amount' | 'free'
+
+export interface Voucher {
+    code: string // Upper-case, what guests type or scan
+    label?: string // Who it was issued for, e.g. a sponsor
+    discountType: VoucherDiscountType
+    discountValue: number // Percent (1-100) or IDR off; unused for free sessions
+    maxUses: number | null // 1 for single-use, null for unlimited
+    uses: number
+    expiresAt?: number
+    createdAt: number
+}
+
+export interface VoucherCreateRequest {
+    code?: string // Generated when omitted
+    prefix?: string // For generated codes, e.g. VIP-
+    count?: number // Generate a batch of codes (default 1)
+    label?: string
+    discountType: VoucherDiscountType
+    discountValue: number
+    maxUses: number | null
+    expiresAt?: number
+}
+
+// What a voucher takes off a given price
+export interface VoucherQuote {
+    code: string
+    discountType: VoucherDiscountType
+    discountValue: number
+    subtotal: number // IDR
+    discount: number // IDR
+    total: number // IDR, 0 when the session is free
+}
+
+// A redeemed voucher, as kept with the session
+export interface VoucherRedemption {
+    code: string
+    discountType: VoucherDiscountType
+    discount: number // IDR taken off
+    redeemedAt: number
+}
+
+export type VoucherIPCChannels =
+    | 'vouchers:list'
+    | 'vouchers:create'
+    | 'vouchers:delete'
+    | 'vouchers:quote'
+    | 'vouchers:redeem'
+
+export interface PaymentChargeRequest {
+    amount: number // IDR
+    orderId?: string // Generated when omitted
+}
+
+// A payment-screen order; main works out the amount and holds the voucher for it
+export interface PaymentOrderRequest extends PriceSelection {
+    voucherCode?: string
+}
+
+// A QRIS charge as reported by the payment provider, or a cash order waiting for the operator
+export interface PaymentCharge {
+    provider: PaymentProviderId
+    orderId: string
+    transactionId?: string
+    amount: number
+    status: PaymentStatus
+    qrString?: string // QRIS payload, rendered as a QR code
+    qrImageUrl?: string // Provider-hosted QR image, when there's no payload
+    expiresAt?: number
+    operatorId?: string // Operator who confirmed a cash payment
+    updatedAt: number
+}
+
+// What reported an order's latest status
+export type PaymentUpdateSource = 'booth' | 'poll' | 'webhook' | 'operator'
+
+// A charge as kept in the booth's persisted order log
+export interface PaymentOrder extends PaymentCharge {
+    createdAt: number
+    source: PaymentUpdateSource
+    voucher?: VoucherRedemption // Used up when the order was created, handed back if it ends unpaid
+}
+
+export type PaymentIPCChannels =
+    | 'payment:create-charge'
+    | 'payment:status'
+    | 'payment:cancel'
+    | 'payment:refund'
+    | 'payment:create-cash'
+    | 'payment:set-server-key'
+    | 'payment:credentials'
+    | 'payment:set-operator-pin'
+    | 'payment:set-override-pin'
+    | 'payment:verify-override-pin'
+    | 'payment:confirm-cash'
+
+// Which payment secrets are set; the secrets themselves stay in the main process
+export interface EmailCredentialsStatus {
+    gmailAppPassword: boolean
+}
+
+export interface PaymentCredentialsStatus {
+    midtransServerKey: boolean
+    cashOperatorPins: string[] // Ids of operators with a PIN set
+    adminOverridePin: boolean // Staff PIN for prints beyond the paid allowance
+}
+
+export type PaymentIPCEvents =
+    | 'payment:updated'
 
 export type ImageIPCChannels =
     | 'image:composite'
+    | 'image:render-session'
     | 'image:apply-filter'
+    | 'image:apply-lut'
+    | 'image:render-print-layout'
     | 'image:generate-gif'
+    | 'image:generate-boomerang'
 
 // Supabase Types
 export interface SessionLog {